@@ -1,16 +1,30 @@
-import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Box, Typography, Button, CircularProgress } from '@mui/material';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import { useNovelStore } from '../../store/novelStore';
 import NovelEditor from '../Home/NovelEditor';
+import { saveInviteToken } from '../../services/sessionTokens';
+import { findBySessionId } from '../../services/novelStructure';
 
 export default function CollaborationPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { novels, currentNovel, selectNovel } = useNovelStore();
+  const [searchParams] = useSearchParams();
+  const { novels, currentNovel, workspaceLoaded, selectNovel, selectChapter } = useNovelStore();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  // 已经切换到链接对应章节的协作ID，之后用户可以在目录中切换到其他章节
+  const openedSessionRef = useRef<string | null>(null);
+
+  // 保存邀请链接中的令牌，并从地址栏移除，避免随页面地址泄露
+  useEffect(() => {
+    const token = searchParams.get('token');
+    if (id && token) {
+      saveInviteToken(id, token);
+      navigate(`/collaborate/${id}`, { replace: true });
+    }
+  }, [id, searchParams, navigate]);
 
   // 处理日期对象
   useEffect(() => {
@@ -34,6 +48,9 @@ export default function CollaborationPage() {
       return;
     }
 
+    // 等待从数据库加载小说
+    if (!workspaceLoaded) return;
+
     console.log("尝试查找小说，ID:", id);
     console.log("当前小说列表:", novels.map(n => ({ 
       id: n.id, 
@@ -41,14 +58,21 @@ export default function CollaborationPage() {
       etherpadId: n.etherpadId 
     })));
 
-    // 不再尝试提取小说ID，直接用完整的ID去匹配
-    // 在小说列表中查找匹配的小说 - 检查etherpadId
-    const novel = novels.find(n => n.etherpadId === id);
+    // 协作ID对应某一章，旧链接对应整部小说的etherpadId
+    const openMatch = (match: NonNullable<ReturnType<typeof findBySessionId>>) => {
+      selectNovel(match.novel.id);
+      if (match.chapter && openedSessionRef.current !== id) {
+        selectChapter(match.novel.id, match.chapter.id);
+      }
+      openedSessionRef.current = id;
+    };
+
+    const match = findBySessionId(novels, id);
 
-    if (novel) {
-      console.log("找到匹配的小说:", novel.title);
-      // 设置当前小说
-      selectNovel(novel.id);
+    if (match) {
+      console.log("找到匹配的小说:", match.novel.title);
+      // 设置当前小说和章节
+      openMatch(match);
       setLoading(false);
     } else {
       console.log("找不到匹配的小说，协作ID:", id);
@@ -60,10 +84,10 @@ export default function CollaborationPage() {
       
       // 延迟一下再次尝试，可能数据还在加载中
       setTimeout(() => {
-        const novelAgain = useNovelStore.getState().novels.find(n => n.etherpadId === id);
-        if (novelAgain) {
-          console.log("第二次尝试找到匹配的小说:", novelAgain.title);
-          useNovelStore.getState().selectNovel(novelAgain.id);
+        const matchAgain = findBySessionId(useNovelStore.getState().novels, id);
+        if (matchAgain) {
+          console.log("第二次尝试找到匹配的小说:", matchAgain.novel.title);
+          openMatch(matchAgain);
           setLoading(false);
         } else {
           setError('找不到对应的小说');
@@ -71,7 +95,7 @@ export default function CollaborationPage() {
         }
       }, 1000);
     }
-  }, [id, novels, selectNovel]);
+  }, [id, novels, workspaceLoaded, selectNovel, selectChapter]);
 
   const handleBack = () => {
     navigate('/');
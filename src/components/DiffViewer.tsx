@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { Box, Typography } from '@mui/material';
+import { DiffType, SideBySideLine, SideBySideRow, diffSideBySide } from '../services/textDiff';
+
+interface DiffViewerProps {
+  oldText: string;
+  newText: string;
+  oldLabel: string;
+  newLabel: string;
+  contextLines?: number; // 修改处前后显示的相同行数，不传时显示全部
+}
+
+// 整行的背景色
+const LINE_COLORS: Record<DiffType, string> = {
+  equal: 'transparent',
+  insert: 'rgba(46, 160, 67, 0.12)',
+  delete: 'rgba(248, 81, 73, 0.12)'
+};
+
+// 行内修改的字词
+const SEGMENT_COLORS: Record<DiffType, string> = {
+  equal: 'transparent',
+  insert: 'rgba(46, 160, 67, 0.4)',
+  delete: 'rgba(248, 81, 73, 0.4)'
+};
+
+type DisplayRow = SideBySideRow | { skipped: number };
+
+// 折叠离修改处较远的相同行
+function collapseUnchanged(rows: SideBySideRow[], contextLines: number): DisplayRow[] {
+  const changed = rows.map(row => row.left?.type !== 'equal' || row.right?.type !== 'equal');
+  const nearChange = (index: number) =>
+    changed.slice(Math.max(0, index - contextLines), index + contextLines + 1).some(Boolean);
+
+  const result: DisplayRow[] = [];
+  rows.forEach((row, index) => {
+    if (nearChange(index)) {
+      result.push(row);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && 'skipped' in last) {
+      last.skipped++;
+    } else {
+      result.push({ skipped: 1 });
+    }
+  });
+  return result;
+}
+
+function DiffCell({ line }: { line: SideBySideLine | null }) {
+  return (
+    <>
+      <Box sx={{ px: 1, color: 'text.disabled', textAlign: 'right', userSelect: 'none', bgcolor: line ? LINE_COLORS[line.type] : 'action.hover' }}>
+        {line?.lineNumber}
+      </Box>
+      <Box sx={{ px: 1, whiteSpace: 'pre-wrap', wordBreak: 'break-all', bgcolor: line ? LINE_COLORS[line.type] : 'action.hover' }}>
+        {line?.segments.map((segment, index) => (
+          <Box component="span" key={index} sx={{ bgcolor: SEGMENT_COLORS[segment.type], borderRadius: 0.5 }}>
+            {segment.text}
+          </Box>
+        ))}
+      </Box>
+    </>
+  );
+}
+
+// 左右并排比较两段文本，按行对齐，修改的行内按字词标出差异
+export default function DiffViewer({ oldText, newText, oldLabel, newLabel, contextLines }: DiffViewerProps) {
+  const rows = useMemo(() => {
+    const diff = diffSideBySide(oldText, newText);
+    return contextLines === undefined ? diff : collapseUnchanged(diff, contextLines);
+  }, [oldText, newText, contextLines]);
+
+  if (oldText === newText) {
+    return <Typography color="text.secondary">两个版本的内容相同</Typography>;
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: 'auto minmax(0, 1fr) auto minmax(0, 1fr)',
+        border: '1px solid',
+        borderColor: 'divider',
+        fontSize: 14,
+        lineHeight: 1.8
+      }}
+    >
+      <Typography variant="subtitle2" sx={{ gridColumn: '1 / span 2', px: 1, py: 0.5, borderBottom: '1px solid', borderColor: 'divider' }}>
+        {oldLabel}
+      </Typography>
+      <Typography variant="subtitle2" sx={{ gridColumn: '3 / span 2', px: 1, py: 0.5, borderBottom: '1px solid', borderLeft: '1px solid', borderColor: 'divider' }}>
+        {newLabel}
+      </Typography>
+
+      {rows.map((row, index) => 'skipped' in row ? (
+        <Box key={index} sx={{ gridColumn: '1 / -1', px: 1, color: 'text.secondary', bgcolor: 'action.hover', textAlign: 'center' }}>
+          … {row.skipped} 行相同 …
+        </Box>
+      ) : (
+        <Box key={index} sx={{ display: 'contents' }}>
+          <DiffCell line={row.left} />
+          <DiffCell line={row.right} />
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  IconButton,
+  Menu,
+  MenuItem,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Tooltip
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  CreateNewFolder as CreateNewFolderIcon,
+  MoreVert as MoreVertIcon,
+  DragIndicator as DragIndicatorIcon
+} from '@mui/icons-material';
+import { useNovelStore, Novel, ChapterStatus } from '../../store/novelStore';
+import { CHAPTER_STATUS_LABELS, getChapters } from '../../services/novelStructure';
+
+// 正在拖动的卷或章节
+interface DragItem {
+  type: 'volume' | 'chapter';
+  id: string;
+}
+
+// 菜单针对的卷或章节
+interface MenuTarget extends DragItem {
+  anchorEl: HTMLElement;
+}
+
+// 重命名对话框
+interface RenameTarget extends DragItem {
+  title: string;
+}
+
+interface ChapterTreeProps {
+  novel: Novel;
+  currentChapterId?: string;
+  onSelectChapter: (chapterId: string) => void;
+}
+
+// 放在目标的上半部分时插入到目标之前，否则插入到目标之后
+const isAfterTarget = (event: React.DragEvent<HTMLElement>) => {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return event.clientY > rect.top + rect.height / 2;
+};
+
+export default function ChapterTree({ novel, currentChapterId, onSelectChapter }: ChapterTreeProps) {
+  const {
+    addVolume,
+    updateVolume,
+    deleteVolume,
+    addChapter,
+    updateChapter,
+    deleteChapter,
+    moveChapter,
+    moveVolume
+  } = useNovelStore();
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [menuTarget, setMenuTarget] = useState<MenuTarget | null>(null);
+  const [renameTarget, setRenameTarget] = useState<RenameTarget | null>(null);
+  const chapterCount = getChapters(novel).length;
+
+  const handleAddVolume = () => {
+    addVolume(novel.id, `第${novel.volumes.length + 1}卷`);
+  };
+
+  const handleAddChapter = (volumeId: string) => {
+    const chapter = addChapter(novel.id, volumeId, `第${chapterCount + 1}章`);
+    onSelectChapter(chapter.id);
+  };
+
+  const handleOpenMenu = (event: React.MouseEvent<HTMLElement>, type: DragItem['type'], id: string) => {
+    event.stopPropagation(); // 防止触发章节选择
+    setMenuTarget({ type, id, anchorEl: event.currentTarget });
+  };
+
+  const handleCloseMenu = () => {
+    setMenuTarget(null);
+  };
+
+  const handleStartRename = () => {
+    if (!menuTarget) return;
+
+    const title = menuTarget.type === 'volume'
+      ? novel.volumes.find(volume => volume.id === menuTarget.id)?.title
+      : getChapters(novel).find(chapter => chapter.id === menuTarget.id)?.title;
+    setRenameTarget({ type: menuTarget.type, id: menuTarget.id, title: title || '' });
+    handleCloseMenu();
+  };
+
+  const handleRename = () => {
+    if (!renameTarget || renameTarget.title.trim() === '') return;
+
+    if (renameTarget.type === 'volume') {
+      updateVolume(novel.id, renameTarget.id, { title: renameTarget.title.trim() });
+    } else {
+      updateChapter(novel.id, renameTarget.id, { title: renameTarget.title.trim() });
+    }
+    setRenameTarget(null);
+  };
+
+  const handleSetStatus = (status: ChapterStatus) => {
+    if (menuTarget?.type === 'chapter') {
+      updateChapter(novel.id, menuTarget.id, { status });
+    }
+    handleCloseMenu();
+  };
+
+  const handleDelete = () => {
+    if (!menuTarget) return;
+
+    const title = menuTarget.type === 'volume'
+      ? novel.volumes.find(volume => volume.id === menuTarget.id)?.title
+      : getChapters(novel).find(chapter => chapter.id === menuTarget.id)?.title;
+    const message = menuTarget.type === 'volume'
+      ? `确定要删除"${title}"及其中的所有章节吗？此操作不可撤销。`
+      : `确定要删除章节"${title}"吗？此操作不可撤销。`;
+
+    if (window.confirm(message)) {
+      if (menuTarget.type === 'volume') {
+        deleteVolume(novel.id, menuTarget.id);
+      } else {
+        deleteChapter(novel.id, menuTarget.id);
+      }
+    }
+    handleCloseMenu();
+  };
+
+  // 拖到章节上：章节移动到该章节前后
+  const handleDropOnChapter = (event: React.DragEvent<HTMLElement>, volumeId: string, chapterId: string) => {
+    if (dragItem?.type !== 'chapter' || dragItem.id === chapterId) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const chapters = novel.volumes.find(volume => volume.id === volumeId)!.chapters.filter(c => c.id !== dragItem.id);
+    const index = chapters.findIndex(chapter => chapter.id === chapterId);
+    moveChapter(novel.id, dragItem.id, volumeId, isAfterTarget(event) ? index + 1 : index);
+    setDragItem(null);
+  };
+
+  // 拖到卷标题上：章节移动到该卷末尾，卷移动到该卷前后
+  const handleDropOnVolume = (event: React.DragEvent<HTMLElement>, volumeId: string) => {
+    if (!dragItem || dragItem.id === volumeId) return;
+    event.preventDefault();
+
+    if (dragItem.type === 'chapter') {
+      const volume = novel.volumes.find(v => v.id === volumeId)!;
+      moveChapter(novel.id, dragItem.id, volumeId, volume.chapters.filter(c => c.id !== dragItem.id).length);
+    } else {
+      const index = novel.volumes.filter(v => v.id !== dragItem.id).findIndex(v => v.id === volumeId);
+      moveVolume(novel.id, dragItem.id, isAfterTarget(event) ? index + 1 : index);
+    }
+    setDragItem(null);
+  };
+
+  const allowDrop = (event: React.DragEvent<HTMLElement>, accepts: DragItem['type'][]) => {
+    if (dragItem && accepts.includes(dragItem.type)) {
+      event.preventDefault();
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ height: '100%', overflow: 'auto' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', px: 2, py: 1 }}>
+        <Typography variant="subtitle1" sx={{ flexGrow: 1, fontWeight: 'bold' }}>
+          目录
+        </Typography>
+        <Tooltip title="添加卷">
+          <IconButton size="small" onClick={handleAddVolume}>
+            <CreateNewFolderIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      <Divider />
+
+      <List dense disablePadding>
+        {novel.volumes.map(volume => (
+          <Box key={volume.id}>
+            {/* 卷标题，可以拖动调整卷的顺序，也可以接收拖来的章节 */}
+            <Box
+              draggable
+              onDragStart={() => setDragItem({ type: 'volume', id: volume.id })}
+              onDragEnd={() => setDragItem(null)}
+              onDragOver={(e) => allowDrop(e, ['volume', 'chapter'])}
+              onDrop={(e) => handleDropOnVolume(e, volume.id)}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                pl: 1,
+                pr: 0.5,
+                py: 0.5,
+                bgcolor: 'action.hover',
+                cursor: 'grab'
+              }}
+            >
+              <DragIndicatorIcon fontSize="small" sx={{ color: 'text.disabled', mr: 0.5 }} />
+              <Typography variant="body2" sx={{ flexGrow: 1, fontWeight: 'bold' }} noWrap>
+                {volume.title}
+              </Typography>
+              <Tooltip title="添加章节">
+                <IconButton size="small" onClick={() => handleAddChapter(volume.id)}>
+                  <AddIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <IconButton size="small" onClick={(e) => handleOpenMenu(e, 'volume', volume.id)}>
+                <MoreVertIcon fontSize="small" />
+              </IconButton>
+            </Box>
+
+            {volume.chapters.map(chapter => (
+              <ListItemButton
+                key={chapter.id}
+                selected={chapter.id === currentChapterId}
+                onClick={() => onSelectChapter(chapter.id)}
+                draggable
+                onDragStart={() => setDragItem({ type: 'chapter', id: chapter.id })}
+                onDragEnd={() => setDragItem(null)}
+                onDragOver={(e) => allowDrop(e, ['chapter'])}
+                onDrop={(e) => handleDropOnChapter(e, volume.id, chapter.id)}
+                sx={{ pl: 3, opacity: dragItem?.id === chapter.id ? 0.5 : 1 }}
+              >
+                <ListItemText
+                  primary={chapter.title}
+                  secondary={`${chapter.wordCount}字 · ${CHAPTER_STATUS_LABELS[chapter.status]}`}
+                  primaryTypographyProps={{ noWrap: true }}
+                />
+                <IconButton size="small" edge="end" onClick={(e) => handleOpenMenu(e, 'chapter', chapter.id)}>
+                  <MoreVertIcon fontSize="small" />
+                </IconButton>
+              </ListItemButton>
+            ))}
+
+            {volume.chapters.length === 0 && (
+              <Typography variant="body2" color="text.secondary" sx={{ pl: 3, py: 1 }}>
+                暂无章节
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </List>
+
+      {/* 卷和章节菜单 */}
+      <Menu
+        anchorEl={menuTarget?.anchorEl}
+        open={Boolean(menuTarget)}
+        onClose={handleCloseMenu}
+      >
+        <MenuItem onClick={handleStartRename}>重命名</MenuItem>
+        {menuTarget?.type === 'chapter' && [
+          <Divider key="divider" />,
+          ...(Object.keys(CHAPTER_STATUS_LABELS) as ChapterStatus[]).map(status => (
+            <MenuItem key={status} onClick={() => handleSetStatus(status)}>
+              标记为{CHAPTER_STATUS_LABELS[status]}
+            </MenuItem>
+          )),
+          <Divider key="divider-delete" />
+        ]}
+        <MenuItem
+          onClick={handleDelete}
+          disabled={menuTarget?.type === 'chapter' ? chapterCount <= 1 : novel.volumes.length <= 1}
+          sx={{ color: 'error.main' }}
+        >
+          删除
+        </MenuItem>
+      </Menu>
+
+      {/* 重命名对话框 */}
+      <Dialog open={Boolean(renameTarget)} onClose={() => setRenameTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{renameTarget?.type === 'volume' ? '重命名卷' : '重命名章节'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="标题"
+            type="text"
+            fullWidth
+            variant="outlined"
+            value={renameTarget?.title || ''}
+            onChange={(e) => setRenameTarget(prev => prev ? { ...prev, title: e.target.value } : prev)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenameTarget(null)}>取消</Button>
+          <Button onClick={handleRename} variant="contained">确定</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
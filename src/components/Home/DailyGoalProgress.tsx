@@ -0,0 +1,51 @@
+import { Box, CircularProgress, Tooltip, Typography } from '@mui/material';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useWritingStatsStore } from '../../store/writingStatsStore';
+import { dateKey, getDayWords } from '../../services/writingGoals';
+
+interface DailyGoalProgressProps {
+  novelId: string;
+}
+
+// 今日字数目标的进度环，小说设置了目标时显示本书的进度，否则显示所有小说合计的进度
+export default function DailyGoalProgress({ novelId }: DailyGoalProgressProps) {
+  const days = useWritingStatsStore(state => state.days);
+  const { appSettings, getNovelSettings } = useSettingsStore();
+
+  const today = dateKey(new Date());
+  const novelWords = getDayWords(days, today, novelId);
+  const totalWords = getDayWords(days, today);
+  const novelGoal = getNovelSettings(novelId).dailyGoal || 0;
+  const globalGoal = appSettings.dailyGoal || 0;
+
+  const [words, goal] = novelGoal > 0 ? [novelWords, novelGoal] : [totalWords, globalGoal];
+  const progress = goal > 0 ? Math.min(100, Math.round(words / goal * 100)) : 0;
+
+  const title = (
+    <>
+      <div>本书今日 {novelWords}{novelGoal > 0 ? ` / ${novelGoal}` : ''} 字</div>
+      <div>全部今日 {totalWords}{globalGoal > 0 ? ` / ${globalGoal}` : ''} 字</div>
+      {novelGoal === 0 && globalGoal === 0 && <div>可以在设置中设定每日目标</div>}
+    </>
+  );
+
+  return (
+    <Tooltip title={title}>
+      <Box sx={{ position: 'relative', display: 'inline-flex', mx: 1 }}>
+        <CircularProgress variant="determinate" value={100} size={36} sx={{ color: 'action.hover' }} />
+        <CircularProgress
+          variant="determinate"
+          value={progress}
+          size={36}
+          color={progress >= 100 ? 'success' : 'primary'}
+          sx={{ position: 'absolute', left: 0 }}
+        />
+        <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <Typography variant="caption" sx={{ fontSize: 10 }}>
+            {goal > 0 ? `${progress}%` : words}
+          </Typography>
+        </Box>
+      </Box>
+    </Tooltip>
+  );
+}
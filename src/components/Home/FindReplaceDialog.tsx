@@ -0,0 +1,301 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListSubheader,
+  Radio,
+  RadioGroup,
+  TextField,
+  ToggleButton,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Novel } from '../../store/novelStore';
+import { getChapters } from '../../services/novelStructure';
+import { SearchMatch, SearchOptions, findMatches } from '../../services/findReplace';
+
+export type SearchScope = 'selection' | 'novel' | 'all';
+
+// 一个章节中要替换的匹配，original 是查找时的章节内容，替换前用来确认内容没有变化
+export interface ReplaceChange {
+  novelId: string;
+  chapterId: string;
+  original: string;
+  matches: SearchMatch[];
+}
+
+interface ChapterResult extends ReplaceChange {
+  title: string;
+  editable: boolean;
+}
+
+interface FindReplaceDialogProps {
+  open: boolean;
+  novels: Novel[];
+  currentNovelId: string;
+  currentChapterId?: string;
+  currentContent: string; // 编辑器中的最新内容，章节记录可能还没有保存
+  selection: { start: number; end: number } | null;
+  canEditCurrent: boolean; // 当前章节只能在可以编辑时替换，替换会作为编辑操作同步给协作者
+  onClose: () => void;
+  onReplace: (changes: ReplaceChange[]) => Promise<void>;
+}
+
+const CONTEXT_LENGTH = 12; // 匹配前后显示的字数
+const MAX_LISTED = 500; // 预览中最多列出的匹配数
+
+const SCOPE_LABELS: Record<SearchScope, string> = {
+  selection: '选中的文字',
+  novel: '当前小说',
+  all: '所有小说'
+};
+
+const matchKey = (chapterId: string, match: SearchMatch) => `${chapterId}:${match.start}`;
+
+// 匹配所在位置的上下文，显示替换前后的文字
+function MatchPreview({ text, match }: { text: string; match: SearchMatch }) {
+  const lineStart = text.lastIndexOf('\n', match.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', match.end);
+  const end = lineEnd < 0 ? text.length : lineEnd;
+  const from = Math.max(lineStart, match.start - CONTEXT_LENGTH);
+  const to = Math.min(end, match.end + CONTEXT_LENGTH);
+
+  return (
+    <Typography variant="body2" component="span" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+      {from > lineStart && '…'}
+      {text.slice(from, match.start)}
+      <Box component="span" sx={{ bgcolor: 'error.light', color: 'error.contrastText', textDecoration: 'line-through' }}>
+        {match.text}
+      </Box>
+      {match.replacement && (
+        <Box component="span" sx={{ bgcolor: 'success.light', color: 'success.contrastText' }}>
+          {match.replacement}
+        </Box>
+      )}
+      {text.slice(match.end, to)}
+      {to < end && '…'}
+    </Typography>
+  );
+}
+
+// 查找和替换面板，替换前预览所有匹配，可以取消勾选不想替换的地方
+export default function FindReplaceDialog({
+  open,
+  novels,
+  currentNovelId,
+  currentChapterId,
+  currentContent,
+  selection,
+  canEditCurrent,
+  onClose,
+  onReplace
+}: FindReplaceDialogProps) {
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '',
+    replacement: '',
+    matchCase: false,
+    wholeWord: false,
+    useRegex: false
+  });
+  const [scope, setScope] = useState<SearchScope>('novel');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [replacing, setReplacing] = useState(false);
+
+  const hasSelection = !!selection && selection.start !== selection.end;
+
+  // 打开时有选中的文字就只在选中范围内查找
+  useEffect(() => {
+    if (open) setScope(hasSelection ? 'selection' : 'novel');
+  }, [open, hasSelection]);
+
+  const { results, error } = useMemo<{ results: ChapterResult[]; error: string | null }>(() => {
+    if (!open || !options.query) return { results: [], error: null };
+
+    const searchNovels = scope === 'all' ? novels : novels.filter(novel => novel.id === currentNovelId);
+    try {
+      const found = searchNovels.flatMap(novel => getChapters(novel).map((chapter): ChapterResult => {
+        const isCurrent = novel.id === currentNovelId && chapter.id === currentChapterId;
+        const original = isCurrent ? currentContent : chapter.content;
+        let matches: SearchMatch[] = [];
+        if (scope !== 'selection') {
+          matches = findMatches(original, options);
+        } else if (isCurrent && selection) {
+          matches = findMatches(original, options, Math.min(selection.start, selection.end), Math.max(selection.start, selection.end));
+        }
+        return {
+          novelId: novel.id,
+          chapterId: chapter.id,
+          title: scope === 'all' ? `《${novel.title}》${chapter.title}` : chapter.title,
+          original,
+          matches,
+          editable: !isCurrent || canEditCurrent
+        };
+      }));
+      return { results: found.filter(result => result.matches.length > 0), error: null };
+    } catch (e) {
+      return { results: [], error: (e as Error).message };
+    }
+  }, [open, options, scope, novels, currentNovelId, currentChapterId, currentContent, selection, canEditCurrent]);
+
+  // 查找条件变化后重新全部勾选
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [options, scope]);
+
+  const totalMatches = results.reduce((total, result) => total + result.matches.length, 0);
+  const changes = results
+    .filter(result => result.editable)
+    .map(result => ({ ...result, matches: result.matches.filter(match => !excluded.has(matchKey(result.chapterId, match))) }))
+    .filter(result => result.matches.length > 0);
+  const selectedCount = changes.reduce((total, change) => total + change.matches.length, 0);
+
+  const toggleMatches = (keys: string[], include: boolean) => {
+    setExcluded(previous => {
+      const next = new Set(previous);
+      keys.forEach(key => include ? next.delete(key) : next.add(key));
+      return next;
+    });
+  };
+
+  const handleReplace = async () => {
+    setReplacing(true);
+    try {
+      await onReplace(changes.map(({ novelId, chapterId, original, matches }) => ({ novelId, chapterId, original, matches })));
+    } finally {
+      setReplacing(false);
+    }
+  };
+
+  const updateOption = <K extends keyof SearchOptions>(key: K, value: SearchOptions[K]) => {
+    setOptions(previous => ({ ...previous, [key]: value }));
+  };
+
+  let listed = 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>查找和替换</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            label="查找"
+            value={options.query}
+            onChange={(e) => updateOption('query', e.target.value)}
+          />
+          <Tooltip title="区分大小写">
+            <ToggleButton size="small" value="matchCase" selected={options.matchCase} onChange={() => updateOption('matchCase', !options.matchCase)}>
+              Aa
+            </ToggleButton>
+          </Tooltip>
+          <Tooltip title="全词匹配（英文单词）">
+            <ToggleButton size="small" value="wholeWord" selected={options.wholeWord} onChange={() => updateOption('wholeWord', !options.wholeWord)}>
+              ab
+            </ToggleButton>
+          </Tooltip>
+          <Tooltip title="正则表达式，替换文本中可以使用 $1、$<name> 引用分组">
+            <ToggleButton size="small" value="useRegex" selected={options.useRegex} onChange={() => updateOption('useRegex', !options.useRegex)}>
+              .*
+            </ToggleButton>
+          </Tooltip>
+        </Box>
+        <TextField
+          fullWidth
+          size="small"
+          label="替换为"
+          value={options.replacement}
+          onChange={(e) => updateOption('replacement', e.target.value)}
+          sx={{ mb: 1 }}
+        />
+
+        <RadioGroup row value={scope} onChange={(e) => setScope(e.target.value as SearchScope)} sx={{ mb: 1 }}>
+          {(Object.keys(SCOPE_LABELS) as SearchScope[]).map(value => (
+            <FormControlLabel
+              key={value}
+              value={value}
+              control={<Radio size="small" />}
+              label={SCOPE_LABELS[value]}
+              disabled={value === 'selection' && !hasSelection}
+            />
+          ))}
+        </RadioGroup>
+
+        {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+
+        {options.query && !error && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {totalMatches > 0 ? `共找到 ${totalMatches} 处，分布在 ${results.length} 个章节` : '没有找到匹配的内容'}
+          </Typography>
+        )}
+
+        <List dense disablePadding sx={{ maxHeight: '45vh', overflowY: 'auto' }}>
+          {results.map(result => {
+            if (listed >= MAX_LISTED) return null;
+            const keys = result.matches.map(match => matchKey(result.chapterId, match));
+            const checkedCount = keys.filter(key => !excluded.has(key)).length;
+            const shown = result.matches.slice(0, MAX_LISTED - listed);
+            listed += shown.length;
+
+            return (
+              <li key={result.chapterId}>
+                <ul style={{ padding: 0 }}>
+                  <ListSubheader sx={{ display: 'flex', alignItems: 'center', lineHeight: '32px', px: 0 }}>
+                    <Checkbox
+                      size="small"
+                      checked={result.editable && checkedCount === keys.length}
+                      indeterminate={result.editable && checkedCount > 0 && checkedCount < keys.length}
+                      disabled={!result.editable}
+                      onChange={(e) => toggleMatches(keys, e.target.checked)}
+                    />
+                    {result.title}（{result.matches.length}）
+                    {!result.editable && (
+                      <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                        当前章节不能编辑，不会替换
+                      </Typography>
+                    )}
+                  </ListSubheader>
+                  {shown.map(match => {
+                    const key = matchKey(result.chapterId, match);
+                    return (
+                      <ListItem key={key} disablePadding sx={{ pl: 2 }}>
+                        <Checkbox
+                          size="small"
+                          checked={result.editable && !excluded.has(key)}
+                          disabled={!result.editable}
+                          onChange={(e) => toggleMatches([key], e.target.checked)}
+                        />
+                        <MatchPreview text={result.original} match={match} />
+                      </ListItem>
+                    );
+                  })}
+                </ul>
+              </li>
+            );
+          })}
+        </List>
+        {totalMatches > MAX_LISTED && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            只列出了前 {MAX_LISTED} 处，替换时包括所有勾选的章节中的全部匹配
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+        <Button variant="contained" onClick={handleReplace} disabled={replacing || selectedCount === 0}>
+          替换 {selectedCount} 处
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
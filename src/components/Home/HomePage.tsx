@@ -2,6 +2,7 @@ import { Box, Grid } from '@mui/material';
 import { useEffect, useState } from 'react';
 import NovelList from './NovelList';
 import NovelEditor from './NovelEditor';
+import WritingActivity from './WritingActivity';
 import { useNovelStore } from '../../store/novelStore';
 
 interface HomePageProps {
@@ -65,6 +66,7 @@ export default function HomePage({ isLargeScreen }: HomePageProps) {
       <Grid container spacing={3}>
         {(!currentNovel || showSidebar) && (
           <Grid item xs={12} md={currentNovel ? 4 : 12}>
+            <WritingActivity />
             <NovelList />
           </Grid>
         )}
@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { Box } from '@mui/material';
+import { InlineRun, MarkdownBlock, parseMarkdown } from '../../services/markdownParser';
+
+interface MarkdownPreviewProps {
+  content: string;
+  fontFamily: string;
+  scrollRef?: React.Ref<HTMLDivElement>;
+  onScroll?: () => void;
+}
+
+function renderRun(run: InlineRun, key: number) {
+  let node: React.ReactNode = run.ruby
+    ? <ruby>{run.text}<rp>（</rp><rt>{run.ruby}</rt><rp>）</rp></ruby>
+    : run.text;
+  if (run.strike) node = <del>{node}</del>;
+  if (run.italic) node = <em>{node}</em>;
+  if (run.bold) node = <strong>{node}</strong>;
+  return <span key={key}>{node}</span>;
+}
+
+function renderBlock(block: MarkdownBlock, key: number) {
+  switch (block.type) {
+    case 'heading': {
+      // 正文中的 # 排在章标题之下，从h3开始
+      const Heading = `h${Math.min(block.level + 2, 6)}` as 'h3';
+      return <Heading key={key}>{block.runs.map(renderRun)}</Heading>;
+    }
+    case 'quote':
+      return <blockquote key={key}>{block.runs.map(renderRun)}</blockquote>;
+    case 'sceneBreak':
+      return <p key={key} className="scene-break">＊　＊　＊</p>;
+    default:
+      return <p key={key}>{block.runs.map(renderRun)}</p>;
+  }
+}
+
+// 按小说排版渲染Markdown正文：段首缩进两字，场景分隔居中，注音显示在文字上方
+export default function MarkdownPreview({ content, fontFamily, scrollRef, onScroll }: MarkdownPreviewProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <Box
+      ref={scrollRef}
+      onScroll={onScroll}
+      sx={{
+        height: '100%',
+        overflowY: 'auto',
+        lineHeight: 1.8,
+        fontSize: '1.1rem',
+        fontFamily: `${fontFamily}, sans-serif`,
+        textAlign: 'justify',
+        '& p': { m: 0, textIndent: '2em' },
+        '& h3, & h4, & h5, & h6': { textAlign: 'center', my: 2 },
+        '& blockquote': {
+          m: 0,
+          py: 0.5,
+          px: 2,
+          borderLeft: '4px solid',
+          borderColor: 'divider',
+          color: 'text.secondary'
+        },
+        '& blockquote + blockquote': { pt: 0 },
+        '& .scene-break': { textAlign: 'center', textIndent: 0, my: 2, color: 'text.secondary' },
+        '& rt': { fontSize: '0.5em' }
+      }}
+    >
+      {blocks.length > 0 ? blocks.map(renderBlock) : (
+        <Box sx={{ color: 'text.disabled' }}>暂无内容</Box>
+      )}
+    </Box>
+  );
+}
@@ -1,49 +1,31 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { Box, Paper, Typography, TextField, Button, Snackbar, Alert, IconButton, Tooltip, Avatar, Chip, Stack, Menu, MenuItem, ListSubheader, Divider } from '@mui/material';
-import { Save as SaveIcon, People as PeopleIcon, Link as LinkIcon, ContentCopy, Menu as MenuIcon, ExitToApp as ExitToAppIcon, Group as GroupIcon, Share as ShareIcon, ChevronLeft, ChevronRight, Groups as GroupsIcon } from '@mui/icons-material';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Box, Paper, Typography, TextField, Button, Snackbar, Alert, IconButton, Tooltip, Avatar, Chip, Stack, Menu, MenuItem, ListSubheader, Divider, Dialog, DialogTitle, DialogContent, DialogActions, ToggleButtonGroup, ToggleButton, Badge, ListItemText } from '@mui/material';
+import { Save as SaveIcon, People as PeopleIcon, Link as LinkIcon, ContentCopy, Menu as MenuIcon, ExitToApp as ExitToAppIcon, Group as GroupIcon, Share as ShareIcon, ChevronLeft, ChevronRight, Groups as GroupsIcon, History as HistoryIcon, BookmarkAdd as BookmarkAddIcon, EditNote as EditNoteIcon, VerticalSplit as VerticalSplitIcon, Visibility as VisibilityIcon, Spellcheck as SpellcheckIcon, FindReplace as FindReplaceIcon } from '@mui/icons-material';
 import { useNovelStore } from '../../store/novelStore';
 import { v4 as uuidv4 } from 'uuid';
 import { websocketService, UserStatus } from '../../services/websocketService';
-import { CollaborationUser } from '../../services/collaborationService';
+import { SessionRole, canEdit } from '../../types/Collaboration';
+import { CollaborationUser, OperationClient, TextOperation, applyOperations, diffToOperations, editsToOperations, transformPosition } from '../../services/collaborationService';
+import { CrdtDocument, CrdtOperation } from '../../shared/crdtDocument';
 import { useSettingsStore } from '../../store/settingsStore';
-
-// 引入自定义样式组件用于光标显示
-import styled from '@emotion/styled';
-
-// 用户光标组件
-const UserCursor = styled.div<{ color: string, top: number, left: number }>`
-  position: absolute;
-  width: 2px;
-  height: 20px;
-  background-color: ${props => props.color};
-  top: ${props => props.top}px;
-  left: ${props => props.left}px;
-  z-index: 10;
-  &::after {
-    content: attr(data-name);
-    position: absolute;
-    top: -18px;
-    left: 0;
-    background-color: ${props => props.color};
-    color: white;
-    padding: 2px 4px;
-    border-radius: 4px;
-    font-size: 12px;
-    white-space: nowrap;
-  }
-`;
-
-// 用户选择区域组件
-const UserSelection = styled.div<{ color: string, top: number, left: number, width: number, height: number }>`
-  position: absolute;
-  background-color: ${props => `${props.color}33`}; /* 添加透明度 */
-  top: ${props => props.top}px;
-  left: ${props => props.left}px;
-  width: ${props => props.width}px;
-  height: ${props => props.height}px;
-  z-index: 5;
-  pointer-events: none;
-`;
+import { useWritingStatsStore } from '../../store/writingStatsStore';
+import { countWords, findChapter, getChapters, getCurrentChapter } from '../../services/novelStructure';
+import { matchesToEdits, replaceMatches } from '../../services/findReplace';
+import { DEFAULT_PUNCTUATION_SETTINGS, TextEdit, TextRange, convertPunctuation, mapPosition, trackTypedRange } from '../../services/punctuation';
+import { lintFixEdits, lintText } from '../../services/typesetLint';
+import { NovelSnapshot, SNAPSHOT_INTERVAL, SnapshotReason, createSnapshot } from '../../services/versionHistory';
+import ChapterTree from './ChapterTree';
+import VersionHistoryDialog from './VersionHistoryDialog';
+import TypesetLintDialog from './TypesetLintDialog';
+import WritingStatistics from './WritingStatistics';
+import FindReplaceDialog, { ReplaceChange } from './FindReplaceDialog';
+import DailyGoalProgress from './DailyGoalProgress';
+import DiffViewer from '../DiffViewer';
+import MarkdownPreview from './MarkdownPreview';
+import RichTextEditor, { EditorChangeSource, EditorDecoration, RichTextEditorHandle } from './RichTextEditor';
+
+// Markdown预览的显示方式：只显示编辑器、左右分栏、只显示预览
+type PreviewMode = 'edit' | 'split' | 'preview';
 
 // 定义光标和选择区域接口
 interface UserCursorInfo {
@@ -65,6 +47,20 @@ interface UserSelectionInfo {
   timestamp: number;
 }
 
+// 协作角色的显示名称
+const ROLE_LABELS: Record<SessionRole, string> = {
+  owner: '所有者',
+  editor: '编辑者',
+  commenter: '评论者',
+  viewer: '只读'
+};
+
+// 所有者可以分配给其他成员的角色
+const ASSIGNABLE_ROLES: SessionRole[] = ['editor', 'commenter', 'viewer'];
+
+// 用户标签上显示的角色
+const roleLabel = (user: CollaborationUser) => user.role ? ` · ${ROLE_LABELS[user.role]}` : '';
+
 interface NovelEditorProps {
   toggleSidebar?: () => void;
   sidebarVisible?: boolean;
@@ -72,7 +68,9 @@ interface NovelEditorProps {
 }
 
 export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollaboration = false }: NovelEditorProps) {
-  const { currentNovel, updateNovel, setCollaborationActive, deselectNovel } = useNovelStore();
+  const { novels, currentNovel, updateNovel, updateChapter, selectChapter, setCollaborationActive, deselectNovel } = useNovelStore();
+  // 正在编辑的章节，编辑器的内容和协作会话都属于该章节
+  const currentChapter = currentNovel ? getCurrentChapter(currentNovel) : undefined;
   const [content, setContent] = useState('');
   const [title, setTitle] = useState('');
   const [saveMessage, setSaveMessage] = useState({ open: false, type: 'success', message: '' });
@@ -81,24 +79,56 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
   const [copySuccess, setCopySuccess] = useState(false);
   const [activeUsers, setActiveUsers] = useState<CollaborationUser[]>([]);
   const [userId, setUserId] = useState('');
-  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const userIdRef = useRef('');
+  // 自己在协作会话中的角色，评论者和只读成员不能编辑
+  const [myRole, setMyRole] = useState<SessionRole | null>(null);
+  const editorRef = useRef<RichTextEditorHandle | null>(null);
   const [cursorColors, setCursorColors] = useState<Record<string, string>>({});
   const hasInitializedCollaboration = useRef(false);
   const contentChangedRef = useRef(false);
   const autoSaveTimerRef = useRef<number | null>(null);
   const [isComposing, setIsComposing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [previewMode, setPreviewMode] = useState<PreviewMode>('split');
+  // 排版检查：开启后在编辑器边栏标出问题
+  const [showLint, setShowLint] = useState(false);
+  const [showLintDialog, setShowLintDialog] = useState(false);
+  const [lintMenu, setLintMenu] = useState<{ ids: string[]; anchor: HTMLElement } | null>(null);
+  // 查找和替换，打开时记下编辑器中选中的范围
+  const [findSelection, setFindSelection] = useState<{ start: number; end: number } | null>(null);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const lastSelectionRef = useRef<{ start: number; end: number } | null>(null);
+  const editorPaneRef = useRef<HTMLDivElement>(null);
+  const previewPaneRef = useRef<HTMLDivElement>(null);
+  // 同步滚动时被动滚动的一侧会触发滚动事件，短时间内忽略它，避免两边来回同步
+  const ignoreScrollRef = useRef<{ pane: 'editor' | 'preview'; until: number } | null>(null);
+  // 加入会话时会话内容与本地章节不同，由用户决定保留哪一份
+  const [syncReview, setSyncReview] = useState<{ local: string; remote: string } | null>(null);
+  const isComposingRef = useRef(false);
+  // 最近一次已同步的文本（不含输入法组合中的内容），作为计算操作差异的基准
   const lastInputValueRef = useRef('');
+  const editingChapterIdRef = useRef<string | null>(null); // 编辑器中显示的章节
+  // 本地操作与服务端版本的同步状态，连接成功后创建
+  const operationClientRef = useRef<OperationClient | null>(null);
+  // CRDT模式下的本地文档副本，断线重连时保留，离线期间的编辑在重连后合并
+  const crdtDocumentRef = useRef<CrdtDocument | null>(null);
+  // 当前加入的协作会话，断线重连到同一会话时沿用用户ID和本地同步状态
+  const sessionIdRef = useRef<string | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [queuedOperationCount, setQueuedOperationCount] = useState(0);
+  const messageHandlerRef = useRef<(message: any) => void>(() => {});
   const compositionEndTimeoutRef = useRef<number | null>(null);
   const collaborationInitializedRef = useRef(false);
   const symbolConversionTimeoutRef = useRef<number | null>(null);
-  const { getNovelSettings } = useSettingsStore();
+  // 上次转换标点之后输入的文字范围
+  const typedRangeRef = useRef<TextRange | null>(null);
+  const { getNovelSettings, appSettings } = useSettingsStore();
+  const addWords = useWritingStatsStore(state => state.addWords);
 
   // 添加光标和选择区域状态
   const [userCursors, setUserCursors] = useState<UserCursorInfo[]>([]);
   const [userSelections, setUserSelections] = useState<UserSelectionInfo[]>([]);
   const [cursorVisibility, setCursorVisibility] = useState<boolean>(true);
-  const editorMeasureRef = useRef<DOMRect | null>(null);
-  const textMetricsRef = useRef<{ lineHeight: number, charWidth: number }>({ lineHeight: 20, charWidth: 8 });
 
   const [userListAnchorEl, setUserListAnchorEl] = useState<null | HTMLElement>(null);
   const showUserList = Boolean(userListAnchorEl);
@@ -112,6 +142,11 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     setUserListAnchorEl(null);
   };
 
+  // 所有者调整其他成员的角色，结果由会话广播
+  const handleRoleChange = (targetUserId: string, role: SessionRole) => {
+    websocketService.setUserRole(targetUserId, role);
+  };
+
   // 用户列表分组和排序
   const getUserGroups = () => {
     const onlineUsers = activeUsers.filter(user => user.status === UserStatus.ONLINE && user.id !== userId);
@@ -132,74 +167,51 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     };
   };
 
-  // 符号映射表
-  const symbolMap: Record<string, string> = {
-    '"': '"', // 左双引号
-    '\'': '"', // 右双引号，使用单引号作为键
-    '(': '（',
-    ')': '）',
-    '<': '《',
-    '>': '》',
-    '[': '【',
-    ']': '】',
-    ',': '，',
-    '.': '。',
-    ':': '：',
-    ';': '；',
-    '?': '？',
-    '!': '！',
-    '`': '·',
-    '~': '～',
-    '@': '＠',
-    '#': '＃',
-    '$': '￥',
-    '%': '％',
-    '^': '……',
-    '&': '＆',
-    '*': '＊',
-    '_': '——',
-    '+': '＋',
-    '=': '＝',
-    '{': '｛',
-    '}': '｝',
-    '|': '｜',
-    '\\': '、',
-    '/': '／'
-  };
+  // 协作者的光标和选区跟着文字移动，直到收到他们新的位置
+  const shiftRemoteCursors = useCallback((operations: TextOperation[]) => {
+    if (operations.length === 0) return;
+
+    const shift = (position: number) => operations.reduce((pos, op) => transformPosition(pos, op), position);
+    setUserCursors(prev => prev.map(cursor => ({ ...cursor, position: shift(cursor.position) })));
+    setUserSelections(prev => prev.map(selection => ({
+      ...selection,
+      start: { ...selection.start, position: shift(selection.start.position) },
+      end: { ...selection.end, position: shift(selection.end.position) }
+    })));
+  }, []);
 
-  // 检查并转换符号的函数
-  const convertSymbols = useCallback((text: string, cursorPosition: number): { text: string, newPosition: number } => {
-    let newText = text;
-    let newPosition = cursorPosition;
-    let offset = 0;
+  // 将本地的插入/删除操作发送给协作者
+  const sendLocalOperations = useCallback((operations: TextOperation[]) => {
+    if (!collaborationMode || !userIdRef.current) return;
 
-    // 遍历文本中的每个字符
-    for (let i = 0; i < text.length; i++) {
-      const char = text[i];
-      const replacement = symbolMap[char];
-      
-      // 如果找到匹配的符号并且不在中文输入过程中
-      if (replacement && !isComposing) {
-        // 替换字符
-        newText = newText.substring(0, i + offset) + replacement + newText.substring(i + offset + 1);
-        
-        // 如果替换发生在光标位置之前，需要调整光标位置
-        if (i < cursorPosition) {
-          // 由于中文符号通常是全角的，可能需要调整光标位置
-          newPosition += (replacement.length - 1);
-        }
-        offset += (replacement.length - 1);
+    try {
+      shiftRemoteCursors(operations);
+
+      // CRDT模式下先更新本地副本，断线时服务会把操作放入待发送队列
+      if (crdtDocumentRef.current) {
+        websocketService.sendCrdtOperations(crdtDocumentRef.current.applyLocal(operations));
+        return;
       }
+
+      operationClientRef.current?.applyLocal(operations);
+    } catch (error) {
+      console.error("发送操作错误:", error);
     }
+  }, [collaborationMode, shiftRemoteCursors]);
 
-    return { text: newText, newPosition };
-  }, [isComposing]);
+  // 将本地文本变化转换为插入/删除操作发送给协作者
+  const sendLocalChanges = useCallback((oldText: string, newText: string) => {
+    if (!collaborationMode || !userIdRef.current) return;
+    sendLocalOperations(diffToOperations(oldText, newText, userIdRef.current));
+  }, [collaborationMode, sendLocalOperations]);
 
   // 修改handleContentChange函数
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newContent = e.target.value;
-    const cursorPosition = e.target.selectionStart;
-    
+  // 记录本人输入的字数变化，粘贴和协作者的修改不计入每日目标
+  const recordTypedWords = (previousContent: string, newContent: string) => {
+    if (currentNovel) addWords(currentNovel.id, countWords(newContent) - countWords(previousContent));
+  };
+
+  const handleContentChange = (newContent: string, source: EditorChangeSource) => {
     // 发送用户活动状态
     if (collaborationMode && userId) {
       websocketService.sendUserActivity(userId, 'typing');
@@ -216,17 +228,32 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
       window.clearTimeout(symbolConversionTimeoutRef.current);
     }
     
-    // 设置新的定时器来延迟转换符号
+    // 设置新的定时器来延迟转换符号，只转换停顿前输入的文字
     symbolConversionTimeoutRef.current = window.setTimeout(() => {
-      const { text: convertedContent, newPosition } = convertSymbols(newContent, cursorPosition);
+      const range = typedRangeRef.current;
+      if (!range || !currentNovel || isComposingRef.current) return;
+      typedRangeRef.current = null;
+
+      // 以定时器触发时的最新文本为准，期间可能已经应用了协作者的操作
+      const baseContent = lastInputValueRef.current;
+      const settings = getNovelSettings(currentNovel.id);
+      const { text: convertedContent, edits } = convertPunctuation(
+        baseContent,
+        range,
+        settings.punctuation || DEFAULT_PUNCTUATION_SETTINGS,
+        settings.useMarkdown
+      );
       
-      if (convertedContent !== newContent) {
+      if (convertedContent !== baseContent) {
+        const selection = editorRef.current?.getSelection();
         setContent(convertedContent);
         
-        // 恢复光标位置
-        if (editorRef.current) {
-          editorRef.current.selectionStart = newPosition;
-          editorRef.current.selectionEnd = newPosition;
+        // 新内容渲染后恢复光标位置
+        if (selection) {
+          window.requestAnimationFrame(() => editorRef.current?.setSelection(
+            mapPosition(edits, selection.start),
+            mapPosition(edits, selection.end)
+          ));
         }
         
         // 更新最后的输入值
@@ -235,23 +262,17 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
         // 标记内容已改变，用于自动保存
         contentChangedRef.current = true;
         
-        // 如果在协作模式下，发送更新
-        if (collaborationMode && currentNovel) {
-          try {
-            websocketService.sendOperation({
-              type: 'sync',
-              userId,
-              content: convertedContent
-            });
-            console.log("已同步转换后的内容");
-          } catch (error) {
-            console.error("同步转换后的内容错误:", error);
-          }
+        // 如果在协作模式下，发送转换产生的操作
+        if (currentNovel) {
+          sendLocalChanges(baseContent, convertedContent);
         }
       }
     }, 1000);
     
     // 立即更新内容，不等待符号转换
+    const previousContent = lastInputValueRef.current;
+    if (source !== 'paste') recordTypedWords(previousContent, newContent);
+    typedRangeRef.current = trackTypedRange(typedRangeRef.current, diffToOperations(previousContent, newContent, userIdRef.current), true);
     setContent(newContent);
     lastInputValueRef.current = newContent;
     contentChangedRef.current = true;
@@ -259,17 +280,8 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     // 如果不是协作模式或没有选择小说，只更新本地状态
     if (!collaborationMode || !currentNovel) return;
     
-    // 发送当前内容
-    try {
-      websocketService.sendOperation({
-        type: 'sync',
-        userId,
-        content: newContent
-      });
-      console.log("已同步完整内容");
-    } catch (error) {
-      console.error("同步内容错误:", error);
-    }
+    // 发送本次输入产生的操作
+    sendLocalChanges(previousContent, newContent);
   };
 
   // 清理符号转换定时器
@@ -281,39 +293,33 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     };
   }, []);
 
-  // 处理插入操作
-  const handleInsertOperation = useCallback((position: number, text: string) => {
-    setContent(prevContent => {
-      return prevContent.substring(0, position) + text + prevContent.substring(position);
-    });
-  }, []);
+  // 应用协作者的操作，传入的操作已经与本地未确认的操作转换过
+  const applyRemoteOperations = useCallback((remoteOps: TextOperation[]) => {
+    if (remoteOps.length === 0) return;
 
-  // 处理删除操作
-  const handleDeleteOperation = useCallback((position: number, length: number) => {
-    setContent(prevContent => {
-      return prevContent.substring(0, position) + prevContent.substring(position + length);
-    });
-  }, []);
+    const selection = editorRef.current?.getSelection() ?? null;
 
-  // 计算光标位置函数
-  const calculateCursorPosition = useCallback((position: number): { line: number, column: number, top: number, left: number } => {
-    if (!editorRef.current || !content) return { line: 0, column: 0, top: 0, left: 0 };
-    
-    // 获取编辑器元素的测量数据
-    if (!editorMeasureRef.current && editorRef.current) {
-      editorMeasureRef.current = editorRef.current.getBoundingClientRect();
+    const nextContent = applyOperations(lastInputValueRef.current, remoteOps);
+    lastInputValueRef.current = nextContent;
+    typedRangeRef.current = trackTypedRange(typedRangeRef.current, remoteOps, false);
+    setContent(prev => isComposingRef.current ? applyOperations(prev, remoteOps) : nextContent);
+    contentChangedRef.current = true;
+    shiftRemoteCursors(remoteOps);
+    editorRef.current?.transformHistory(remoteOps);
+
+    // 保持本地光标在原来的文字旁边
+    if (selection && !isComposingRef.current) {
+      const start = remoteOps.reduce((pos, op) => transformPosition(pos, op), selection.start);
+      const end = remoteOps.reduce((pos, op) => transformPosition(pos, op), selection.end);
+      window.requestAnimationFrame(() => editorRef.current?.setSelection(start, end));
     }
-    
-    // 分割内容为行
+  }, [shiftRemoteCursors]);
+
+  // 计算光标所在的行和列，和光标位置一起发送给协作者
+  const calculateCursorPosition = useCallback((position: number): { line: number, column: number } => {
     const lines = content.slice(0, position).split('\n');
     const line = lines.length - 1;
-    const column = lines[line].length;
-    
-    // 计算顶部和左侧位置
-    const top = line * textMetricsRef.current.lineHeight;
-    const left = column * textMetricsRef.current.charWidth;
-    
-    return { line, column, top, left };
+    return { line, column: lines[line].length };
   }, [content]);
 
   // 发送光标位置更新
@@ -330,17 +336,15 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
   }, [collaborationMode, userId, calculateCursorPosition]);
 
   // 处理编辑器光标位置变化
-  const handleCursorPositionChange = useCallback(() => {
-    if (!editorRef.current || !collaborationMode) return;
+  const handleCursorPositionChange = useCallback((startPos: number, endPos: number) => {
+    lastSelectionRef.current = { start: startPos, end: endPos };
+    if (!collaborationMode) return;
     
-    const position = editorRef.current.selectionStart;
-    sendCursorPosition(position);
+    sendCursorPosition(startPos);
     
     // 如果有选择区域，也发送选择区域信息
-    if (editorRef.current.selectionStart !== editorRef.current.selectionEnd) {
+    if (startPos !== endPos) {
       try {
-        const startPos = editorRef.current.selectionStart;
-        const endPos = editorRef.current.selectionEnd;
         const startInfo = calculateCursorPosition(startPos);
         const endInfo = calculateCursorPosition(endPos);
         
@@ -379,17 +383,6 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
             [message.payload.user.id]: message.payload.user.color
           }));
           
-          // 当有新用户加入时，主动发送当前内容
-          if (collaborationMode && currentNovel && content) {
-            console.log("新用户加入，发送当前内容");
-            setTimeout(() => {
-              websocketService.sendOperation({
-                type: 'sync',
-                userId,
-                content
-              });
-            }, 500); // 短暂延迟确保新用户已准备好接收
-          }
         }
         break;
         
@@ -400,28 +393,63 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
         }
         break;
         
+      case 'role':
+        if (message.payload.userId && message.payload.role) {
+          const { userId: roleUserId, role } = message.payload;
+          setActiveUsers(prev => prev.map(user => user.id === roleUserId ? { ...user, role } : user));
+          
+          if (roleUserId === userIdRef.current) {
+            setMyRole(role);
+            setSaveMessage({
+              open: true,
+              type: 'success',
+              message: `你的角色已调整为${ROLE_LABELS[role as SessionRole]}`
+            });
+          }
+        }
+        break;
+        
+      case 'error':
+        // 会话拒绝了自己的请求
+        console.warn("协作请求被拒绝:", message.payload.code, message.payload.error);
+        setSaveMessage({
+          open: true,
+          type: 'error',
+          message: message.payload.error || '协作请求被拒绝'
+        });
+        break;
+        
       case 'operation':
-        if (message.payload.operation) {
-          const op = message.payload.operation;
-          // 不处理自己发出的操作
-          if (op.userId === userId) return;
+        if (message.payload.operations && typeof message.payload.revision === 'number') {
+          const client = operationClientRef.current;
+          const { revision, operations } = message.payload;
           
-          console.log(`收到用户 ${op.userId} 的操作:`, op.type);
+          // 重复收到的旧版本直接忽略
+          if (!client || revision <= client.getRevision()) return;
           
-          if (op.type === 'insert' && op.text && op.position !== undefined) {
-            // 简单处理插入操作，实际应用中需要更复杂的OT算法
-            handleInsertOperation(op.position, op.text);
-            contentChangedRef.current = true;
-          } else if (op.type === 'delete' && op.length && op.position !== undefined) {
-            // 简单处理删除操作
-            handleDeleteOperation(op.position, op.length);
-            contentChangedRef.current = true;
-          } else if (op.type === 'sync' && op.content) {
-            // 处理整个内容同步
-            console.log("收到完整内容同步");
-            setContent(op.content);
-            contentChangedRef.current = true;
+          // 中间漏掉了版本，请求补发，补发结果里会包含当前这条
+          if (revision > client.getRevision() + 1) {
+            console.log(`检测到版本缺口 ${client.getRevision()} -> ${revision}，请求补发`);
+            websocketService.requestSync(client.getRevision());
+            return;
           }
+          
+          // 自己发出的操作被服务端确认；重放的是刷新前留下的编辑，当作别人的修改
+          if (message.payload.userId === userIdRef.current && !message.payload.replayed) {
+            client.serverAck(revision);
+            return;
+          }
+          
+          console.log(`收到用户 ${message.payload.userId} 的操作，版本 ${revision}`);
+          applyRemoteOperations(client.applyServer(operations as TextOperation[], revision));
+        }
+        break;
+        
+      case 'crdt_operation':
+        // 自己的操作已经应用在本地副本上，重放的刷新前编辑仍需合并
+        if (crdtDocumentRef.current && Array.isArray(message.payload.operations) &&
+            (message.payload.userId !== userIdRef.current || message.payload.replayed)) {
+          applyRemoteOperations(crdtDocumentRef.current.applyRemote(message.payload.operations as CrdtOperation[]));
         }
         break;
         
@@ -491,6 +519,27 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
         break;
         
       case 'sync':
+        if (crdtDocumentRef.current) {
+          // CRDT模式合并完整的文档状态，本地未发送的修改不会丢失
+          if (message.payload.crdt) {
+            applyRemoteOperations(crdtDocumentRef.current.merge(message.payload.crdt));
+          }
+        } else if (typeof message.payload.revision === 'number' && operationClientRef.current) {
+          const client = operationClientRef.current;
+          
+          if (message.payload.operations) {
+            // 按版本补发的操作
+            applyRemoteOperations(client.applyRecords(message.payload.operations, userIdRef.current));
+          } else if (message.payload.content !== undefined) {
+            // 完整内容同步，以服务端为准
+            client.reset(message.payload.revision);
+            lastInputValueRef.current = message.payload.content;
+            typedRangeRef.current = null;
+            setContent(message.payload.content);
+            contentChangedRef.current = true;
+          }
+        }
+        
         if (message.payload.users) {
           console.log("收到用户列表更新:", message.payload.users.length, "个用户");
           setActiveUsers(message.payload.users);
@@ -507,22 +556,34 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
       case 'content':
         if (message.payload.content !== undefined) {
           // 如果是自己发送的内容更新，忽略
-          if (message.payload.fromUserId === userId) return;
+          if (message.payload.fromUserId === userIdRef.current) return;
+          
+          // CRDT模式只合并文档状态，不用整篇内容覆盖本地
+          if (crdtDocumentRef.current) {
+            if (message.payload.crdt) {
+              applyRemoteOperations(crdtDocumentRef.current.merge(message.payload.crdt));
+            }
+            return;
+          }
           
           console.log(`收到来自用户 ${message.payload.fromUserId} 的内容同步`);
           
+          // 完整内容会覆盖本地，未确认的操作随之作废
+          operationClientRef.current?.reset(message.payload.revision ?? websocketService.getRevision() ?? 0);
+          lastInputValueRef.current = message.payload.content;
+          typedRangeRef.current = null;
+          
           // 更新编辑器内容
           setContent(message.payload.content);
           
-          // 如果当前小说有ID，同时更新小说内容，避免保存时覆盖
-          if (currentNovel) {
+          // 如果当前章节有ID，同时更新章节内容，避免保存时覆盖
+          if (currentNovel && currentChapter) {
             // 标记内容已经更新，需要再次自动保存
             contentChangedRef.current = true;
             
-            // 更新小说内容到store
-            updateNovel(currentNovel.id, {
-              content: message.payload.content,
-              lastEdited: new Date()
+            // 更新章节内容到store
+            updateChapter(currentNovel.id, currentChapter.id, {
+              content: message.payload.content
             });
             
             console.log("内容已同步到本地，并将触发自动保存");
@@ -530,38 +591,57 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
         }
         break;
     }
-  }, [userId, content, currentNovel, updateNovel, collaborationMode, handleInsertOperation, handleDeleteOperation]);
+  }, [userId, currentNovel, currentChapter, updateChapter, applyRemoteOperations, activeUsers]);
+
+  // 保持消息处理程序引用为最新，注册到服务上的只是一个稳定的转发函数
+  useEffect(() => {
+    messageHandlerRef.current = handleWebSocketMessage;
+  }, [handleWebSocketMessage]);
+
+  useEffect(() => {
+    const forwardMessage = (message: any) => messageHandlerRef.current(message);
+    websocketService.onMessage(forwardMessage);
+    return () => {
+      websocketService.offMessage(forwardMessage);
+    };
+  }, []);
 
   // 连接到WebSocket
   const connectToWebSocket = useCallback(async () => {
-    if (!currentNovel) {
+    if (!currentNovel || !currentChapter) {
       console.log("无法连接：未选择小说");
       return;
     }
     
     try {
-      // 生成协作ID (确保ID为字母数字)
-      let collaborationId = currentNovel.etherpadId || `novel_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
-      collaborationId = collaborationId.replace(/[^a-zA-Z0-9_]/g, '_');
+      // 每章一个协作会话 (确保ID为字母数字)
+      const collaborationId = currentChapter.collaborationId.replace(/[^a-zA-Z0-9_]/g, '_');
       
       console.log("尝试连接到会话:", collaborationId);
       
-      // 确保小说有协作ID
-      if (!currentNovel.etherpadId) {
-        updateNovel(currentNovel.id, {
-          etherpadId: collaborationId
+      // 确保章节的协作ID可以直接用作会话ID
+      if (currentChapter.collaborationId !== collaborationId) {
+        updateChapter(currentNovel.id, currentChapter.id, {
+          collaborationId
         });
       }
       
-      // 生成用户ID
-      const newUserId = uuidv4();
-      setUserId(newUserId);
+      // 断线重连到同一会话时沿用用户ID和同步状态，断线期间的编辑由服务重放后作为自己的操作确认
+      const isReconnect = sessionIdRef.current === collaborationId && !!userIdRef.current;
+      const newUserId = isReconnect ? userIdRef.current : uuidv4();
+      if (!isReconnect) {
+        setUserId(newUserId);
+        userIdRef.current = newUserId;
+        operationClientRef.current = null;
+        crdtDocumentRef.current = null;
+      }
+      sessionIdRef.current = collaborationId;
       
       // 使用websocketService生成用户名
       const userName = websocketService.generateUserName(collaborationId);
       
-      // 设置消息处理程序
-      websocketService.onMessage(handleWebSocketMessage);
+      // 新建会话时使用设置中选择的文档模型
+      websocketService.setDocumentMode(appSettings.collaborationDocumentMode || 'ot');
       
       console.log("正在连接到WebSocket会话:", collaborationId);
       
@@ -574,6 +654,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
       
       if (success) {
         console.log("WebSocket连接成功，用户ID:", newUserId);
+        setMyRole(websocketService.getRole());
         
         // 主动添加自己到用户列表
         const currentUser = {
@@ -602,14 +683,68 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
           }
         }, 500);
         
-        // 立即发送初始内容
-        if (content) {
+        // 加入会话时收到的文档快照
+        const snapshot = websocketService.getDocumentSnapshot();
+        
+        if (snapshot?.mode === 'crdt') {
+          const sharedState = snapshot.crdt;
+          
+          if (crdtDocumentRef.current) {
+            // 断线重连：合并断线期间其他人的修改，自己离线时的修改随后由服务重放
+            applyRemoteOperations(sharedState ? crdtDocumentRef.current.merge(sharedState) : []);
+            console.log("已合并离线期间的修改");
+          } else if (sharedState) {
+            const crdtDocument = new CrdtDocument(newUserId, sharedState);
+            crdtDocumentRef.current = crdtDocument;
+            lastInputValueRef.current = crdtDocument.getText();
+            typedRangeRef.current = null;
+            setContent(crdtDocument.getText());
+            console.log("已加载会话内容");
+            if (content && content !== crdtDocument.getText()) {
+              setSyncReview({ local: content, remote: crdtDocument.getText() });
+            }
+          } else {
+            // 用本地内容初始化会话
+            const crdtDocument = new CrdtDocument(newUserId);
+            crdtDocumentRef.current = crdtDocument;
+            lastInputValueRef.current = content;
+            typedRangeRef.current = null;
+            websocketService.sendCrdtOperations(crdtDocument.insert(0, content));
+          }
+          return;
+        }
+        
+        // 断线重连：服务会补发断线期间错过的版本，未确认的操作随之转换
+        if (operationClientRef.current) {
+          return;
+        }
+        
+        // 从会话当前版本开始跟踪操作
+        const operationClient = new OperationClient(
+          snapshot?.revision ?? 0,
+          (operations, baseRevision) => websocketService.sendOperations(operations, baseRevision)
+        );
+        operationClientRef.current = operationClient;
+        
+        // 会话中已有内容时以会话为准，否则用本地内容初始化会话
+        const sharedContent = snapshot?.content;
+        if (sharedContent) {
+          lastInputValueRef.current = sharedContent;
+          typedRangeRef.current = null;
+          setContent(sharedContent);
+          console.log("已加载会话内容");
+          if (content && content !== sharedContent) {
+            setSyncReview({ local: content, remote: sharedContent });
+          }
+        } else if (content) {
           try {
-            websocketService.sendOperation({
+            lastInputValueRef.current = content;
+            typedRangeRef.current = null;
+            operationClient.applyLocal([{
               type: 'sync',
               userId: newUserId,
               content
-            });
+            }]);
             console.log("已发送初始内容同步");
           } catch (error) {
             console.error("发送内容同步失败:", error);
@@ -620,7 +755,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
         setSaveMessage({
           open: true,
           type: 'error',
-          message: '协作模式连接失败，请重试'
+          message: websocketService.getLastError() || '协作模式连接失败，请重试'
         });
         setCollaborationMode(false);
         setCollaborationActive(currentNovel.id, false);
@@ -635,13 +770,44 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
       setCollaborationMode(false);
       setCollaborationActive(currentNovel.id, false);
     }
-  }, [currentNovel, handleWebSocketMessage, content, updateNovel, cursorColors]);
+  }, [currentNovel, currentChapter, content, updateChapter, cursorColors, appSettings.collaborationDocumentMode, applyRemoteOperations]);
+
+  // 把编辑器中尚未自动保存的内容写入对应章节
+  const flushContent = useCallback(() => {
+    const { currentNovel: novel, updateChapter: saveChapter } = useNovelStore.getState();
+    if (!novel || !editingChapterIdRef.current || !contentChangedRef.current) return;
+
+    saveChapter(novel.id, editingChapterIdRef.current, { content: lastInputValueRef.current });
+    contentChangedRef.current = false;
+  }, []);
+
+  // 保存当前小说的历史版本
+  const takeSnapshot = useCallback(async (reason: SnapshotReason) => {
+    flushContent();
+    const novel = useNovelStore.getState().currentNovel;
+    if (!novel) return null;
+
+    try {
+      return await createSnapshot(novel, reason);
+    } catch (error) {
+      console.error('保存历史版本错误:', error);
+      return null;
+    }
+  }, [flushContent]);
 
   // 断开WebSocket连接
   const disconnectWebSocket = useCallback(() => {
+    // 协作会话结束时保存一个历史版本
+    if (sessionIdRef.current) {
+      takeSnapshot('session_end');
+    }
     websocketService.disconnect();
+    operationClientRef.current = null;
+    crdtDocumentRef.current = null;
+    sessionIdRef.current = null;
     setActiveUsers([]);
-  }, []);
+    setMyRole(null);
+  }, [takeSnapshot]);
 
   // 切换协作模式
   const toggleCollaborationMode = useCallback(async () => {
@@ -666,28 +832,174 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
   }, [collaborationMode, connectToWebSocket, disconnectWebSocket, currentNovel, setCollaborationActive]);
 
   useEffect(() => {
-    if (currentNovel) {
-      setContent(currentNovel.content);
+    if (currentNovel && currentChapter) {
+      setContent(currentChapter.content);
+      lastInputValueRef.current = currentChapter.content;
+      typedRangeRef.current = null;
+      editingChapterIdRef.current = currentChapter.id;
       setTitle(currentNovel.title);
       
-      // 为每个小说生成唯一的协作ID
-      const collaborationId = currentNovel.etherpadId || `novel_${currentNovel.id.replace(/[^a-zA-Z0-9]/g, '_')}`;
-      
       // 修复为使用真实路由而不是锚点
-      setCollaborationLink(`${window.location.origin}/collaborate/${collaborationId}`);
-      
-      // 如果小说没有协作ID，则更新它
-      if (!currentNovel.etherpadId) {
-        updateNovel(currentNovel.id, {
-          etherpadId: collaborationId
-        });
-      }
+      setCollaborationLink(`${window.location.origin}/collaborate/${currentChapter.collaborationId}`);
     } else {
       setContent('');
       setTitle('');
       setCollaborationLink('');
+      editingChapterIdRef.current = null;
+    }
+  }, [currentNovel, currentChapter]);
+
+  // 定时保存历史版本，内容没有变化时不会重复保存
+  useEffect(() => {
+    if (!currentNovel?.id) return;
+
+    const intervalId = window.setInterval(() => takeSnapshot('interval'), SNAPSHOT_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, [currentNovel?.id, takeSnapshot]);
+
+  // 放弃会话内容，把本地章节内容作为一次编辑发送给会话
+  const handleKeepLocalContent = () => {
+    if (!syncReview) return;
+
+    const sessionContent = lastInputValueRef.current;
+    lastInputValueRef.current = syncReview.local;
+    typedRangeRef.current = null;
+    setContent(syncReview.local);
+    contentChangedRef.current = true;
+    sendLocalChanges(sessionContent, syncReview.local);
+    setSyncReview(null);
+  };
+
+  // 在编辑器中做几处互不重叠的替换，每处作为单独的操作发送，协作者同时修改其他位置时不会被覆盖
+  const applyEditorEdits = (edits: TextEdit[]) => {
+    if (edits.length === 0) return;
+
+    const operations = editsToOperations(edits, userIdRef.current);
+    const newContent = applyOperations(lastInputValueRef.current, operations);
+    lastInputValueRef.current = newContent;
+    typedRangeRef.current = null;
+    setContent(newContent);
+    contentChangedRef.current = true;
+    sendLocalOperations(operations);
+  };
+
+  // 修复排版问题，按最新内容重新检查后修复
+  const handleFixLintIssues = (ids: string[]) => {
+    if (!collaborationMode || isComposingRef.current) return;
+
+    const selected = new Set(ids);
+    applyEditorEdits(lintFixEdits(lintText(lastInputValueRef.current).filter(issue => selected.has(issue.id))));
+  };
+
+  // 替换查找到的内容，替换前为涉及的小说保存历史版本
+  // 当前章节作为编辑操作发送，其他章节直接修改保存的内容
+  const handleReplace = async (changes: ReplaceChange[]) => {
+    if (!currentNovel || isComposingRef.current) return;
+
+    flushContent();
+    const novelIds = Array.from(new Set(changes.map(change => change.novelId)));
+    for (const novelId of novelIds) {
+      const novel = useNovelStore.getState().novels.find(item => item.id === novelId);
+      if (!novel) continue;
+      try {
+        await createSnapshot(novel, 'replace');
+      } catch (error) {
+        console.error('保存替换前的历史版本错误:', error);
+      }
     }
-  }, [currentNovel, updateNovel]);
+
+    // 保存历史版本期间内容可能已经变化，变化了的章节跳过
+    let replaced = 0;
+    let skipped = 0;
+    changes.forEach(change => {
+      if (change.novelId === currentNovel.id && change.chapterId === editingChapterIdRef.current) {
+        if (lastInputValueRef.current !== change.original) {
+          skipped++;
+          return;
+        }
+        applyEditorEdits(matchesToEdits(change.matches));
+        // 立即写入章节，修改其他章节后重新加载当前章节时不会恢复成旧内容
+        flushContent();
+      } else {
+        const novel = useNovelStore.getState().novels.find(item => item.id === change.novelId);
+        const chapter = novel ? findChapter(novel, change.chapterId) : undefined;
+        if (!chapter || chapter.content !== change.original) {
+          skipped++;
+          return;
+        }
+        updateChapter(change.novelId, change.chapterId, { content: replaceMatches(change.original, change.matches) });
+      }
+      replaced += change.matches.length;
+    });
+
+    setSaveMessage({
+      open: true,
+      type: skipped > 0 ? 'error' : 'success',
+      message: skipped > 0
+        ? `已替换 ${replaced} 处，${skipped} 个章节的内容在查找后发生了变化，没有替换`
+        : `已替换 ${replaced} 处`
+    });
+  };
+
+  // 手动保存版本
+  const handleSaveVersion = async () => {
+    const snapshot = await takeSnapshot('manual');
+    setSaveMessage({
+      open: true,
+      type: snapshot ? 'success' : 'error',
+      message: snapshot ? '已保存当前版本' : '保存版本失败，请稍后再试'
+    });
+  };
+
+  // 恢复历史版本，恢复前先备份当前内容
+  const handleRestoreSnapshot = async (snapshot: NovelSnapshot) => {
+    if (!currentNovel) return;
+
+    await takeSnapshot('restore');
+    const novel = useNovelStore.getState().currentNovel || currentNovel;
+    const chapters = getChapters(snapshot);
+    const currentChapterId = chapters.some(chapter => chapter.id === novel.currentChapterId)
+      ? novel.currentChapterId
+      : chapters[0]?.id;
+    const previousContent = lastInputValueRef.current;
+
+    updateNovel(currentNovel.id, { volumes: snapshot.volumes, currentChapterId });
+
+    // 协作中的章节通过普通编辑操作同步给其他成员
+    const restoredChapter = chapters.find(chapter => chapter.id === editingChapterIdRef.current);
+    if (collaborationMode && restoredChapter && restoredChapter.id === currentChapterId) {
+      lastInputValueRef.current = restoredChapter.content;
+      typedRangeRef.current = null;
+      sendLocalChanges(previousContent, restoredChapter.content);
+    }
+
+    setSaveMessage({
+      open: true,
+      type: 'success',
+      message: `已恢复到 ${snapshot.createdAt.toLocaleString()} 的版本`
+    });
+  };
+  
+  // 协作模式下切换章节时，改为加入新章节的会话
+  useEffect(() => {
+    if (!collaborationMode || !currentChapter || !sessionIdRef.current) return;
+    if (sessionIdRef.current === currentChapter.collaborationId) return;
+    
+    console.log("切换章节，重新加入协作会话:", currentChapter.collaborationId);
+    disconnectWebSocket();
+    connectToWebSocket();
+  }, [currentChapter?.collaborationId]);
+  
+  // 切换章节前先保存当前章节的内容
+  const handleSelectChapter = useCallback((chapterId: string) => {
+    if (!currentNovel || !currentChapter || chapterId === currentChapter.id) return;
+    
+    if (contentChangedRef.current) {
+      updateChapter(currentNovel.id, currentChapter.id, { content });
+      contentChangedRef.current = false;
+    }
+    selectChapter(currentNovel.id, chapterId);
+  }, [currentNovel, currentChapter, content, updateChapter, selectChapter]);
   
   // 从全局状态初始化协作模式
   useEffect(() => {
@@ -739,8 +1051,22 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     setCopySuccess(false);
   };
 
-  const copyCollaborationLink = () => {
-    navigator.clipboard.writeText(collaborationLink).then(() => {
+  // 复制带邀请令牌的协作链接
+  const copyCollaborationLink = async () => {
+    let link = collaborationLink;
+    try {
+      link = await websocketService.createInviteLink('editor');
+    } catch (error) {
+      console.error('创建邀请链接错误:', error);
+      setSaveMessage({
+        open: true,
+        type: 'error',
+        message: error instanceof Error ? error.message : '创建邀请链接失败'
+      });
+      return;
+    }
+
+    navigator.clipboard.writeText(link).then(() => {
       setCopySuccess(true);
     });
   };
@@ -761,7 +1087,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     
     // 鼠标移动监听
     const handleMouseMove = () => {
-      if (document.activeElement === editorRef.current) {
+      if (document.activeElement === editorRef.current?.element) {
         handleActivity();
       }
     };
@@ -777,10 +1103,11 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     };
     
     // 如果有编辑器引用，添加事件监听
-    if (editorRef.current) {
-      editorRef.current.addEventListener('keydown', handleKeyDown);
-      editorRef.current.addEventListener('click', handleEditorClick);
-      editorRef.current.addEventListener('focus', handleActivity);
+    const editorElement = editorRef.current?.element;
+    if (editorElement) {
+      editorElement.addEventListener('keydown', handleKeyDown);
+      editorElement.addEventListener('click', handleEditorClick);
+      editorElement.addEventListener('focus', handleActivity);
     }
     
     // 添加全局鼠标移动监听
@@ -788,10 +1115,10 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     
     // 清理函数
     return () => {
-      if (editorRef.current) {
-        editorRef.current.removeEventListener('keydown', handleKeyDown);
-        editorRef.current.removeEventListener('click', handleEditorClick);
-        editorRef.current.removeEventListener('focus', handleActivity);
+      if (editorElement) {
+        editorElement.removeEventListener('keydown', handleKeyDown);
+        editorElement.removeEventListener('click', handleEditorClick);
+        editorElement.removeEventListener('focus', handleActivity);
       }
       document.removeEventListener('mousemove', handleMouseMove);
     };
@@ -801,6 +1128,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
   const handleCompositionStart = () => {
     console.log("输入法组合输入开始");
     setIsComposing(true);
+    isComposingRef.current = true;
     
     // 取消之前的组合结束延迟处理（如果有）
     if (compositionEndTimeoutRef.current) {
@@ -815,32 +1143,27 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     // 使用延迟来确保组合输入的值已经更新到输入框
     compositionEndTimeoutRef.current = window.setTimeout(() => {
       setIsComposing(false);
+      isComposingRef.current = false;
       
       // 组合结束后，获取当前输入框的值
       if (editorRef.current && collaborationMode && currentNovel) {
-        const finalContent = editorRef.current.value;
+        const finalContent = editorRef.current.getValue();
         
         // 如果内容有变化，发送操作
         if (finalContent !== lastInputValueRef.current) {
-          console.log("中文输入完成，发送最终内容:", finalContent);
+          console.log("中文输入完成，发送输入结果");
+          const previousContent = lastInputValueRef.current;
           lastInputValueRef.current = finalContent;
+          recordTypedWords(previousContent, finalContent);
           
-          try {
-            // 直接发送完整内容同步，不计算差异
-            websocketService.sendOperation({
-              type: 'sync',
-              userId,
-              content: finalContent
-            });
-            
-            // 确保状态更新
-            setContent(finalContent);
-            
-            // 标记内容已变化，将触发自动保存
-            contentChangedRef.current = true;
-          } catch (error) {
-            console.error("中文输入后同步内容失败:", error);
-          }
+          // 只发送组合输入产生的差异
+          sendLocalChanges(previousContent, finalContent);
+          
+          // 确保状态更新
+          setContent(finalContent);
+          
+          // 标记内容已变化，将触发自动保存
+          contentChangedRef.current = true;
         }
       }
       
@@ -938,11 +1261,11 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
         console.log('自动保存中...');
         // 直接调用updateNovel而不是handleSave，以避免依赖循环
         try {
-          updateNovel(currentNovel.id, {
-            title, // 同时保存标题
-            content,
-            lastEdited: new Date()
-          });
+          // 同时保存标题
+          updateNovel(currentNovel.id, { title });
+          if (currentChapter) {
+            updateChapter(currentNovel.id, currentChapter.id, { content });
+          }
           contentChangedRef.current = false;
           
           // 显示保存成功提示
@@ -963,7 +1286,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     }, autoSaveInterval);
 
     return () => clearInterval(intervalId);
-  }, [currentNovel, collaborationMode, content, title, updateNovel, getNovelSettings, setSaveMessage]);
+  }, [currentNovel, currentChapter, collaborationMode, content, title, updateNovel, updateChapter, getNovelSettings, setSaveMessage]);
 
   // 修改协作模式下显示的用户信息部分
   const renderUserChips = useCallback(() => {
@@ -1004,7 +1327,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
               <Chip
                 key={currentUserChip.id}
                 avatar={<Avatar sx={{ bgcolor: currentUserChip.color }}>{currentUserChip.name[0]}</Avatar>}
-                label={`${currentUserChip.name} (我)`}
+                label={`${currentUserChip.name} (我)${roleLabel(currentUserChip)}`}
                 size="small"
                 sx={{ 
                   bgcolor: 'rgba(0, 0, 0, 0.05)',
@@ -1029,7 +1352,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
               <Chip
                 key={user.id}
                 avatar={<Avatar sx={{ bgcolor: user.color }}>{user.name[0]}</Avatar>}
-                label={`${user.name} (活跃)`}
+                label={`${user.name} (活跃)${roleLabel(user)}`}
                 size="small"
                 sx={{ 
                   bgcolor: 'rgba(0, 0, 0, 0.03)',
@@ -1044,7 +1367,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
               <Chip
                 key={user.id}
                 avatar={<Avatar sx={{ bgcolor: user.color }}>{user.name[0]}</Avatar>}
-                label={user.name}
+                label={`${user.name}${roleLabel(user)}`}
                 size="small"
                 sx={{ bgcolor: 'background.paper' }}
               />
@@ -1055,7 +1378,7 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
               <Chip
                 key={user.id}
                 avatar={<Avatar sx={{ bgcolor: user.color, opacity: 0.6 }}>{user.name[0]}</Avatar>}
-                label={`${user.name} (离开)`}
+                label={`${user.name} (离开)${roleLabel(user)}`}
                 size="small"
                 sx={{ 
                   bgcolor: 'background.paper',
@@ -1094,13 +1417,10 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
       }
 
       // 保存当前内容
-      if (currentNovel && content) {
+      if (currentNovel && currentChapter && content) {
         console.log("保存小说内容:", currentNovel.id);
-        await updateNovel(currentNovel.id, {
-          title,
-          content,
-          lastEdited: new Date()
-        });
+        updateNovel(currentNovel.id, { title });
+        updateChapter(currentNovel.id, currentChapter.id, { content });
 
         // 显示保存成功提示
         setSaveMessage({
@@ -1219,6 +1539,20 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     };
   }, [collaborationMode, userId, setSaveMessage]);
 
+  // 跟踪连接状态和待同步的编辑数，用于协作状态提示
+  useEffect(() => {
+    setIsConnected(websocketService.isConnected());
+    setQueuedOperationCount(websocketService.getQueuedOperationCount());
+    
+    websocketService.onConnectionStatusChange(setIsConnected);
+    websocketService.onQueueChange(setQueuedOperationCount);
+    
+    return () => {
+      websocketService.offConnectionStatusChange(setIsConnected);
+      websocketService.offQueueChange(setQueuedOperationCount);
+    };
+  }, []);
+
   // 添加光标闪烁效果
   useEffect(() => {
     if (!collaborationMode) return;
@@ -1232,75 +1566,6 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     };
   }, [collaborationMode]);
 
-  // 添加编辑器事件监听
-  useEffect(() => {
-    if (!editorRef.current || !collaborationMode) return;
-    
-    const handleSelectionChange = () => {
-      handleCursorPositionChange();
-    };
-    
-    const handleClick = () => {
-      handleCursorPositionChange();
-    };
-    
-    const handleKeyUp = (e: KeyboardEvent) => {
-      // 当按下箭头键、Home、End等导航键时更新光标位置
-      if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'PageUp', 'PageDown'].includes(e.key)) {
-        handleCursorPositionChange();
-      }
-    };
-    
-    // 计算文本度量信息
-    const computeTextMetrics = () => {
-      if (!editorRef.current) return;
-      
-      const styles = window.getComputedStyle(editorRef.current);
-      const fontFamily = styles.getPropertyValue('font-family');
-      const fontSize = parseFloat(styles.getPropertyValue('font-size'));
-      const lineHeight = parseFloat(styles.getPropertyValue('line-height')) || fontSize * 1.2;
-      
-      // 创建一个临时的span元素来测量字符宽度
-      const span = document.createElement('span');
-      span.style.fontFamily = fontFamily;
-      span.style.fontSize = `${fontSize}px`;
-      span.style.position = 'absolute';
-      span.style.left = '-9999px';
-      span.style.visibility = 'hidden';
-      span.textContent = 'X';
-      document.body.appendChild(span);
-      
-      const charWidth = span.getBoundingClientRect().width;
-      document.body.removeChild(span);
-      
-      textMetricsRef.current = { lineHeight, charWidth };
-      editorMeasureRef.current = editorRef.current.getBoundingClientRect();
-    };
-    
-    // 立即计算一次
-    computeTextMetrics();
-    
-    // 监听窗口大小变化，重新计算
-    const handleResize = () => {
-      editorMeasureRef.current = null;
-      computeTextMetrics();
-    };
-    
-    editorRef.current.addEventListener('select', handleSelectionChange);
-    editorRef.current.addEventListener('click', handleClick);
-    editorRef.current.addEventListener('keyup', handleKeyUp);
-    window.addEventListener('resize', handleResize);
-    
-    return () => {
-      if (editorRef.current) {
-        editorRef.current.removeEventListener('select', handleSelectionChange);
-        editorRef.current.removeEventListener('click', handleClick);
-        editorRef.current.removeEventListener('keyup', handleKeyUp);
-      }
-      window.removeEventListener('resize', handleResize);
-    };
-  }, [collaborationMode, handleCursorPositionChange]);
-
   // 定期清理过时的光标和选择区域
   useEffect(() => {
     if (!collaborationMode) return;
@@ -1318,107 +1583,56 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
     };
   }, [collaborationMode]);
 
-  // 渲染用户光标和选择区域
-  const renderUserCursorsAndSelections = () => {
-    if (!collaborationMode || !editorMeasureRef.current) return null;
-    
-    return (
-      <>
-        {cursorVisibility && userCursors.map(cursor => (
-          <UserCursor 
-            key={`cursor-${cursor.userId}`}
-            color={cursor.color}
-            top={cursor.line * textMetricsRef.current.lineHeight}
-            left={cursor.column * textMetricsRef.current.charWidth}
-            data-name={cursor.name}
-          />
-        ))}
-        
-        {userSelections.map(selection => {
-          // 计算选择区域的位置和大小
-          const startTop = selection.start.line * textMetricsRef.current.lineHeight;
-          const endTop = selection.end.line * textMetricsRef.current.lineHeight;
-          const startLeft = selection.start.column * textMetricsRef.current.charWidth;
-          const endLeft = selection.end.column * textMetricsRef.current.charWidth;
-          
-          // 如果是单行选择
-          if (selection.start.line === selection.end.line) {
-            return (
-              <UserSelection
-                key={`selection-${selection.userId}`}
-                color={selection.color}
-                top={startTop}
-                left={startLeft}
-                width={endLeft - startLeft}
-                height={textMetricsRef.current.lineHeight}
-              />
-            );
-          } else {
-            // 多行选择 - 生成多个选择区域
-            const elements = [];
-            
-            // 第一行
-            elements.push(
-              <UserSelection
-                key={`selection-${selection.userId}-start`}
-                color={selection.color}
-                top={startTop}
-                left={startLeft}
-                width={editorMeasureRef.current!.width - startLeft}
-                height={textMetricsRef.current.lineHeight}
-              />
-            );
-            
-            // 中间行
-            for (let line = selection.start.line + 1; line < selection.end.line; line++) {
-              elements.push(
-                <UserSelection
-                  key={`selection-${selection.userId}-middle-${line}`}
-                  color={selection.color}
-                  top={line * textMetricsRef.current.lineHeight}
-                  left={0}
-                  width={editorMeasureRef.current!.width}
-                  height={textMetricsRef.current.lineHeight}
-                />
-              );
-            }
-            
-            // 最后一行
-            elements.push(
-              <UserSelection
-                key={`selection-${selection.userId}-end`}
-                color={selection.color}
-                top={endTop}
-                left={0}
-                width={endLeft}
-                height={textMetricsRef.current.lineHeight}
-              />
-            );
-            
-            return elements;
-          }
-        })}
-      </>
-    );
-  };
+  // 协作者的光标和选区，由编辑器按文字的实际排版位置显示
+  const editorDecorations = useMemo<EditorDecoration[]>(() => collaborationMode ? [
+    ...userSelections.map(selection => ({
+      id: `selection-${selection.userId}`,
+      type: 'selection' as const,
+      name: selection.name,
+      color: selection.color,
+      start: selection.start.position,
+      end: selection.end.position
+    })),
+    ...userCursors.map(cursor => ({
+      id: `cursor-${cursor.userId}`,
+      type: 'caret' as const,
+      name: cursor.name,
+      color: cursor.color,
+      start: cursor.position,
+      end: cursor.position
+    }))
+  ] : [], [collaborationMode, userCursors, userSelections]);
+
+  const lintIssues = useMemo(() => showLint ? lintText(content) : [], [showLint, content]);
 
   // 获取当前小说的设置
   const novelSettings = currentNovel ? getNovelSettings(currentNovel.id) : null;
   
-  // 更新编辑器样式
-  const editorStyles = {
-    '& .MuiInputBase-input': {
-      lineHeight: 1.8,
-      fontSize: '1.1rem',
-      cursor: collaborationMode ? 'text' : 'default',
-      fontFamily: `${novelSettings?.fontFamily || 'system-ui'}, sans-serif !important`,
-      WebkitFontSmoothing: 'antialiased',
-      MozOsxFontSmoothing: 'grayscale',
-    },
-    '& .MuiInputBase-root': {
-      borderRadius: 0,
-      fontFamily: 'inherit'
-    }
+  // 开启Markdown的小说可以预览，编辑器和预览按滚动比例同步
+  const showPreview = !!novelSettings?.useMarkdown && previewMode !== 'edit';
+  const showEditor = !novelSettings?.useMarkdown || previewMode !== 'preview';
+
+  const handlePaneScroll = (source: 'editor' | 'preview') => {
+    const ignored = ignoreScrollRef.current;
+    if (ignored && ignored.pane === source && Date.now() < ignored.until) return;
+
+    const from = source === 'editor' ? editorPaneRef.current : previewPaneRef.current;
+    const to = source === 'editor' ? previewPaneRef.current : editorPaneRef.current;
+    if (!from || !to || previewMode !== 'split') return;
+
+    const ratio = from.scrollTop / Math.max(1, from.scrollHeight - from.clientHeight);
+    ignoreScrollRef.current = { pane: source === 'editor' ? 'preview' : 'editor', until: Date.now() + 100 };
+    to.scrollTop = ratio * (to.scrollHeight - to.clientHeight);
+  };
+
+  // 评论者和只读成员不能编辑
+  const readOnlyRole = collaborationMode && !!myRole && !canEdit(myRole);
+
+  // 打开查找和替换，选中范围超出当前内容时（例如已经切换了章节）忽略
+  const openFindReplace = () => {
+    const selection = lastSelectionRef.current;
+    setFindSelection(selection && Math.max(selection.start, selection.end) <= content.length ? selection : null);
+    setShowFindReplace(true);
   };
 
   if (!currentNovel) {
@@ -1454,7 +1668,60 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
           </Typography>
         </Box>
         
-        <Box sx={{ display: 'flex', gap: 1 }}>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          {/* Markdown预览切换 */}
+          {novelSettings?.useMarkdown && (
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={previewMode}
+              onChange={(_event, mode: PreviewMode | null) => mode && setPreviewMode(mode)}
+            >
+              <ToggleButton value="edit">
+                <Tooltip title="只显示编辑器"><EditNoteIcon fontSize="small" /></Tooltip>
+              </ToggleButton>
+              <ToggleButton value="split">
+                <Tooltip title="编辑和预览"><VerticalSplitIcon fontSize="small" /></Tooltip>
+              </ToggleButton>
+              <ToggleButton value="preview">
+                <Tooltip title="只显示预览"><VisibilityIcon fontSize="small" /></Tooltip>
+              </ToggleButton>
+            </ToggleButtonGroup>
+          )}
+
+          {/* 今日字数目标 */}
+          <DailyGoalProgress novelId={currentNovel.id} />
+
+          {/* 查找和替换按钮 */}
+          <Tooltip title="查找和替换 (Ctrl+F)">
+            <IconButton onClick={openFindReplace}>
+              <FindReplaceIcon />
+            </IconButton>
+          </Tooltip>
+
+          {/* 排版检查按钮 */}
+          <Tooltip title={showLint ? "关闭排版检查" : "排版检查"}>
+            <IconButton onClick={() => setShowLint(!showLint)} color={showLint ? "primary" : "default"}>
+              <Badge badgeContent={lintIssues.length} color="warning" max={99}>
+                <SpellcheckIcon />
+              </Badge>
+            </IconButton>
+          </Tooltip>
+
+          {/* 保存版本按钮 */}
+          <Tooltip title="保存版本">
+            <IconButton onClick={handleSaveVersion}>
+              <BookmarkAddIcon />
+            </IconButton>
+          </Tooltip>
+
+          {/* 历史版本按钮 */}
+          <Tooltip title="历史版本">
+            <IconButton onClick={() => setShowHistory(true)}>
+              <HistoryIcon />
+            </IconButton>
+          </Tooltip>
+
           {/* 用户列表按钮 */}
           <Tooltip title="用户列表">
             <IconButton
@@ -1488,10 +1755,17 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
       
       {/* 协作模式状态提示 */}
       <Box sx={{ mb: 2 }}>
-        {collaborationMode ? (
+        {collaborationMode && !isConnected ? (
+          // 连接断开，编辑暂存在本地队列
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            协作连接已断开，正在重新连接。
+            {queuedOperationCount > 0 && <> 有 <strong>{queuedOperationCount}</strong> 个修改等待同步，重连后会自动发送。</>}
+          </Alert>
+        ) : collaborationMode ? (
           // 协作模式提示
           <Alert severity="info" sx={{ mb: 2 }}>
             已开启<strong>协作模式</strong>，点击右上角的"用户列表"按钮可查看在线用户。
+            {queuedOperationCount > 0 && <> 正在同步 <strong>{queuedOperationCount}</strong> 个修改…</>}
           </Alert>
         ) : (
           // 只读模式提示
@@ -1499,13 +1773,50 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
             当前处于<strong>只读预览模式</strong>，请点击"协作模式"按钮开始编辑。所有更改将自动保存。
           </Alert>
         )}
+
+        {/* 排版检查结果 */}
+        {showLint && (
+          <Alert
+            severity={lintIssues.length > 0 ? "warning" : "success"}
+            action={lintIssues.length > 0 && (
+              <Button color="inherit" size="small" onClick={() => setShowLintDialog(true)}>查看全部</Button>
+            )}
+          >
+            {lintIssues.length > 0
+              ? <>发现 <strong>{lintIssues.length}</strong> 处排版问题，点击编辑器左侧的标记查看和修复。</>
+              : '没有发现排版问题。'}
+          </Alert>
+        )}
+      </Box>
+
+      <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2, alignItems: 'stretch' }}>
+      {/* 章节目录 */}
+      <Box sx={{ width: { xs: '100%', md: 240 }, flexShrink: 0, maxHeight: { xs: 300, md: '70vh' } }}>
+        <ChapterTree
+          novel={currentNovel}
+          currentChapterId={currentChapter?.id}
+          onSelectChapter={handleSelectChapter}
+        />
       </Box>
 
       <Paper 
+        ref={editorPaneRef}
         elevation={0} 
+        onScroll={() => handlePaneScroll('editor')}
+        onKeyDown={(e) => {
+          if ((e.ctrlKey || e.metaKey) && (e.key === 'f' || e.key === 'h')) {
+            e.preventDefault();
+            openFindReplace();
+          }
+        }}
         sx={{ 
+          display: showEditor ? 'block' : 'none',
+          flex: 1,
+          minWidth: 0,
           p: 2, 
           minHeight: '70vh',
+          // 和预览并排时固定高度，两边各自滚动
+          ...(showPreview ? { height: '70vh', overflowY: 'auto' } : {}),
           border: '1px solid',
           borderColor: collaborationMode ? 'primary.light' : 'divider',
           borderRadius: 0,
@@ -1513,43 +1824,115 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
           backgroundColor: collaborationMode ? 'background.paper' : 'rgba(0,0,0,0.02)'
         }}
       >
-        {/* 渲染用户光标和选择区域 */}
-        {collaborationMode && renderUserCursorsAndSelections()}
-        
-        <TextField
-          inputRef={editorRef}
-          multiline
-          fullWidth
-          variant="standard"
+        <RichTextEditor
+          editorRef={editorRef}
           value={content}
+          useMarkdown={!!novelSettings?.useMarkdown}
+          fontFamily={novelSettings?.fontFamily || 'system-ui'}
+          readOnly={!collaborationMode || readOnlyRole}
+          placeholder={!collaborationMode ? "请先开启协作模式再编辑..." : readOnlyRole ? "当前角色只能查看" : "开始创作您的小说..."}
+          decorations={editorDecorations}
+          showCarets={cursorVisibility}
+          markers={showLint ? lintIssues : undefined}
+          historyKey={currentChapter?.id}
+          onMarkerClick={(ids, anchor) => setLintMenu({ ids, anchor })}
           onChange={handleContentChange}
+          onSelectionChange={handleCursorPositionChange}
           onCompositionStart={handleCompositionStart}
           onCompositionEnd={handleCompositionEnd}
-          onBlur={() => {
-            // 失去焦点时，也发送一次当前内容，确保同步
-            if (collaborationMode && currentNovel && editorRef.current) {
-              try {
-                websocketService.sendOperation({
-                  type: 'sync',
-                  userId,
-                  content: editorRef.current.value
-                });
-                console.log("失焦时同步内容");
-              } catch (error) {
-                console.error("失焦同步内容错误:", error);
-              }
-            }
-          }}
-          placeholder={collaborationMode ? "开始创作您的小说..." : "请先开启协作模式再编辑..."}
-          disabled={!collaborationMode}
-          InputProps={{
-            disableUnderline: true,
-            readOnly: !collaborationMode
-          }}
-          sx={editorStyles}
         />
       </Paper>
 
+      {/* Markdown预览 */}
+      {showPreview && (
+        <Paper
+          elevation={0}
+          sx={{ flex: 1, minWidth: 0, p: 2, height: '70vh', border: '1px solid', borderColor: 'divider', borderRadius: 0 }}
+        >
+          <MarkdownPreview
+            content={content}
+            fontFamily={novelSettings?.fontFamily || 'system-ui'}
+            scrollRef={previewPaneRef}
+            onScroll={() => handlePaneScroll('preview')}
+          />
+        </Paper>
+      )}
+      </Box>
+
+      {/* 字数统计 */}
+      <WritingStatistics novel={currentNovel} chapterId={currentChapter?.id} content={content} />
+
+      {/* 会话内容与本地内容不同时的对比 */}
+      <Dialog open={!!syncReview} onClose={() => setSyncReview(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>会话内容与本地内容不同</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            编辑器已加载会话中的内容。保留本地内容会把本地版本作为一次修改同步给所有协作者。
+          </Typography>
+          {syncReview && (
+            <DiffViewer
+              oldText={syncReview.local}
+              newText={syncReview.remote}
+              oldLabel="本地内容"
+              newLabel="会话内容"
+              contextLines={2}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleKeepLocalContent} disabled={readOnlyRole}>保留本地内容</Button>
+          <Button variant="contained" onClick={() => setSyncReview(null)}>使用会话内容</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* 编辑器边栏标记对应的问题 */}
+      <Menu anchorEl={lintMenu?.anchor} open={!!lintMenu} onClose={() => setLintMenu(null)}>
+        {lintIssues.filter(issue => lintMenu?.ids.includes(issue.id)).map(issue => (
+          <MenuItem
+            key={issue.id}
+            disabled={issue.fix === undefined || !collaborationMode || readOnlyRole}
+            onClick={() => {
+              handleFixLintIssues([issue.id]);
+              setLintMenu(null);
+            }}
+          >
+            <ListItemText
+              primary={issue.message}
+              secondary={issue.fix === undefined ? '需要手动修改' : '点击修复'}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <FindReplaceDialog
+        open={showFindReplace}
+        novels={novels}
+        currentNovelId={currentNovel.id}
+        currentChapterId={currentChapter?.id}
+        currentContent={content}
+        selection={findSelection}
+        canEditCurrent={collaborationMode && !readOnlyRole}
+        onClose={() => setShowFindReplace(false)}
+        onReplace={handleReplace}
+      />
+
+      <TypesetLintDialog
+        open={showLintDialog}
+        text={content}
+        issues={lintIssues}
+        canFix={collaborationMode && !readOnlyRole}
+        onClose={() => setShowLintDialog(false)}
+        onFix={handleFixLintIssues}
+      />
+
+      <VersionHistoryDialog
+        open={showHistory}
+        novel={currentNovel}
+        canRestore={!readOnlyRole}
+        onClose={() => setShowHistory(false)}
+        onRestore={handleRestoreSnapshot}
+      />
+
       <Snackbar 
         open={saveMessage.open} 
         autoHideDuration={3000} 
@@ -1600,10 +1983,28 @@ export default function NovelEditor({ toggleSidebar, sidebarVisible, autoCollabo
             <Avatar sx={{ bgcolor: user.color, width: 24, height: 24, mr: 1, fontSize: '0.875rem' }}>
               {user.name[0]}
             </Avatar>
-            <Typography variant="body2">
+            <Typography variant="body2" sx={{ flexGrow: 1 }}>
               {user.name} {user.id === userId ? '(我)' : ''}
               {user.status === UserStatus.AWAY ? ' (离开)' : ''}
             </Typography>
+            {/* 所有者可以调整其他成员的角色 */}
+            {myRole === 'owner' && user.id !== userId && user.role !== 'owner' ? (
+              <TextField
+                select
+                size="small"
+                variant="standard"
+                value={user.role || 'editor'}
+                onChange={(event) => handleRoleChange(user.id, event.target.value as SessionRole)}
+                onClick={(event) => event.stopPropagation()}
+                sx={{ ml: 2, minWidth: 72 }}
+              >
+                {ASSIGNABLE_ROLES.map(role => (
+                  <MenuItem key={role} value={role}>{ROLE_LABELS[role]}</MenuItem>
+                ))}
+              </TextField>
+            ) : user.role ? (
+              <Chip label={ROLE_LABELS[user.role]} size="small" sx={{ ml: 2 }} />
+            ) : null}
           </MenuItem>
         ))}
         {activeUsers.length === 0 && (
@@ -28,15 +28,37 @@ import {
   KeyboardArrowUp as KeyboardArrowUpIcon,
   KeyboardArrowDown as KeyboardArrowDownIcon,
   Delete as DeleteIcon,
-  FileDownload as FileDownloadIcon
+  FileDownload as FileDownloadIcon,
+  Difference as DifferenceIcon,
+  MenuBook as MenuBookIcon,
+  Description as DescriptionIcon,
+  Notes as NotesIcon,
+  UploadFile as UploadFileIcon
 } from '@mui/icons-material';
 import { useNovelStore, Novel } from '../../store/novelStore';
+import { useSettingsStore, DEFAULT_MANUSCRIPT_FORMAT } from '../../store/settingsStore';
+import { getNovelText, getNovelWordCount } from '../../services/novelStructure';
+import { formatWordCount } from '../../services/textStatistics';
+import { exportEpub } from '../../services/epubExport';
+import { exportDocx } from '../../services/docxExport';
+import { exportMarkdown } from '../../services/markdownExport';
+import { IMPORT_FILE_ACCEPT, importNovelFile } from '../../services/novelImport';
+import { downloadBlob, safeFileName } from '../../services/fileDownload';
+import DiffViewer from '../DiffViewer';
 
 // 定义列表视图类型
 type ViewType = 'vertical' | 'grid' | 'horizontal';
 
+// 生成唯一的etherpadId
+const generatePadId = () => {
+  const timestamp = new Date().getTime();
+  const randomStr = Math.random().toString(36).substring(2, 8);
+  return `novel_${timestamp}_${randomStr}`;
+};
+
 export default function NovelList() {
   const { novels, addNovel, selectNovel, deleteNovel, updateNovel } = useNovelStore();
+  const { appSettings, getNovelSettings, updateNovelSettings } = useSettingsStore();
   const [openDialog, setOpenDialog] = useState(false);
   const [newNovelTitle, setNewNovelTitle] = useState('');
   const [viewType, setViewType] = useState<ViewType>('horizontal');
@@ -48,6 +70,17 @@ export default function NovelList() {
   // 删除确认对话框状态
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [novelToDelete, setNovelToDelete] = useState<Novel | null>(null);
+  
+  // 对比两部小说
+  const [compareNovelIds, setCompareNovelIds] = useState<{ left: string; right: string } | null>(null);
+  
+  // 导出EPUB时填写的书籍信息
+  const [epubNovel, setEpubNovel] = useState<Novel | null>(null);
+  const [epubAuthor, setEpubAuthor] = useState('');
+  const [epubTags, setEpubTags] = useState('');
+  const [epubCover, setEpubCover] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
 
   // 打开创建小说对话框
   const handleOpenDialog = () => {
@@ -64,10 +97,7 @@ export default function NovelList() {
   const handleCreateNovel = () => {
     if (newNovelTitle.trim() === '') return;
     
-    // 生成唯一的etherpadId
-    const timestamp = new Date().getTime();
-    const randomStr = Math.random().toString(36).substring(2, 8);
-    const padId = `novel_${timestamp}_${randomStr}`;
+    const padId = generatePadId();
     
     // 使用新的addNovel方法创建小说
     const createdNovel = addNovel(newNovelTitle, '', padId);
@@ -77,6 +107,34 @@ export default function NovelList() {
     handleCloseDialog();
   };
 
+  // 从TXT、Markdown、Word或EPUB文件导入小说
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    setImporting(true);
+    try {
+      const imported = await importNovelFile(file);
+      const createdNovel = addNovel(newNovelTitle.trim() || imported.title, '', generatePadId(), {
+        volumes: imported.volumes,
+        author: imported.author,
+        tags: imported.tags,
+        coverImage: imported.coverImage
+      });
+      // 保留了Markdown格式的正文按Markdown编辑和导出
+      if (imported.markdown) {
+        updateNovelSettings(createdNovel.id, { useMarkdown: true });
+      }
+      handleCloseDialog();
+    } catch (error) {
+      console.error('导入小说错误:', error);
+      alert(`导入失败：${error instanceof Error ? error.message : '无法读取文件'}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
   // 选择小说
   const handleSelectNovel = (novel: Novel) => {
     selectNovel(novel.id);
@@ -89,6 +147,12 @@ export default function NovelList() {
     }
   };
 
+  // 正文开头的预览
+  const getPreview = (novel: Novel, length: number) => {
+    const text = getNovelText(novel);
+    return text.length > 0 ? text.substring(0, length) + (text.length > length ? '...' : '') : '暂无内容';
+  };
+
   // 日期格式化
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleString('zh-CN', {
@@ -183,24 +247,93 @@ export default function NovelList() {
     const novel = novels.find(n => n.id === selectedNovelId);
     if (!novel) return;
     
-    // 创建TXT内容
-    const txtContent = `${novel.title}\n\n${novel.content || ''}`;
+    // 创建TXT内容，按顺序包含各章标题和正文
+    const txtContent = `${novel.title}\n\n${getNovelText(novel, true)}`;
     const blob = new Blob([txtContent], { type: 'text/plain;charset=utf-8' });
+    downloadBlob(blob, `${safeFileName(novel.title)}.txt`);
     
-    // 创建下载链接
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${novel.title || '无标题小说'}.txt`;
-    document.body.appendChild(a);
-    a.click();
+    handleCloseMenu();
+  };
+
+  // 导出Word文档，按设置中的稿件格式排版，开启Markdown的小说保留标题和强调格式
+  const handleDownloadAsDocx = () => {
+    const novel = novels.find(n => n.id === selectedNovelId);
+    if (!novel) return;
+    
+    try {
+      const format = appSettings.manuscriptFormat || DEFAULT_MANUSCRIPT_FORMAT;
+      const blob = exportDocx(novel, format, getNovelSettings(novel.id).useMarkdown);
+      downloadBlob(blob, `${safeFileName(novel.title)}.docx`);
+    } catch (error) {
+      console.error('导出Word错误:', error);
+      alert('导出Word失败，请稍后再试');
+    }
+    handleCloseMenu();
+  };
+
+  // 导出Markdown文件
+  const handleDownloadAsMarkdown = () => {
+    const novel = novels.find(n => n.id === selectedNovelId);
+    if (!novel) return;
     
-    // 清理
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, 100);
+    const markdown = exportMarkdown(novel, getNovelSettings(novel.id).useMarkdown);
+    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+    downloadBlob(blob, `${safeFileName(novel.title)}.md`);
+    handleCloseMenu();
+  };
+
+  // 打开EPUB导出对话框，填写作者、标签和封面
+  const handleOpenEpubExport = () => {
+    const novel = novels.find(n => n.id === selectedNovelId);
+    if (!novel) return;
     
+    setEpubNovel(novel);
+    setEpubAuthor(novel.author || '');
+    setEpubTags((novel.tags || []).join('，'));
+    setEpubCover(novel.coverImage || '');
+    handleCloseMenu();
+  };
+
+  // 选择本地图片作为封面
+  const handleEpubCoverFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    
+    const reader = new FileReader();
+    reader.onload = () => setEpubCover(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  // 保存书籍信息并导出EPUB
+  const handleExportEpub = async () => {
+    if (!epubNovel) return;
+    
+    const metadata = {
+      author: epubAuthor.trim() || undefined,
+      tags: epubTags.split(/[,，、]/).map(tag => tag.trim()).filter(tag => tag.length > 0),
+      coverImage: epubCover || undefined
+    };
+    updateNovel(epubNovel.id, metadata);
+    
+    setExporting(true);
+    try {
+      const blob = await exportEpub({ ...epubNovel, ...metadata });
+      downloadBlob(blob, `${safeFileName(epubNovel.title)}.epub`);
+      setEpubNovel(null);
+    } catch (error) {
+      console.error('导出EPUB错误:', error);
+      alert('导出EPUB失败，请稍后再试');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // 打开对比对话框，默认与另一部小说对比
+  const handleOpenCompare = () => {
+    if (!selectedNovelId) return;
+    
+    const other = novels.find(n => n.id !== selectedNovelId);
+    setCompareNovelIds({ left: selectedNovelId, right: other ? other.id : selectedNovelId });
     handleCloseMenu();
   };
 
@@ -276,7 +409,7 @@ export default function NovelList() {
                     <Typography variant="body2" color="text.secondary">
                       上次编辑: {novel.lastEdited instanceof Date ? 
                         formatDate(novel.lastEdited) : 
-                        (novel.lastEdited ? formatDate(new Date(novel.lastEdited)) : '未知时间')}
+                        (novel.lastEdited ? formatDate(new Date(novel.lastEdited)) : '未知时间')} · {formatWordCount(getNovelWordCount(novel))}
                     </Typography>
                     <Typography variant="body2" color="text.secondary" sx={{ 
                       mt: 1,
@@ -287,9 +420,7 @@ export default function NovelList() {
                       WebkitLineClamp: 3,
                       WebkitBoxOrient: 'vertical'
                     }}>
-                      {typeof novel.content === 'string' ? 
-                        (novel.content.substring(0, 150) + (novel.content.length > 150 ? '...' : '')) : 
-                        '无内容'}
+                      {getPreview(novel, 150)}
                     </Typography>
                   </CardContent>
                 </Box>
@@ -330,7 +461,7 @@ export default function NovelList() {
                   <Typography variant="body2" color="text.secondary">
                     上次编辑: {novel.lastEdited instanceof Date ? 
                       formatDate(novel.lastEdited) : 
-                      (novel.lastEdited ? formatDate(new Date(novel.lastEdited)) : '未知时间')}
+                      (novel.lastEdited ? formatDate(new Date(novel.lastEdited)) : '未知时间')} · {formatWordCount(getNovelWordCount(novel))}
                   </Typography>
                   <Typography variant="body1" sx={{ 
                     mt: 2, 
@@ -342,9 +473,7 @@ export default function NovelList() {
                     WebkitLineClamp: 4,
                     WebkitBoxOrient: 'vertical'
                   }}>
-                    {typeof novel.content === 'string' ? 
-                      (novel.content.length > 0 ? novel.content.substring(0, 300) + (novel.content.length > 300 ? '...' : '') : '暂无内容') : 
-                      '无内容'}
+                    {getPreview(novel, 300)}
                   </Typography>
                   {novel.collaborationActive && (
                     <Typography variant="body2" color="primary" sx={{ fontWeight: 'bold' }}>
@@ -416,7 +545,7 @@ export default function NovelList() {
                     <Typography variant="body2" color="text.secondary">
                       上次编辑: {novel.lastEdited instanceof Date ? 
                         formatDate(novel.lastEdited) : 
-                        (novel.lastEdited ? formatDate(new Date(novel.lastEdited)) : '未知时间')}
+                        (novel.lastEdited ? formatDate(new Date(novel.lastEdited)) : '未知时间')} · {formatWordCount(getNovelWordCount(novel))}
                     </Typography>
                     <Typography variant="body2" color="text.secondary" sx={{ 
                       mt: 1,
@@ -427,9 +556,7 @@ export default function NovelList() {
                       WebkitLineClamp: 3,
                       WebkitBoxOrient: 'vertical'
                     }}>
-                      {typeof novel.content === 'string' ? 
-                        (novel.content.substring(0, 150) + (novel.content.length > 150 ? '...' : '')) : 
-                        '无内容'}
+                      {getPreview(novel, 150)}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -501,6 +628,22 @@ export default function NovelList() {
           <FileDownloadIcon fontSize="small" sx={{ mr: 1 }} />
           下载TXT
         </MenuItem>
+        <MenuItem onClick={handleOpenEpubExport}>
+          <MenuBookIcon fontSize="small" sx={{ mr: 1 }} />
+          导出EPUB
+        </MenuItem>
+        <MenuItem onClick={handleDownloadAsDocx}>
+          <DescriptionIcon fontSize="small" sx={{ mr: 1 }} />
+          导出Word
+        </MenuItem>
+        <MenuItem onClick={handleDownloadAsMarkdown}>
+          <NotesIcon fontSize="small" sx={{ mr: 1 }} />
+          导出Markdown
+        </MenuItem>
+        <MenuItem onClick={handleOpenCompare} disabled={novels.length < 2}>
+          <DifferenceIcon fontSize="small" sx={{ mr: 1 }} />
+          与其他小说对比
+        </MenuItem>
         <MenuItem onClick={handleConfirmDeleteNovel} sx={{ color: 'error.main' }}>
           <DeleteIcon fontSize="small" sx={{ mr: 1 }} />
           删除
@@ -521,13 +664,102 @@ export default function NovelList() {
             value={newNovelTitle}
             onChange={(e) => setNewNovelTitle(e.target.value)}
           />
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            也可以导入TXT、Markdown、Word（.docx）或EPUB文件，自动识别「第X章」等章节标题；不填标题时使用文件中的书名
+          </Typography>
         </DialogContent>
         <DialogActions>
+          <Button component="label" startIcon={<UploadFileIcon />} disabled={importing} sx={{ mr: 'auto' }}>
+            {importing ? '正在导入...' : '从文件导入'}
+            <input type="file" accept={IMPORT_FILE_ACCEPT} hidden onChange={handleImportFile} />
+          </Button>
           <Button onClick={handleCloseDialog}>取消</Button>
           <Button onClick={handleCreateNovel} variant="contained">创建</Button>
         </DialogActions>
       </Dialog>
 
+      {/* 导出EPUB对话框 */}
+      <Dialog open={!!epubNovel} onClose={() => setEpubNovel(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>导出EPUB</DialogTitle>
+        <DialogContent>
+          <TextField
+            margin="dense"
+            label="作者"
+            fullWidth
+            variant="outlined"
+            value={epubAuthor}
+            onChange={(e) => setEpubAuthor(e.target.value)}
+          />
+          <TextField
+            margin="dense"
+            label="标签"
+            helperText="多个标签用逗号分隔"
+            fullWidth
+            variant="outlined"
+            value={epubTags}
+            onChange={(e) => setEpubTags(e.target.value)}
+          />
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+            {epubCover && (
+              <Box component="img" src={epubCover} alt="封面" sx={{ width: 60, height: 80, objectFit: 'cover' }} />
+            )}
+            <Button variant="outlined" component="label">
+              {epubCover ? '更换封面' : '选择封面'}
+              <input type="file" accept="image/jpeg,image/png,image/gif,image/webp" hidden onChange={handleEpubCoverFile} />
+            </Button>
+            {epubCover && <Button onClick={() => setEpubCover('')}>移除封面</Button>}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEpubNovel(null)}>取消</Button>
+          <Button onClick={handleExportEpub} variant="contained" disabled={exporting}>导出</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* 小说对比对话框 */}
+      <Dialog open={!!compareNovelIds} onClose={() => setCompareNovelIds(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>对比小说</DialogTitle>
+        <DialogContent dividers>
+          {compareNovelIds && (() => {
+            const left = novels.find(n => n.id === compareNovelIds.left);
+            const right = novels.find(n => n.id === compareNovelIds.right);
+            if (!left || !right) return null;
+
+            return (
+              <>
+                <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                  {(['left', 'right'] as const).map(side => (
+                    <TextField
+                      key={side}
+                      select
+                      size="small"
+                      label={side === 'left' ? '原文' : '对比'}
+                      value={compareNovelIds[side]}
+                      onChange={(e) => setCompareNovelIds({ ...compareNovelIds, [side]: e.target.value })}
+                      sx={{ flex: 1 }}
+                    >
+                      {novels.map(novel => (
+                        <MenuItem key={novel.id} value={novel.id}>{novel.title}</MenuItem>
+                      ))}
+                    </TextField>
+                  ))}
+                </Box>
+                <DiffViewer
+                  oldText={getNovelText(left, true)}
+                  newText={getNovelText(right, true)}
+                  oldLabel={left.title}
+                  newLabel={right.title}
+                  contextLines={2}
+                />
+              </>
+            );
+          })()}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCompareNovelIds(null)}>关闭</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* 删除确认对话框 */}
       <Dialog
         open={deleteDialogOpen}
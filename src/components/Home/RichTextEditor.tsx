@@ -0,0 +1,729 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Box, Tooltip } from '@mui/material';
+import styled from '@emotion/styled';
+import { EditorParagraph, buildEditorDocument, findParagraphIndex, paragraphKey } from '../../services/editorDocument';
+import { TextOperation, applyOperations } from '../../services/collaborationService';
+import { EditHistory } from '../../services/editHistory';
+
+// 协作者的光标和选区，位置是编辑器内容中的文本偏移，和协作操作使用同一套坐标
+export interface EditorDecoration {
+  id: string;
+  type: 'caret' | 'selection';
+  name: string;
+  color: string;
+  start: number;
+  end: number;
+}
+
+// 排版问题等标记，显示在左侧边栏，有范围的标记同时在文字下方画线
+export interface EditorMarker {
+  id: string;
+  start: number;
+  end: number;
+  message: string;
+}
+
+// 内容修改的来源，粘贴的文字不计入写作字数
+export type EditorChangeSource = 'input' | 'paste';
+
+// 提供给外部读写内容和选区，偏移都是纯文本偏移
+export interface RichTextEditorHandle {
+  element: HTMLDivElement;
+  getValue: () => string;
+  getSelection: () => { start: number; end: number } | null; // 焦点不在编辑器中时返回 null
+  setSelection: (start: number, end?: number) => void;
+  transformHistory: (operations: TextOperation[]) => void; // 协作者的修改到达时转换撤销记录
+}
+
+interface RichTextEditorProps {
+  value: string;
+  useMarkdown: boolean;
+  fontFamily: string;
+  readOnly?: boolean;
+  placeholder?: string;
+  decorations?: EditorDecoration[];
+  showCarets?: boolean;
+  markers?: EditorMarker[]; // 传入时显示左侧边栏
+  historyKey?: string; // 变化时清空撤销记录，例如切换章节
+  onMarkerClick?: (ids: string[], anchor: HTMLElement) => void;
+  editorRef?: React.MutableRefObject<RichTextEditorHandle | null>;
+  onChange: (value: string, source: EditorChangeSource) => void;
+  onSelectionChange?: (start: number, end: number) => void;
+  onCompositionStart?: () => void;
+  onCompositionEnd?: () => void;
+}
+
+const NO_DECORATIONS: EditorDecoration[] = [];
+const NO_MARKERS: EditorMarker[] = [];
+const GUTTER_WIDTH = 24;
+
+// 换算到编辑器坐标后的光标或选区矩形
+interface DecorationRect {
+  key: string;
+  type: EditorDecoration['type'];
+  name: string;
+  color: string;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// 同一行的标记合并成边栏上的一个点
+interface GutterMark {
+  key: string;
+  top: number;
+  height: number;
+  ids: string[];
+  messages: string[];
+}
+
+interface UnderlineRect {
+  key: string;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// 用户光标组件
+const UserCursor = styled.div<{ color: string, top: number, left: number, height: number }>`
+  position: absolute;
+  width: 2px;
+  height: ${props => props.height}px;
+  background-color: ${props => props.color};
+  top: ${props => props.top}px;
+  left: ${props => props.left}px;
+  z-index: 10;
+  pointer-events: none;
+  &::after {
+    content: attr(data-name);
+    position: absolute;
+    top: -18px;
+    left: 0;
+    background-color: ${props => props.color};
+    color: white;
+    padding: 2px 4px;
+    border-radius: 4px;
+    font-size: 12px;
+    white-space: nowrap;
+  }
+`;
+
+// 用户选择区域组件
+const UserSelection = styled.div<{ color: string, top: number, left: number, width: number, height: number }>`
+  position: absolute;
+  background-color: ${props => `${props.color}33`}; /* 添加透明度 */
+  top: ${props => props.top}px;
+  left: ${props => props.left}px;
+  width: ${props => props.width}px;
+  height: ${props => props.height}px;
+  z-index: 5;
+  pointer-events: none;
+`;
+
+// 标记范围的下划线
+const MarkerUnderline = styled.div<{ top: number, left: number, width: number, height: number }>`
+  position: absolute;
+  top: ${props => props.top}px;
+  left: ${props => props.left}px;
+  width: ${props => props.width}px;
+  height: ${props => props.height}px;
+  border-bottom: 2px dotted #ed6c02;
+  z-index: 4;
+  pointer-events: none;
+`;
+
+// ---- 文档模型和DOM之间的换算 ----
+// 编辑区每个子元素对应一个段落，段落内的文本节点按顺序拼起来就是段落文字
+
+function renderParagraph(paragraph: EditorParagraph): HTMLDivElement {
+  const element = document.createElement('div');
+  element.className = `rte-${paragraph.kind}`;
+  if (paragraph.level) element.dataset.level = String(paragraph.level);
+
+  paragraph.spans.forEach(span => {
+    if (span.styles.length === 0) {
+      element.appendChild(document.createTextNode(span.text));
+      return;
+    }
+    const node = document.createElement('span');
+    node.className = span.styles.map(style => `rte-${style}`).join(' ');
+    node.textContent = span.text;
+    element.appendChild(node);
+  });
+  // 空段落放一个换行元素撑开高度，光标才能停在这一行
+  if (!paragraph.text) element.appendChild(document.createElement('br'));
+  return element;
+}
+
+function readText(root: HTMLElement): string {
+  return Array.from(root.childNodes).map(node => node.textContent || '').join('\n');
+}
+
+function documentLength(paragraphs: EditorParagraph[]): number {
+  const last = paragraphs[paragraphs.length - 1];
+  return last ? last.start + last.text.length : 0;
+}
+
+function offsetFromPoint(root: HTMLElement, paragraphs: EditorParagraph[], node: Node, offset: number): number {
+  if (node === root) {
+    return offset < paragraphs.length ? paragraphs[offset].start : documentLength(paragraphs);
+  }
+
+  let block: Node | null = node;
+  while (block && block.parentNode !== root) {
+    block = block.parentNode;
+  }
+  const index = block ? Array.prototype.indexOf.call(root.childNodes, block) : -1;
+  const paragraph = paragraphs[index];
+  if (!block || !paragraph) return documentLength(paragraphs);
+
+  const range = document.createRange();
+  range.setStart(block, 0);
+  range.setEnd(node, offset);
+  return paragraph.start + Math.min(range.toString().length, paragraph.text.length);
+}
+
+function pointFromOffset(root: HTMLElement, paragraphs: EditorParagraph[], offset: number): { node: Node; offset: number } {
+  const index = findParagraphIndex(paragraphs, offset);
+  const block = root.childNodes[index];
+  let remaining = Math.max(0, Math.min(offset - paragraphs[index].start, paragraphs[index].text.length));
+
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  let last: Text | null = null;
+  for (let text = walker.nextNode() as Text | null; text; text = walker.nextNode() as Text | null) {
+    if (remaining <= text.length) return { node: text, offset: remaining };
+    remaining -= text.length;
+    last = text;
+  }
+  return last ? { node: last, offset: last.length } : { node: block, offset: 0 };
+}
+
+// 选区覆盖的每个文本节点分别取矩形，折行和全角字符都由浏览器排版结果决定
+function selectionRects(root: HTMLElement, paragraphs: EditorParagraph[], start: number, end: number): DOMRect[] {
+  const rects: DOMRect[] = [];
+  const first = findParagraphIndex(paragraphs, start);
+  const last = findParagraphIndex(paragraphs, end);
+
+  for (let index = first; index <= last; index++) {
+    const walker = document.createTreeWalker(root.childNodes[index], NodeFilter.SHOW_TEXT);
+    let nodeStart = paragraphs[index].start;
+    for (let text = walker.nextNode() as Text | null; text; text = walker.nextNode() as Text | null) {
+      const from = Math.max(start, nodeStart);
+      const to = Math.min(end, nodeStart + text.length);
+      if (from < to) {
+        const range = document.createRange();
+        range.setStart(text, from - nodeStart);
+        range.setEnd(text, to - nodeStart);
+        rects.push(...Array.from(range.getClientRects()));
+      }
+      nodeStart += text.length;
+    }
+  }
+  return rects;
+}
+
+function caretRect(root: HTMLElement, paragraphs: EditorParagraph[], offset: number): DOMRect | null {
+  const point = pointFromOffset(root, paragraphs, offset);
+  const range = document.createRange();
+  range.setStart(point.node, point.offset);
+  range.collapse(true);
+
+  const rect = range.getClientRects()[0];
+  if (rect) return rect;
+  // 空段落中折叠的选区没有矩形，使用段落本身的位置
+  const element = point.node.nodeType === Node.TEXT_NODE ? point.node.parentElement : point.node as Element;
+  return element ? element.getBoundingClientRect() : null;
+}
+
+// 富文本编辑器：内容仍然是纯文本，按文档模型渲染成带样式的段落
+// 输入由编辑器自己换算成文本修改，浏览器只负责输入法组合中的文字
+export default function RichTextEditor({
+  value,
+  useMarkdown,
+  fontFamily,
+  readOnly = false,
+  placeholder,
+  decorations = NO_DECORATIONS,
+  showCarets = true,
+  markers,
+  historyKey,
+  onMarkerClick,
+  editorRef,
+  onChange,
+  onSelectionChange,
+  onCompositionStart,
+  onCompositionEnd
+}: RichTextEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  // 当前DOM对应的文档模型
+  const paragraphsRef = useRef<EditorParagraph[]>([]);
+  const keysRef = useRef<string[]>([]);
+  const renderedValueRef = useRef<string | null>(null);
+  const renderedMarkdownRef = useRef(useMarkdown);
+  // 浏览器直接修改过DOM（输入法组合），下次渲染时整体重建
+  const dirtyRef = useRef(false);
+  const composingRef = useRef(false);
+  // 本地修改后光标应该在的位置，等新内容渲染后再设置
+  const pendingSelectionRef = useRef<number | null>(null);
+  const [history] = useState(() => new EditHistory());
+  const [compositionVersion, setCompositionVersion] = useState(0);
+  const [rects, setRects] = useState<DecorationRect[]>([]);
+  const [gutterMarks, setGutterMarks] = useState<GutterMark[]>([]);
+  const [underlines, setUnderlines] = useState<UnderlineRect[]>([]);
+
+  // 原生事件监听中使用最新的属性
+  const onChangeRef = useRef(onChange);
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  const readOnlyRef = useRef(readOnly);
+  const decorationsRef = useRef(decorations);
+  const markersRef = useRef(markers || NO_MARKERS);
+  onChangeRef.current = onChange;
+  onSelectionChangeRef.current = onSelectionChange;
+  readOnlyRef.current = readOnly;
+  decorationsRef.current = decorations;
+  markersRef.current = markers || NO_MARKERS;
+
+  const getSelection = useCallback(() => {
+    const root = rootRef.current;
+    const selection = window.getSelection();
+    if (!root || !selection || selection.rangeCount === 0) return null;
+
+    const range = selection.getRangeAt(0);
+    if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+    return {
+      start: offsetFromPoint(root, paragraphsRef.current, range.startContainer, range.startOffset),
+      end: offsetFromPoint(root, paragraphsRef.current, range.endContainer, range.endOffset)
+    };
+  }, []);
+
+  const setSelection = useCallback((start: number, end = start) => {
+    const root = rootRef.current;
+    const selection = window.getSelection();
+    if (!root || !selection || document.activeElement !== root || paragraphsRef.current.length === 0) return;
+
+    const from = pointFromOffset(root, paragraphsRef.current, start);
+    const to = pointFromOffset(root, paragraphsRef.current, end);
+    const range = document.createRange();
+    range.setStart(from.node, from.offset);
+    range.setEnd(to.node, to.offset);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }, []);
+
+  // 用 text 替换 [start, end) 之间的内容
+  const replaceRange = useCallback((start: number, end: number, text: string, source: EditorChangeSource = 'input') => {
+    const current = renderedValueRef.current ?? '';
+    const from = Math.min(start, end);
+    const to = Math.max(start, end);
+    const next = current.slice(0, from) + text + current.slice(to);
+
+    if (next === current) {
+      setSelection(from + text.length);
+      return;
+    }
+    pendingSelectionRef.current = from + text.length;
+    history.record(next);
+    onChangeRef.current(next, source);
+  }, [history, setSelection]);
+
+  // 撤销或重做，操作逐个交给外部，协作时每个操作分别同步，不会覆盖中间协作者的文字
+  const applyHistory = useCallback((action: 'undo' | 'redo') => {
+    if (readOnlyRef.current) return;
+
+    let text = history.getText();
+    const step = action === 'undo' ? history.undo() : history.redo();
+    if (!step) return;
+
+    pendingSelectionRef.current = step.selection;
+    step.operations.forEach(operation => {
+      text = applyOperations(text, [operation]);
+      onChangeRef.current(text, 'input');
+    });
+  }, [history]);
+
+  // 计算协作者光标、选区和标记的位置
+  const measure = useCallback(() => {
+    const root = rootRef.current;
+    const container = containerRef.current;
+    if (!root || !container || composingRef.current || paragraphsRef.current.length === 0) return;
+
+    const origin = container.getBoundingClientRect();
+    const paragraphs = paragraphsRef.current;
+    const length = documentLength(paragraphs);
+    const clamp = (offset: number) => Math.max(0, Math.min(offset, length));
+    const next: DecorationRect[] = [];
+
+    decorationsRef.current.forEach(decoration => {
+      const start = clamp(Math.min(decoration.start, decoration.end));
+      const end = clamp(Math.max(decoration.start, decoration.end));
+      const found = decoration.type === 'caret'
+        ? [caretRect(root, paragraphs, start)].filter((rect): rect is DOMRect => rect !== null)
+        : selectionRects(root, paragraphs, start, end);
+
+      found.forEach((rect, index) => next.push({
+        key: `${decoration.id}-${index}`,
+        type: decoration.type,
+        name: decoration.name,
+        color: decoration.color,
+        top: rect.top - origin.top,
+        left: rect.left - origin.left,
+        width: rect.width,
+        height: rect.height
+      }));
+    });
+    setRects(next);
+
+    const marks: GutterMark[] = [];
+    const lines: UnderlineRect[] = [];
+    markersRef.current.forEach(marker => {
+      const start = clamp(Math.min(marker.start, marker.end));
+      const end = clamp(Math.max(marker.start, marker.end));
+      const caret = caretRect(root, paragraphs, start);
+      if (!caret) return;
+
+      const top = Math.round(caret.top - origin.top);
+      const mark = marks.find(item => item.top === top);
+      if (mark) {
+        mark.ids.push(marker.id);
+        mark.messages.push(marker.message);
+      } else {
+        marks.push({ key: marker.id, top, height: caret.height, ids: [marker.id], messages: [marker.message] });
+      }
+
+      if (start < end) {
+        selectionRects(root, paragraphs, start, end).forEach((rect, index) => lines.push({
+          key: `${marker.id}-${index}`,
+          top: rect.top - origin.top,
+          left: rect.left - origin.left,
+          width: rect.width,
+          height: rect.height
+        }));
+      }
+    });
+    setGutterMarks(marks);
+    setUnderlines(lines);
+  }, []);
+
+  // 切换文档时清空撤销记录
+  useLayoutEffect(() => {
+    history.reset(renderedValueRef.current ?? '');
+  }, [history, historyKey]);
+
+  // 内容变化时重新渲染，前后没有变化的段落保留原来的DOM
+  useLayoutEffect(() => {
+    const root = rootRef.current;
+    if (!root || composingRef.current) return;
+    // 不是在编辑器里输入的修改（符号转换、替换、整篇同步）也要转换撤销记录
+    history.sync(value);
+    if (
+      !dirtyRef.current && value === renderedValueRef.current &&
+      useMarkdown === renderedMarkdownRef.current && keysRef.current.length > 0
+    ) return;
+
+    const focused = document.activeElement === root;
+    const pending = pendingSelectionRef.current;
+    const selection = pending !== null ? { start: pending, end: pending } : focused ? getSelection() : null;
+    pendingSelectionRef.current = null;
+
+    const paragraphs = buildEditorDocument(value, useMarkdown);
+    const keys = paragraphs.map(paragraphKey);
+    const oldKeys = keysRef.current;
+
+    if (dirtyRef.current || root.childNodes.length !== oldKeys.length) {
+      root.replaceChildren(...paragraphs.map(renderParagraph));
+    } else {
+      let prefix = 0;
+      while (prefix < keys.length && prefix < oldKeys.length && keys[prefix] === oldKeys[prefix]) {
+        prefix++;
+      }
+      let suffix = 0;
+      while (
+        suffix < keys.length - prefix && suffix < oldKeys.length - prefix &&
+        keys[keys.length - 1 - suffix] === oldKeys[oldKeys.length - 1 - suffix]
+      ) {
+        suffix++;
+      }
+
+      for (let i = oldKeys.length - suffix - 1; i >= prefix; i--) {
+        root.removeChild(root.childNodes[i]);
+      }
+      const before = root.childNodes[prefix] || null;
+      paragraphs.slice(prefix, paragraphs.length - suffix).forEach(paragraph => {
+        root.insertBefore(renderParagraph(paragraph), before);
+      });
+    }
+
+    paragraphsRef.current = paragraphs;
+    keysRef.current = keys;
+    renderedValueRef.current = value;
+    renderedMarkdownRef.current = useMarkdown;
+    dirtyRef.current = false;
+
+    if (selection && focused) {
+      setSelection(selection.start, selection.end);
+    }
+  }, [value, useMarkdown, compositionVersion, history, getSelection, setSelection]);
+
+  useLayoutEffect(() => {
+    measure();
+  }, [value, useMarkdown, decorations, markers, fontFamily, compositionVersion, measure]);
+
+  // 编辑区宽度变化会改变折行，光标位置需要重新计算
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const observer = new ResizeObserver(() => measure());
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [measure]);
+
+  // 除了输入法组合，所有输入都换算成文本替换，不让浏览器修改DOM
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const handleBeforeInput = (event: InputEvent) => {
+      if (event.isComposing || event.inputType === 'insertCompositionText') return;
+      event.preventDefault();
+      if (readOnlyRef.current) return;
+
+      // 浏览器的撤销记录是空的，由编辑器自己的记录处理
+      if (event.inputType === 'historyUndo' || event.inputType === 'historyRedo') {
+        applyHistory(event.inputType === 'historyUndo' ? 'undo' : 'redo');
+        return;
+      }
+
+      let text: string;
+      if (event.inputType === 'insertParagraph' || event.inputType === 'insertLineBreak') {
+        text = '\n';
+      } else if (event.inputType === 'insertText' || event.inputType === 'insertReplacementText') {
+        text = event.data ?? event.dataTransfer?.getData('text/plain') ?? '';
+      } else if (event.inputType.startsWith('delete') && event.inputType !== 'deleteByDrag') {
+        text = '';
+      } else {
+        // 格式化和拖放会改变DOM结构，不处理
+        return;
+      }
+
+      const target = event.getTargetRanges?.()[0];
+      let start: number;
+      let end: number;
+      if (target) {
+        start = offsetFromPoint(root, paragraphsRef.current, target.startContainer, target.startOffset);
+        end = offsetFromPoint(root, paragraphsRef.current, target.endContainer, target.endOffset);
+      } else {
+        const selection = getSelection();
+        if (!selection) return;
+        ({ start, end } = selection);
+        if (start === end && event.inputType === 'deleteContentBackward') start = Math.max(0, start - 1);
+        if (start === end && event.inputType === 'deleteContentForward') end += 1;
+      }
+
+      replaceRange(start, end, text.replace(/\r\n?/g, '\n'));
+    };
+
+    // 输入法组合中的文字由浏览器写入DOM，从DOM读出最新内容
+    const handleInput = () => {
+      dirtyRef.current = true;
+      const text = readText(root);
+      if (text !== renderedValueRef.current) onChangeRef.current(text, 'input');
+    };
+
+    const handleSelectionChange = () => {
+      if (composingRef.current || document.activeElement !== root) return;
+      const selection = getSelection();
+      if (selection) onSelectionChangeRef.current?.(selection.start, selection.end);
+    };
+
+    root.addEventListener('beforeinput', handleBeforeInput);
+    root.addEventListener('input', handleInput);
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => {
+      root.removeEventListener('beforeinput', handleBeforeInput);
+      root.removeEventListener('input', handleInput);
+      document.removeEventListener('selectionchange', handleSelectionChange);
+    };
+  }, [getSelection, replaceRange, applyHistory]);
+
+  useLayoutEffect(() => {
+    if (!editorRef || !rootRef.current) return;
+
+    const root = rootRef.current;
+    editorRef.current = {
+      element: root,
+      getValue: () => readText(root),
+      getSelection,
+      setSelection,
+      transformHistory: operations => history.transform(operations)
+    };
+    return () => {
+      editorRef.current = null;
+    };
+  }, [editorRef, history, getSelection, setSelection]);
+
+  const handleCompositionStart = () => {
+    composingRef.current = true;
+    onCompositionStart?.();
+  };
+
+  const handleCompositionEnd = () => {
+    composingRef.current = false;
+    const root = rootRef.current;
+    if (root) {
+      dirtyRef.current = true;
+      const text = readText(root);
+      history.record(text);
+      if (text !== renderedValueRef.current) onChange(text, 'input');
+    }
+    // 组合结束后按模型重新渲染，组合中输入的标记才会显示样式
+    setCompositionVersion(version => version + 1);
+    onCompositionEnd?.();
+  };
+
+  // 撤销和重做的快捷键，不等浏览器发出 historyUndo（撤销记录为空时有的浏览器不会发出）
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.nativeEvent.isComposing || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z') {
+      event.preventDefault();
+      applyHistory(event.shiftKey ? 'redo' : 'undo');
+    } else if (key === 'y' && !event.shiftKey) {
+      event.preventDefault();
+      applyHistory('redo');
+    }
+  };
+
+  // 复制和剪切使用纯文本，避免段落元素在剪贴板里变成多余的空行
+  const handleCopy = (event: React.ClipboardEvent<HTMLDivElement>, cut: boolean) => {
+    const selection = getSelection();
+    if (!selection || selection.start === selection.end) return;
+
+    event.preventDefault();
+    const start = Math.min(selection.start, selection.end);
+    const end = Math.max(selection.start, selection.end);
+    event.clipboardData.setData('text/plain', (renderedValueRef.current ?? '').slice(start, end));
+    if (cut && !readOnly) replaceRange(start, end, '');
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const selection = getSelection();
+    if (readOnly || !selection) return;
+    replaceRange(selection.start, selection.end, event.clipboardData.getData('text/plain').replace(/\r\n?/g, '\n'), 'paste');
+  };
+
+  return (
+    <Box
+      ref={containerRef}
+      sx={{
+        position: 'relative',
+        pl: markers ? `${GUTTER_WIDTH}px` : 0,
+        lineHeight: 1.8,
+        fontSize: '1.1rem',
+        fontFamily: `${fontFamily}, sans-serif`,
+        WebkitFontSmoothing: 'antialiased',
+        MozOsxFontSmoothing: 'grayscale',
+        '& .rte-root': {
+          minHeight: 'calc(70vh - 32px)',
+          outline: 'none',
+          whiteSpace: 'pre-wrap',
+          overflowWrap: 'break-word',
+          cursor: readOnly ? 'default' : 'text'
+        },
+        '& .rte-heading': { fontWeight: 'bold', fontSize: '1.15em' },
+        '& .rte-quote': { color: 'text.secondary' },
+        '& .rte-sceneBreak': { textAlign: 'center' },
+        '& .rte-bold': { fontWeight: 'bold' },
+        '& .rte-italic': { fontStyle: 'italic' },
+        '& .rte-strike': { textDecoration: 'line-through' },
+        '& .rte-ruby': { textDecoration: 'underline dotted' },
+        '& .rte-marker': { color: 'text.disabled', fontWeight: 'normal', fontStyle: 'normal' }
+      }}
+    >
+      {!value && placeholder && (
+        <Box sx={{ position: 'absolute', top: 0, left: markers ? GUTTER_WIDTH : 0, color: 'text.disabled', pointerEvents: 'none' }}>
+          {placeholder}
+        </Box>
+      )}
+
+      <div
+        ref={rootRef}
+        className="rte-root"
+        contentEditable={!readOnly}
+        suppressContentEditableWarning
+        spellCheck={false}
+        onCompositionStart={handleCompositionStart}
+        onCompositionEnd={handleCompositionEnd}
+        onKeyDown={handleKeyDown}
+        onCopy={(event) => handleCopy(event, false)}
+        onCut={(event) => handleCopy(event, true)}
+        onPaste={handlePaste}
+        onDrop={(event) => event.preventDefault()}
+      />
+
+      {/* 协作者的光标和选区 */}
+      {rects.map(rect => rect.type === 'caret' ? (
+        showCarets && (
+          <UserCursor
+            key={rect.key}
+            color={rect.color}
+            top={rect.top}
+            left={rect.left}
+            height={rect.height}
+            data-name={rect.name}
+          />
+        )
+      ) : (
+        <UserSelection
+          key={rect.key}
+          color={rect.color}
+          top={rect.top}
+          left={rect.left}
+          width={rect.width}
+          height={rect.height}
+        />
+      ))}
+
+      {/* 标记的下划线和边栏 */}
+      {underlines.map(rect => (
+        <MarkerUnderline key={rect.key} top={rect.top} left={rect.left} width={rect.width} height={rect.height} />
+      ))}
+      {markers && gutterMarks.map(mark => (
+        <Tooltip
+          key={mark.key}
+          placement="left"
+          title={mark.messages.map((message, index) => <div key={index}>{message}</div>)}
+        >
+          <Box
+            component="span"
+            onMouseDown={(event) => event.preventDefault()}
+            onClick={(event) => onMarkerClick?.(mark.ids, event.currentTarget)}
+            sx={{
+              position: 'absolute',
+              left: 6,
+              top: mark.top + mark.height / 2 - 6,
+              minWidth: 12,
+              height: 12,
+              px: mark.ids.length > 1 ? 0.5 : 0,
+              borderRadius: 6,
+              bgcolor: 'warning.main',
+              color: 'warning.contrastText',
+              fontSize: 9,
+              lineHeight: '12px',
+              textAlign: 'center',
+              cursor: onMarkerClick ? 'pointer' : 'default',
+              userSelect: 'none'
+            }}
+          >
+            {mark.ids.length > 1 ? mark.ids.length : null}
+          </Box>
+        </Tooltip>
+      ))}
+    </Box>
+  );
+}
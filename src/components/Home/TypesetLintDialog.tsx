@@ -0,0 +1,118 @@
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import { LINT_RULE_LABELS, LintIssue, LintRule } from '../../services/typesetLint';
+
+interface TypesetLintDialogProps {
+  open: boolean;
+  text: string;
+  issues: LintIssue[];
+  canFix: boolean;
+  onClose: () => void;
+  onFix: (ids: string[]) => void;
+}
+
+const CONTEXT_LENGTH = 10; // 问题前后显示的字数
+const MAX_LISTED = 200; // 问题太多时只列出前面的
+
+// 问题所在位置的上下文，问题本身高亮显示
+function IssueContext({ text, issue }: { text: string; issue: LintIssue }) {
+  const lineStart = text.lastIndexOf('\n', issue.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', issue.end);
+  const from = Math.max(lineStart, issue.start - CONTEXT_LENGTH);
+  const to = Math.min(lineEnd < 0 ? text.length : lineEnd, issue.end + CONTEXT_LENGTH);
+
+  return (
+    <Box component="span" sx={{ fontFamily: 'inherit', whiteSpace: 'pre-wrap' }}>
+      {from > lineStart && '…'}
+      {text.slice(from, issue.start)}
+      <Box component="span" sx={{ bgcolor: 'warning.light', px: issue.start === issue.end ? '1px' : 0 }}>
+        {text.slice(issue.start, issue.end)}
+      </Box>
+      {text.slice(issue.end, to)}
+      {to < (lineEnd < 0 ? text.length : lineEnd) && '…'}
+    </Box>
+  );
+}
+
+// 当前章节的排版问题列表，可以按类别或全部修复
+export default function TypesetLintDialog({ open, text, issues, canFix, onClose, onFix }: TypesetLintDialogProps) {
+  const fixable = issues.filter(issue => issue.fix !== undefined);
+  const rules = (Object.keys(LINT_RULE_LABELS) as LintRule[])
+    .map(rule => ({ rule, issues: issues.filter(issue => issue.rule === rule) }))
+    .filter(group => group.issues.length > 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>排版检查</DialogTitle>
+      <DialogContent dividers>
+        {issues.length === 0 ? (
+          <Typography color="text.secondary">没有发现排版问题</Typography>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {rules.map(group => {
+                const ids = group.issues.filter(issue => issue.fix !== undefined).map(issue => issue.id);
+                return (
+                  <Box key={group.rule} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    <Chip size="small" color="warning" variant="outlined" label={`${LINT_RULE_LABELS[group.rule]} ${group.issues.length}`} />
+                    {ids.length > 0 && (
+                      <Button size="small" onClick={() => onFix(ids)} disabled={!canFix}>修复此类</Button>
+                    )}
+                  </Box>
+                );
+              })}
+            </Box>
+
+            <List dense disablePadding>
+              {issues.slice(0, MAX_LISTED).map(issue => (
+                <ListItem
+                  key={issue.id}
+                  divider
+                  secondaryAction={issue.fix !== undefined && (
+                    <Button size="small" onClick={() => onFix([issue.id])} disabled={!canFix}>修复</Button>
+                  )}
+                >
+                  <ListItemText
+                    primary={<IssueContext text={text} issue={issue} />}
+                    secondary={issue.message}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            {issues.length > MAX_LISTED && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                还有 {issues.length - MAX_LISTED} 处问题没有列出
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {!canFix && issues.length > 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mr: 'auto', ml: 1 }}>
+            开启协作模式并拥有编辑权限后才能修复
+          </Typography>
+        )}
+        <Button onClick={onClose}>关闭</Button>
+        <Button
+          variant="contained"
+          onClick={() => onFix(fixable.map(issue => issue.id))}
+          disabled={!canFix || fixable.length === 0}
+        >
+          全部修复（{fixable.length}）
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
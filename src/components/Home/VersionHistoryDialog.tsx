@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Novel } from '../../store/novelStore';
+import { getNovelText } from '../../services/novelStructure';
+import { NovelSnapshot, SNAPSHOT_REASON_LABELS, listSnapshots } from '../../services/versionHistory';
+import DiffViewer from '../DiffViewer';
+
+interface VersionHistoryDialogProps {
+  open: boolean;
+  novel: Novel;
+  canRestore: boolean;
+  onClose: () => void;
+  onRestore: (snapshot: NovelSnapshot) => Promise<void>;
+}
+
+const CURRENT = 'current'; // 与当前正文比较
+const CONTEXT_LINES = 2; // 修改处前后显示的相同行数
+
+const snapshotLabel = (snapshot: NovelSnapshot) =>
+  `${snapshot.createdAt.toLocaleString()}（${SNAPSHOT_REASON_LABELS[snapshot.reason]}）`;
+
+export default function VersionHistoryDialog({ open, novel, canRestore, onClose, onRestore }: VersionHistoryDialogProps) {
+  const [snapshots, setSnapshots] = useState<NovelSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    listSnapshots(novel.id)
+      .then(items => {
+        setSnapshots(items);
+        setSelectedId(items.length > 0 ? items[0].id : null);
+        setCompareId(CURRENT);
+      })
+      .catch(error => console.error('读取历史版本错误:', error))
+      .finally(() => setLoading(false));
+  }, [open, novel.id]);
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) || null;
+  const compared = snapshots.find(snapshot => snapshot.id === compareId) || null;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!window.confirm(`确定要恢复到 ${selected.createdAt.toLocaleString()} 的版本吗？当前内容会先保存为一个历史版本。`)) return;
+
+    setRestoring(true);
+    try {
+      await onRestore(selected);
+      onClose();
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>历史版本</DialogTitle>
+      <DialogContent dividers sx={{ display: 'flex', gap: 2, height: '70vh', p: 0 }}>
+        {loading ? (
+          <Box sx={{ flexGrow: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+            <CircularProgress />
+          </Box>
+        ) : snapshots.length === 0 ? (
+          <Box sx={{ flexGrow: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+            <Typography color="text.secondary">还没有历史版本，编辑时会定期自动保存</Typography>
+          </Box>
+        ) : (
+          <>
+            {/* 版本列表 */}
+            <List dense sx={{ width: 260, flexShrink: 0, overflow: 'auto', borderRight: '1px solid', borderColor: 'divider' }}>
+              {snapshots.map(snapshot => (
+                <ListItemButton
+                  key={snapshot.id}
+                  selected={snapshot.id === selectedId}
+                  onClick={() => {
+                    setSelectedId(snapshot.id);
+                    if (compareId === snapshot.id) setCompareId(CURRENT);
+                  }}
+                >
+                  <ListItemText
+                    primary={snapshot.createdAt.toLocaleString()}
+                    secondary={`${SNAPSHOT_REASON_LABELS[snapshot.reason]} · ${snapshot.wordCount}字`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            {/* 与当前正文或另一个版本的差异 */}
+            <Box sx={{ flexGrow: 1, minWidth: 0, overflow: 'auto', py: 2, pr: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="对比"
+                value={compareId}
+                onChange={(e) => setCompareId(e.target.value)}
+                sx={{ mb: 2, minWidth: 280 }}
+              >
+                <MenuItem value={CURRENT}>当前内容</MenuItem>
+                {snapshots.filter(snapshot => snapshot.id !== selectedId).map(snapshot => (
+                  <MenuItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</MenuItem>
+                ))}
+              </TextField>
+              {selected && (
+                <DiffViewer
+                  oldText={getNovelText(selected, true)}
+                  newText={getNovelText(compared || novel, true)}
+                  oldLabel={snapshotLabel(selected)}
+                  newLabel={compared ? snapshotLabel(compared) : '当前内容'}
+                  contextLines={CONTEXT_LINES}
+                />
+              )}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+        <Button
+          variant="contained"
+          onClick={handleRestore}
+          disabled={!selected || !canRestore || restoring}
+        >
+          恢复此版本
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { Box, Paper, Tooltip, Typography } from '@mui/material';
+import { LocalFireDepartment as LocalFireDepartmentIcon } from '@mui/icons-material';
+import { useSettingsStore } from '../../store/settingsStore';
+import { useWritingStatsStore } from '../../store/writingStatsStore';
+import { addDays, dateKey, getDayWords, getStreak } from '../../services/writingGoals';
+
+const WEEKS = 18; // 热力图显示的周数
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+
+// 按当天字数和目标的比例分成五级颜色
+function activityLevel(words: number, goal: number): number {
+  if (words <= 0) return 0;
+  const ratio = words / (goal > 0 ? goal : 1000);
+  if (ratio >= 1) return 4;
+  if (ratio >= 0.5) return 3;
+  if (ratio >= 0.25) return 2;
+  return 1;
+}
+
+const LEVEL_COLORS = ['action.hover', '#c6e48b', '#7bc96f', '#239a3b', '#196127'];
+
+// 首页的写作日历：最近几个月每天的字数、连续天数和今天的进度
+export default function WritingActivity() {
+  const days = useWritingStatsStore(state => state.days);
+  const goal = useSettingsStore(state => state.appSettings.dailyGoal) || 0;
+
+  const today = new Date();
+  const todayWords = getDayWords(days, dateKey(today));
+  const streak = getStreak(days, goal, today);
+
+  // 每列一周，从周日开始，最后一列是本周
+  const firstDay = addDays(today, -today.getDay() - (WEEKS - 1) * 7);
+  const weeks = Array.from({ length: WEEKS }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(firstDay, week * 7 + day))
+  );
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, mb: 2, border: '1px solid', borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 1.5 }}>
+        <Typography variant="subtitle1">写作日历</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            今日 <strong>{todayWords}</strong>{goal > 0 ? ` / ${goal}` : ''} 字
+          </Typography>
+          <Tooltip title={goal > 0 ? `连续 ${streak} 天完成每日 ${goal} 字的目标` : `连续 ${streak} 天有写作`}>
+            <Box sx={{ display: 'flex', alignItems: 'center', color: streak > 0 ? 'warning.main' : 'text.disabled' }}>
+              <LocalFireDepartmentIcon fontSize="small" />
+              <Typography variant="body2" sx={{ fontWeight: 'bold' }}>{streak} 天</Typography>
+            </Box>
+          </Tooltip>
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: `${CELL_GAP}px`, overflowX: 'auto' }}>
+        {weeks.map(week => (
+          <Box key={dateKey(week[0])} sx={{ display: 'flex', flexDirection: 'column', gap: `${CELL_GAP}px` }}>
+            {week.map(date => {
+              const key = dateKey(date);
+              const words = getDayWords(days, key);
+              const future = date > today;
+              return (
+                <Tooltip key={key} title={future ? '' : `${key}：${words} 字`} disableInteractive>
+                  <Box
+                    sx={{
+                      width: CELL_SIZE,
+                      height: CELL_SIZE,
+                      borderRadius: '2px',
+                      bgcolor: future ? 'transparent' : LEVEL_COLORS[activityLevel(words, goal)]
+                    }}
+                  />
+                </Tooltip>
+              );
+            })}
+          </Box>
+        ))}
+      </Box>
+    </Paper>
+  );
+}
@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Popover,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { BarChart as BarChartIcon } from '@mui/icons-material';
+import { Novel } from '../../store/novelStore';
+import { formatWordCount, getTextStatistics, sumStatistics } from '../../services/textStatistics';
+
+interface WritingStatisticsProps {
+  novel: Novel;
+  chapterId?: string;
+  content: string; // 正在编辑的章节的最新内容，章节记录中的字数可能还没有更新
+}
+
+// 编辑器下方的字数统计栏，本章字数随输入更新，点击后显示全书的统计
+export default function WritingStatistics({ novel, chapterId, content }: WritingStatisticsProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const chapterStatistics = useMemo(() => getTextStatistics(content), [content]);
+
+  const volumeCounts = novel.volumes.map(volume => ({
+    id: volume.id,
+    title: volume.title,
+    chapters: volume.chapters.length,
+    wordCount: volume.chapters.reduce(
+      (total, chapter) => total + (chapter.id === chapterId ? chapterStatistics.wordCount : chapter.wordCount),
+      0
+    )
+  }));
+  const novelWordCount = volumeCounts.reduce((total, volume) => total + volume.wordCount, 0);
+
+  // 全书的分项统计需要读取每一章，只在打开面板时计算
+  const novelStatistics = useMemo(() => anchorEl ? sumStatistics(
+    novel.volumes.flatMap(volume => volume.chapters).map(chapter =>
+      chapter.id === chapterId ? chapterStatistics : getTextStatistics(chapter.content)
+    )
+  ) : null, [anchorEl, novel.volumes, chapterId, chapterStatistics]);
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mt: 1, gap: 2 }}>
+      <Typography variant="body2" color="text.secondary">
+        本章 <strong>{chapterStatistics.wordCount}</strong> 字 · 汉字 {chapterStatistics.characters} ·
+        英文单词 {chapterStatistics.words} · 标点 {chapterStatistics.punctuation} · 段落 {chapterStatistics.paragraphs}
+      </Typography>
+      <Button size="small" startIcon={<BarChartIcon />} onClick={(e) => setAnchorEl(e.currentTarget)}>
+        全书 {formatWordCount(novelWordCount)}
+      </Button>
+
+      <Popover
+        open={!!anchorEl}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Box sx={{ p: 2, minWidth: 320 }}>
+          <Typography variant="subtitle1" gutterBottom>《{novel.title}》字数统计</Typography>
+          {novelStatistics && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              共 {novelStatistics.wordCount} 字：汉字 {novelStatistics.characters}，英文单词 {novelStatistics.words}，
+              标点 {novelStatistics.punctuation}，段落 {novelStatistics.paragraphs}
+            </Typography>
+          )}
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>卷</TableCell>
+                <TableCell align="right">章节</TableCell>
+                <TableCell align="right">字数</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {volumeCounts.map(volume => (
+                <TableRow key={volume.id}>
+                  <TableCell>{volume.title}</TableCell>
+                  <TableCell align="right">{volume.chapters}</TableCell>
+                  <TableCell align="right">{volume.wordCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      </Popover>
+    </Box>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  FormControlLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Typography,
+  Alert,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import {
+  Backup as BackupIcon,
+  Restore as RestoreIcon
+} from '@mui/icons-material';
+import { useNovelStore } from '../../store/novelStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { getNovelWordCount } from '../../services/novelStructure';
+import { getAllSnapshots, putSnapshots } from '../../services/novelDatabase';
+import { downloadBlob } from '../../services/fileDownload';
+import {
+  BackupConflict,
+  ConflictResolution,
+  WorkspaceBackup,
+  createBackup,
+  findConflicts,
+  mergeBackup,
+  readBackup
+} from '../../services/workspaceBackup';
+
+interface BackupSettingsProps {
+  onNotify: (message: string, severity: 'success' | 'error') => void;
+}
+
+type ImportMode = 'merge' | 'replace';
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  keep: '保留本地',
+  overwrite: '使用备份',
+  copy: '另存为副本'
+};
+
+const formatDate = (date: Date) => new Date(date).toLocaleString('zh-CN');
+
+export default function BackupSettings({ onNotify }: BackupSettingsProps) {
+  const { workspaceLoaded, replaceWorkspace } = useNovelStore();
+  const { replaceSettings } = useSettingsStore();
+  const [busy, setBusy] = useState(false);
+
+  // 待导入的备份
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [conflicts, setConflicts] = useState<BackupConflict[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+
+  // 导出整个工作区，数据库中的历史版本读取失败时不带历史版本导出
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const { novels, characters, friends } = useNovelStore.getState();
+      const { appSettings, novelSettings } = useSettingsStore.getState();
+      const snapshots = await getAllSnapshots().catch(error => {
+        console.error('读取历史版本错误:', error);
+        return [];
+      });
+
+      const blob = createBackup({ novels, characters, friends, appSettings, novelSettings, snapshots });
+      downloadBlob(blob, `写作备份-${new Date().toISOString().slice(0, 10)}.zip`);
+      onNotify(`已导出 ${novels.length} 部小说`, 'success');
+    } catch (error) {
+      console.error('导出工作区错误:', error);
+      onNotify('导出工作区失败', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // 读取并校验备份文件，有ID相同的小说时默认保留较新的一方
+  const handleSelectFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const loaded = await readBackup(file);
+      const found = findConflicts(useNovelStore.getState().novels, loaded);
+      setConflicts(found);
+      setResolutions(Object.fromEntries(found.map(conflict => [
+        conflict.backup.id,
+        new Date(conflict.backup.lastEdited) > new Date(conflict.local.lastEdited) ? 'overwrite' : 'keep'
+      ])));
+      setImportMode('merge');
+      setBackup(loaded);
+    } catch (error) {
+      console.error('读取备份文件错误:', error);
+      onNotify(error instanceof Error ? error.message : '读取备份文件失败', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+
+    setBusy(true);
+    try {
+      if (importMode === 'replace') {
+        replaceWorkspace({ novels: backup.novels, characters: backup.characters, friends: backup.friends });
+        replaceSettings(backup.appSettings, backup.novelSettings);
+        await putSnapshots(backup.snapshots);
+      } else {
+        const { novels, characters, friends } = useNovelStore.getState();
+        const { appSettings, novelSettings } = useSettingsStore.getState();
+        const merged = mergeBackup({ novels, characters, friends, novelSettings }, backup, resolutions);
+        replaceWorkspace({ novels: merged.novels, characters: merged.characters, friends: merged.friends });
+        replaceSettings(appSettings, merged.novelSettings);
+        await putSnapshots(merged.snapshots);
+      }
+      onNotify(importMode === 'replace' ? '已用备份替换工作区' : '已将备份合并到工作区', 'success');
+      setBackup(null);
+    } catch (error) {
+      console.error('导入工作区错误:', error);
+      onNotify('导入工作区失败', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        所有小说、角色、好友、设置和历史版本只保存在当前浏览器中，建议定期导出备份，或用备份迁移到其他设备
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button variant="outlined" startIcon={<BackupIcon />} onClick={handleExport} disabled={busy || !workspaceLoaded}>
+          导出工作区
+        </Button>
+        <Button variant="outlined" component="label" startIcon={<RestoreIcon />} disabled={busy || !workspaceLoaded}>
+          导入工作区
+          <input type="file" accept=".zip,application/zip" hidden onChange={handleSelectFile} />
+        </Button>
+      </Box>
+
+      <Dialog open={!!backup} onClose={() => setBackup(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>导入工作区</DialogTitle>
+        {backup && (
+          <DialogContent dividers>
+            <Typography variant="body2" gutterBottom>
+              备份时间：{formatDate(backup.exportedAt)}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {backup.novels.length} 部小说、{backup.characters.length} 个角色、{backup.friends.length} 位好友、{backup.snapshots.length} 个历史版本
+            </Typography>
+
+            <RadioGroup value={importMode} onChange={(e) => setImportMode(e.target.value as ImportMode)}>
+              <FormControlLabel value="merge" control={<Radio />} label="合并到当前工作区" />
+              <FormControlLabel value="replace" control={<Radio />} label="替换当前工作区" />
+            </RadioGroup>
+
+            {importMode === 'replace' && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                当前所有小说、角色、好友和设置都会被备份中的内容替换，不在备份中的小说将被删除
+              </Alert>
+            )}
+
+            {importMode === 'merge' && conflicts.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle2">以下小说在本地已存在，请选择保留哪一份：</Typography>
+                <List dense>
+                  {conflicts.map(({ local, backup: backupNovel }) => (
+                    <ListItem
+                      key={local.id}
+                      disableGutters
+                      secondaryAction={
+                        <FormControl size="small" sx={{ minWidth: 120 }}>
+                          <Select
+                            value={resolutions[local.id]}
+                            onChange={(e) => setResolutions(prev => ({ ...prev, [local.id]: e.target.value as ConflictResolution }))}
+                          >
+                            {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                              <MenuItem key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      }
+                    >
+                      <ListItemText
+                        primary={local.title === backupNovel.title ? local.title : `${local.title} / ${backupNovel.title}`}
+                        secondary={`本地：${formatDate(local.lastEdited)}，${getNovelWordCount(local)} 字；备份：${formatDate(backupNovel.lastEdited)}，${getNovelWordCount(backupNovel)} 字`}
+                        sx={{ pr: 16 }}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Box>
+            )}
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setBackup(null)}>取消</Button>
+          <Button
+            onClick={handleImport}
+            variant="contained"
+            color={importMode === 'replace' ? 'error' : 'primary'}
+            disabled={busy}
+          >
+            {importMode === 'replace' ? '替换' : '合并'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,49 @@
+import { Box, TextField, Typography } from '@mui/material';
+import { useSettingsStore } from '../../store/settingsStore';
+
+interface GoalSettingsProps {
+  novelId?: string;
+}
+
+// 输入框为空或0表示不设目标
+const parseGoal = (value: string) => {
+  const goal = parseInt(value, 10);
+  return Number.isFinite(goal) && goal > 0 ? goal : undefined;
+};
+
+// 每日字数目标，全局目标按所有小说合计，当前小说可以单独设置目标
+export default function GoalSettings({ novelId }: GoalSettingsProps) {
+  const { appSettings, updateAppSettings, getNovelSettings, updateNovelSettings } = useSettingsStore();
+  const novelGoal = novelId ? getNovelSettings(novelId).dailyGoal : undefined;
+
+  return (
+    <Box>
+      <TextField
+        fullWidth
+        size="small"
+        type="number"
+        label="每日总字数目标"
+        value={appSettings.dailyGoal || ''}
+        onChange={(e) => updateAppSettings({ dailyGoal: parseGoal(e.target.value) })}
+        inputProps={{ min: 0, step: 100 }}
+        helperText="所有小说合计，用于首页的写作日历和连续天数"
+        sx={{ mb: 2 }}
+      />
+      {novelId && (
+        <TextField
+          fullWidth
+          size="small"
+          type="number"
+          label="当前小说每日字数目标"
+          value={novelGoal || ''}
+          onChange={(e) => updateNovelSettings(novelId, { dailyGoal: parseGoal(e.target.value) })}
+          inputProps={{ min: 0, step: 100 }}
+          helperText="设置后编辑器中的进度环显示本书的进度"
+        />
+      )}
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+        只统计自己输入的字数，粘贴的文字和协作者的修改不计入，删除文字会减少当天的字数
+      </Typography>
+    </Box>
+  );
+}
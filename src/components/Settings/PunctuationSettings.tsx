@@ -0,0 +1,132 @@
+import {
+  Box,
+  Button,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useSettingsStore } from '../../store/settingsStore';
+import {
+  DEFAULT_PUNCTUATION_SETTINGS,
+  PunctuationRule,
+  PunctuationSettings as PunctuationConfig,
+  QuoteStyle
+} from '../../services/punctuation';
+
+interface PunctuationSettingsProps {
+  novelId: string;
+}
+
+const QUOTE_STYLE_LABELS: Record<QuoteStyle, string> = {
+  curly: '弯引号 “” ‘’',
+  corner: '直角引号 「」 『』',
+  none: '不转换引号'
+};
+
+// 当前小说的标点转换规则，修改后立即生效
+export default function PunctuationSettings({ novelId }: PunctuationSettingsProps) {
+  const { getNovelSettings, updateNovelSettings } = useSettingsStore();
+  const punctuation = getNovelSettings(novelId).punctuation || DEFAULT_PUNCTUATION_SETTINGS;
+
+  const update = (changes: Partial<PunctuationConfig>) => {
+    updateNovelSettings(novelId, { punctuation: { ...punctuation, ...changes } });
+  };
+
+  const updateRule = (index: number, changes: Partial<PunctuationRule>) => {
+    update({ rules: punctuation.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+  };
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={punctuation.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            color="primary"
+          />
+        }
+        label="自动转换中文标点"
+      />
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5, mb: 2 }}>
+        停止输入一秒后转换刚输入的标点，网址、数字、行内代码和英文句子中的标点保持不变
+      </Typography>
+
+      <FormControl fullWidth variant="outlined" size="small" sx={{ mb: 2 }} disabled={!punctuation.enabled}>
+        <InputLabel id="quote-style-label">引号</InputLabel>
+        <Select
+          labelId="quote-style-label"
+          value={punctuation.quoteStyle}
+          onChange={(e) => update({ quoteStyle: e.target.value as QuoteStyle })}
+          label="引号"
+        >
+          {(Object.keys(QUOTE_STYLE_LABELS) as QuoteStyle[]).map(style => (
+            <MenuItem key={style} value={style}>{QUOTE_STYLE_LABELS[style]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <Typography variant="subtitle2" gutterBottom>转换规则</Typography>
+      {punctuation.rules.map((rule, index) => (
+        <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <TextField
+            size="small"
+            label="输入"
+            value={rule.from}
+            onChange={(e) => updateRule(index, { from: e.target.value })}
+            disabled={!punctuation.enabled}
+            sx={{ width: 96 }}
+          />
+          <Typography color="text.secondary">→</Typography>
+          <TextField
+            size="small"
+            label="转换为"
+            value={rule.to}
+            onChange={(e) => updateRule(index, { to: e.target.value })}
+            disabled={!punctuation.enabled}
+            sx={{ width: 96 }}
+          />
+          <Switch
+            size="small"
+            checked={rule.enabled}
+            onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+            disabled={!punctuation.enabled}
+          />
+          <Tooltip title="删除规则">
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => update({ rules: punctuation.rules.filter((_, i) => i !== index) })}
+                disabled={!punctuation.enabled}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      ))}
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => update({ rules: [...punctuation.rules, { from: '', to: '', enabled: true }] })}
+          disabled={!punctuation.enabled}
+        >
+          添加规则
+        </Button>
+        <Button size="small" onClick={() => updateNovelSettings(novelId, { punctuation: DEFAULT_PUNCTUATION_SETTINGS })}>
+          恢复默认规则
+        </Button>
+      </Box>
+    </Box>
+  );
+}
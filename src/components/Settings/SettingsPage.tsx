@@ -39,12 +39,28 @@ import {
   FormatItalic as FormatItalicIcon,
   FormatListBulleted as FormatListBulletedIcon,
   AutoAwesome as AutoAwesomeIcon,
-  TextFields as TextFieldsIcon
+  TextFields as TextFieldsIcon,
+  Description as DescriptionIcon,
+  Storage as StorageIcon,
+  Translate as TranslateIcon,
+  Flag as FlagIcon
 } from '@mui/icons-material';
 import { ThemeContext } from '../../App';
-import { useSettingsStore } from '../../store/settingsStore';
+import { useSettingsStore, DEFAULT_MANUSCRIPT_FORMAT, ManuscriptFormat } from '../../store/settingsStore';
+import type { DocumentMode } from '../../shared/crdtDocument';
 import { useNovelStore } from '../../store/novelStore';
 import FontSettings from './FontSettings';
+import BackupSettings from './BackupSettings';
+import PunctuationSettings from './PunctuationSettings';
+import GoalSettings from './GoalSettings';
+
+// 导出Word稿件可选的字体和字号
+const manuscriptFonts = ['宋体', '仿宋', '楷体', '黑体', 'Times New Roman'];
+const manuscriptFontSizes = [
+  { value: 10.5, label: '五号（10.5磅）' },
+  { value: 12, label: '小四（12磅）' },
+  { value: 14, label: '四号（14磅）' },
+];
 
 // 主题选项
 const themeOptions = [
@@ -64,6 +80,8 @@ export default function SettingsPage() {
   const [globalAutoSave, setGlobalAutoSave] = useState(appSettings.defaultAutoSave);
   const [globalAutoSaveInterval, setGlobalAutoSaveInterval] = useState(appSettings.defaultAutoSaveInterval / 1000); // 转换为秒
   const [globalUseMarkdown, setGlobalUseMarkdown] = useState(appSettings.defaultUseMarkdown);
+  const [documentMode, setDocumentMode] = useState<DocumentMode>(appSettings.collaborationDocumentMode || 'ot');
+  const [manuscriptFormat, setManuscriptFormat] = useState<ManuscriptFormat>(appSettings.manuscriptFormat || DEFAULT_MANUSCRIPT_FORMAT);
   
   // 当前小说设置状态
   const [novelAutoSave, setNovelAutoSave] = useState(true);
@@ -88,6 +106,8 @@ export default function SettingsPage() {
     setGlobalAutoSave(appSettings.defaultAutoSave);
     setGlobalAutoSaveInterval(appSettings.defaultAutoSaveInterval / 1000);
     setGlobalUseMarkdown(appSettings.defaultUseMarkdown);
+    setDocumentMode(appSettings.collaborationDocumentMode || 'ot');
+    setManuscriptFormat(appSettings.manuscriptFormat || DEFAULT_MANUSCRIPT_FORMAT);
     
     // 如果有当前选择的小说，获取其设置
     if (currentNovel) {
@@ -124,7 +144,9 @@ export default function SettingsPage() {
     updateAppSettings({
       defaultAutoSave: globalAutoSave,
       defaultAutoSaveInterval: globalAutoSaveInterval * 1000, // 转换为毫秒
-      defaultUseMarkdown: globalUseMarkdown
+      defaultUseMarkdown: globalUseMarkdown,
+      collaborationDocumentMode: documentMode,
+      manuscriptFormat
     });
     
     // 如果有当前小说，保存小说特定设置
@@ -171,6 +193,8 @@ export default function SettingsPage() {
         useMarkdown: appSettings.defaultUseMarkdown,
         fontSize: appSettings.defaultFontSize,
         fontFamily: appSettings.defaultFontFamily,
+        punctuation: undefined,
+        dailyGoal: undefined,
       });
     }
   };
@@ -211,6 +235,10 @@ export default function SettingsPage() {
     }
   };
   
+  const updateManuscriptFormat = (changes: Partial<ManuscriptFormat>) => {
+    setManuscriptFormat(prev => ({ ...prev, ...changes }));
+  };
+
   // 当小说自动保存设置变更时，更新锁定状态
   const handleNovelAutoSaveChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.checked;
@@ -348,10 +376,137 @@ export default function SettingsPage() {
                   启用后，所有新小说将默认使用沉浸式编辑模式
                 </Typography>
               </Box>
+              
+              <Box sx={{ mb: 2 }}>
+                <FormControl fullWidth variant="outlined" size="small" sx={{ mb: 1 }}>
+                  <InputLabel id="collaboration-document-mode-label">协作合并方式</InputLabel>
+                  <Select
+                    labelId="collaboration-document-mode-label"
+                    value={documentMode}
+                    onChange={(e) => setDocumentMode(e.target.value as DocumentMode)}
+                    label="协作合并方式"
+                  >
+                    <MenuItem value="ot">实时同步（OT）</MenuItem>
+                    <MenuItem value="crdt">支持离线合并（CRDT）</MenuItem>
+                  </Select>
+                </FormControl>
+                <Typography variant="body2" color="text.secondary">
+                  只对新建的协作会话生效；经常离线编辑、之后再合并时选择CRDT
+                </Typography>
+              </Box>
             </CardContent>
           </Card>
         </Grid>
 
+        <Grid item xs={12} md={6}>
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <DescriptionIcon sx={{ mr: 1, color: 'primary.main' }} />
+                <Typography variant="h6">稿件格式</Typography>
+              </Box>
+              <Divider sx={{ mb: 2 }} />
+              
+              <FormControl fullWidth variant="outlined" size="small" sx={{ mb: 2 }}>
+                <InputLabel id="manuscript-font-label">字体</InputLabel>
+                <Select
+                  labelId="manuscript-font-label"
+                  value={manuscriptFormat.fontFamily}
+                  onChange={(e) => updateManuscriptFormat({ fontFamily: e.target.value })}
+                  label="字体"
+                >
+                  {manuscriptFonts.map(font => (
+                    <MenuItem key={font} value={font} sx={{ fontFamily: font }}>{font}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              
+              <FormControl fullWidth variant="outlined" size="small" sx={{ mb: 2 }}>
+                <InputLabel id="manuscript-font-size-label">字号</InputLabel>
+                <Select
+                  labelId="manuscript-font-size-label"
+                  value={manuscriptFormat.fontSize}
+                  onChange={(e) => updateManuscriptFormat({ fontSize: Number(e.target.value) })}
+                  label="字号"
+                >
+                  {manuscriptFontSizes.map(size => (
+                    <MenuItem key={size.value} value={size.value}>{size.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              
+              <FormControl fullWidth variant="outlined" size="small" sx={{ mb: 2 }}>
+                <InputLabel id="manuscript-line-spacing-label">行距</InputLabel>
+                <Select
+                  labelId="manuscript-line-spacing-label"
+                  value={manuscriptFormat.lineSpacing}
+                  onChange={(e) => updateManuscriptFormat({ lineSpacing: Number(e.target.value) })}
+                  label="行距"
+                >
+                  <MenuItem value={1}>单倍行距</MenuItem>
+                  <MenuItem value={1.5}>1.5 倍行距</MenuItem>
+                  <MenuItem value={2}>2 倍行距</MenuItem>
+                </Select>
+              </FormControl>
+              
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={manuscriptFormat.firstLineIndent}
+                    onChange={(e) => updateManuscriptFormat({ firstLineIndent: e.target.checked })}
+                    color="primary"
+                  />
+                }
+                label="段落首行缩进两字"
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                导出Word时使用的格式，章节标题另起一页
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <StorageIcon sx={{ mr: 1, color: 'primary.main' }} />
+                <Typography variant="h6">数据备份</Typography>
+              </Box>
+              <Divider sx={{ mb: 2 }} />
+              <BackupSettings onNotify={(message, severity) => setSnackbar({ open: true, message, severity })} />
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <FlagIcon sx={{ mr: 1, color: 'primary.main' }} />
+                <Typography variant="h6">每日目标</Typography>
+              </Box>
+              <Divider sx={{ mb: 2 }} />
+              <GoalSettings novelId={currentNovel?.id} />
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {currentNovel && (
+          <Grid item xs={12} md={6}>
+            <Card>
+              <CardContent>
+                <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                  <TranslateIcon sx={{ mr: 1, color: 'primary.main' }} />
+                  <Typography variant="h6">标点转换</Typography>
+                </Box>
+                <Divider sx={{ mb: 2 }} />
+                <PunctuationSettings novelId={currentNovel.id} />
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+
         {currentNovel && (
           <Grid item xs={12}>
             <Card>
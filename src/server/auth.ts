@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+
+// 会话中的角色，邀请令牌决定加入者的角色
+export type SessionRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export const SESSION_ROLES: SessionRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+
+// 令牌内容
+// 邀请令牌没有 uid，可以分享给多人使用；加入会话后服务端签发绑定用户ID的会话令牌，用于该用户重连
+export interface TokenClaims {
+  sid: string; // 会话ID
+  role: SessionRole;
+  exp: number; // 过期时间（毫秒时间戳）
+  uid?: string;
+}
+
+// 令牌校验失败的原因
+export class TokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+export function isSessionRole(role: unknown): role is SessionRole {
+  return typeof role === 'string' && (SESSION_ROLES as string[]).includes(role);
+}
+
+// 只有所有者和编辑者可以修改文档，评论者和只读成员只能查看
+export function canEdit(role: SessionRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+// HMAC-SHA256签名的令牌：base64url(内容).base64url(签名)
+export class TokenSigner {
+  private secret: Buffer;
+
+  constructor(secret: string) {
+    this.secret = Buffer.from(secret);
+  }
+
+  sign(claims: TokenClaims): string {
+    const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${body}.${this.signature(body)}`;
+  }
+
+  // 校验签名、有效期和所属会话，返回令牌内容
+  verify(token: unknown, sessionId?: string): TokenClaims {
+    if (typeof token !== 'string' || !token) {
+      throw new TokenError('缺少邀请令牌');
+    }
+
+    const [body, signature] = token.split('.');
+    if (!body || !signature || !this.matches(signature, this.signature(body))) {
+      throw new TokenError('邀请令牌无效');
+    }
+
+    let claims: TokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new TokenError('邀请令牌无效');
+    }
+
+    if (typeof claims.sid !== 'string' || !isSessionRole(claims.role) || typeof claims.exp !== 'number') {
+      throw new TokenError('邀请令牌无效');
+    }
+    if (claims.exp <= Date.now()) {
+      throw new TokenError('邀请链接已过期');
+    }
+    if (sessionId !== undefined && claims.sid !== sessionId) {
+      throw new TokenError('邀请令牌不属于该会话');
+    }
+    return claims;
+  }
+
+  private signature(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  // 定长比较，避免通过响应时间猜测签名
+  private matches(actual: string, expected: string): boolean {
+    const a = Buffer.from(actual);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
+
+// 从请求头 Authorization: Bearer <token> 中取出令牌
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
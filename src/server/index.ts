@@ -3,9 +3,16 @@ dotenv.config();
 
 import express, { Request, Response } from 'express';
 import http from 'http';
+import path from 'path';
 import { Server, Socket } from 'socket.io';
 import cors from 'cors';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { OperationRecord, TextOperation, applyOperations, transformOperations } from './operations';
+import { PersistedSession, createSessionStore } from './sessionStore';
+import { CrdtDocument, CrdtOperation, DocumentMode } from '../shared/crdtDocument';
+import { SessionRole, TokenClaims, TokenError, TokenSigner, bearerToken, canEdit, isSessionRole } from './auth';
+import { ClientMessage, MessageError, RateLimiter, validateMessage } from './validation';
 
 // 获取环境变量，使用默认值
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3001;
@@ -14,14 +21,40 @@ const SESSION_CLEANUP_INTERVAL = process.env.SESSION_CLEANUP_INTERVAL
   ? parseInt(process.env.SESSION_CLEANUP_INTERVAL) 
   : 1800000; // 默认30分钟
 const MAX_USERS_PER_SESSION = 8; // 限制每个会话最大用户数为8
+const MAX_OPERATION_HISTORY = process.env.MAX_OPERATION_HISTORY
+  ? parseInt(process.env.MAX_OPERATION_HISTORY)
+  : 500; // 每个会话保留的操作记录条数
+const SESSION_STORE = process.env.SESSION_STORE || 'file'; // 会话存储类型: file | memory
+const SESSION_DATA_DIR = process.env.SESSION_DATA_DIR || path.join(process.cwd(), 'data');
+const SESSION_SAVE_DELAY = process.env.SESSION_SAVE_DELAY
+  ? parseInt(process.env.SESSION_SAVE_DELAY)
+  : 2000; // 内容变化后延迟写入存储，合并连续的编辑
+const DEFAULT_DOCUMENT_MODE: DocumentMode = process.env.DEFAULT_DOCUMENT_MODE === 'crdt' ? 'crdt' : 'ot';
+const SERVER_SITE_ID = 'server'; // 服务端代替客户端生成CRDT操作时使用的站点ID
+const INVITE_TOKEN_TTL = process.env.INVITE_TOKEN_TTL
+  ? parseInt(process.env.INVITE_TOKEN_TTL)
+  : 7 * 24 * 3600 * 1000; // 邀请链接默认7天有效
+const MAX_INVITE_TOKEN_TTL = 30 * 24 * 3600 * 1000;
+const SESSION_TOKEN_TTL = process.env.SESSION_TOKEN_TTL
+  ? parseInt(process.env.SESSION_TOKEN_TTL)
+  : 30 * 24 * 3600 * 1000; // 加入后签发的会话令牌默认30天有效
+const MAX_USER_NAME_LENGTH = 32;
+const MAX_MESSAGE_SIZE = process.env.MAX_MESSAGE_SIZE
+  ? parseInt(process.env.MAX_MESSAGE_SIZE)
+  : 1024 * 1024; // 单条消息负载的最大字节数，整篇内容同步也受此限制
+const MAX_OPERATIONS_PER_MESSAGE = 10000; // 离线期间积累的编辑会合并成一条消息发送，上限不能太小
+const RATE_LIMIT_BURST = process.env.RATE_LIMIT_BURST
+  ? parseInt(process.env.RATE_LIMIT_BURST)
+  : 100; // 每个连接短时间内最多连续发送的消息数
+const RATE_LIMIT_PER_SECOND = process.env.RATE_LIMIT_PER_SECOND
+  ? parseInt(process.env.RATE_LIMIT_PER_SECOND)
+  : 50; // 每个连接每秒恢复的可发送消息数
 
-// 定义消息类型
-interface Message {
-  type: string;
-  payload: any;
-  timestamp?: number;
-  messageId?: string;
+// 未配置密钥时每次启动随机生成，重启后已发放的令牌全部失效
+if (!process.env.INVITE_TOKEN_SECRET) {
+  console.warn('未设置 INVITE_TOKEN_SECRET，使用随机密钥，服务器重启后邀请链接将失效');
 }
+const tokenSigner = new TokenSigner(process.env.INVITE_TOKEN_SECRET || crypto.randomBytes(32).toString('hex'));
 
 // 定义用户类型
 interface User {
@@ -29,6 +62,7 @@ interface User {
   name: string;
   color: string;
   status: 'active' | 'away' | 'online' | 'offline';
+  role: SessionRole; // 由加入时使用的令牌决定，所有者可以调整
   lastActive: number;
   socketId?: string; // 与socket.io关联的socketId
   cursorPosition?: {
@@ -55,12 +89,26 @@ interface Session {
   id: string;
   users: User[];
   content: string;
+  revision: number; // 单调递增的文档版本号
+  operations: OperationRecord[]; // 最近的操作记录，按版本升序
+  mode: DocumentMode; // 文档模型，创建会话时确定
+  crdt: CrdtDocument | null; // CRDT模式下的文档，content 为其可见文本
+  roles: Record<string, SessionRole>; // 所有者调整过的成员角色，成员凭会话令牌重新加入时沿用
   lastUpdated: number;
 }
 
+// 修改文档内容的消息类型，需要编辑权限
+const EDIT_MESSAGE_TYPES = ['operation', 'crdt_operation', 'content'];
+// 只涉及发送者自己的在线状态消息，userId 以服务端记录为准
+const PRESENCE_MESSAGE_TYPES = ['cursor', 'selection', 'status', 'activity', 'heartbeat', 'leave'];
+
 // 存储会话信息
 const sessions: Record<string, Session> = {};
 
+// 会话持久化存储
+const sessionStore = createSessionStore(SESSION_STORE, SESSION_DATA_DIR);
+const saveTimers: Record<string, NodeJS.Timeout> = {};
+
 // 创建Express应用
 const app = express();
 app.use(cors());
@@ -76,7 +124,9 @@ const io = new Server(server, {
     methods: ['GET', 'POST'],
     credentials: true,
     allowedHeaders: ['Content-Type', 'Authorization']
-  }
+  },
+  // 超过该大小的数据包直接断开连接，略大于消息上限，使稍大的消息仍能收到错误回复
+  maxHttpBufferSize: MAX_MESSAGE_SIZE * 2
 });
 
 // 生成随机颜色
@@ -90,27 +140,296 @@ function generateRandomColor(): string {
   return colors[Math.floor(Math.random() * colors.length)];
 }
 
+// 创建空会话
+function createSession(sessionId: string, content: string = '', mode: DocumentMode = DEFAULT_DOCUMENT_MODE): Session {
+  return {
+    id: sessionId,
+    users: [],
+    content,
+    revision: 0,
+    operations: [],
+    mode,
+    crdt: mode === 'crdt' ? CrdtDocument.fromText(SERVER_SITE_ID, content) : null,
+    roles: {},
+    lastUpdated: Date.now()
+  };
+}
+
+// 解析客户端请求的文档模型，未指定时使用默认值
+function parseDocumentMode(mode: unknown): DocumentMode {
+  return mode === 'crdt' || mode === 'ot' ? mode : DEFAULT_DOCUMENT_MODE;
+}
+
+// 签发邀请令牌
+function createInviteToken(sessionId: string, role: SessionRole, ttl: number = INVITE_TOKEN_TTL): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + Math.min(ttl, MAX_INVITE_TOKEN_TTL);
+  return { token: tokenSigner.sign({ sid: sessionId, role, exp: expiresAt }), expiresAt };
+}
+
+// 校验请求头中的令牌，失败时直接回复401并返回null
+function authorizeRequest(req: Request, res: Response, sessionId: string): TokenClaims | null {
+  try {
+    return tokenSigner.verify(bearerToken(req.headers.authorization), sessionId);
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      error: error instanceof TokenError ? error.message : '身份验证失败'
+    });
+    return null;
+  }
+}
+
+// 完整的文档快照，CRDT模式下附带文档状态供客户端合并
+function documentSnapshot(session: Session) {
+  return {
+    content: session.content,
+    revision: session.revision,
+    mode: session.mode,
+    ...(session.crdt ? { crdt: session.crdt.getState() } : {})
+  };
+}
+
+// 提取需要持久化的会话字段
+function toPersistedSession(session: Session): PersistedSession {
+  return {
+    id: session.id,
+    content: session.content,
+    revision: session.revision,
+    operations: session.operations,
+    mode: session.mode,
+    crdt: session.crdt ? session.crdt.getState() : undefined,
+    roles: session.roles,
+    lastUpdated: session.lastUpdated
+  };
+}
+
+// 立即保存会话
+async function persistSession(sessionId: string): Promise<void> {
+  if (saveTimers[sessionId]) {
+    clearTimeout(saveTimers[sessionId]);
+    delete saveTimers[sessionId];
+  }
+
+  const session = sessions[sessionId];
+  if (!session) return;
+
+  try {
+    await sessionStore.save(toPersistedSession(session));
+  } catch (error) {
+    console.error(`保存会话失败: ${sessionId}`, error);
+  }
+}
+
+// 延迟保存会话，短时间内的多次修改只写入一次
+function scheduleSave(sessionId: string): void {
+  if (saveTimers[sessionId]) return;
+
+  saveTimers[sessionId] = setTimeout(() => {
+    delete saveTimers[sessionId];
+    persistSession(sessionId);
+  }, SESSION_SAVE_DELAY);
+}
+
+// 从存储中删除会话
+async function evictSession(sessionId: string): Promise<void> {
+  if (saveTimers[sessionId]) {
+    clearTimeout(saveTimers[sessionId]);
+    delete saveTimers[sessionId];
+  }
+  delete sessions[sessionId];
+
+  try {
+    await sessionStore.remove(sessionId);
+  } catch (error) {
+    console.error(`删除会话存储失败: ${sessionId}`, error);
+  }
+}
+
+// 启动时从存储恢复会话，已过期的会话直接清理
+async function loadSessions(): Promise<void> {
+  const now = Date.now();
+  const storedSessions = await sessionStore.loadAll();
+  let restored = 0;
+
+  for (const stored of storedSessions) {
+    if (now - stored.lastUpdated > SESSION_CLEANUP_INTERVAL) {
+      console.log(`清理过期的已保存会话: ${stored.id}`);
+      await evictSession(stored.id);
+      continue;
+    }
+
+    const mode = stored.mode || 'ot';
+    sessions[stored.id] = {
+      ...stored,
+      users: [],
+      mode,
+      roles: stored.roles || {},
+      crdt: mode === 'crdt'
+        ? new CrdtDocument(SERVER_SITE_ID, stored.crdt || CrdtDocument.fromText(SERVER_SITE_ID, stored.content).getState())
+        : null
+    };
+    restored++;
+  }
+
+  console.log(`已从存储恢复 ${restored} 个会话`);
+}
+
+// 获取某个版本之后的操作记录，历史已被裁剪时返回null
+function getOperationsSince(session: Session, sinceRevision: number): OperationRecord[] | null {
+  if (sinceRevision > session.revision) {
+    return null;
+  }
+  if (sinceRevision === session.revision) {
+    return [];
+  }
+
+  const oldest = session.operations.length > 0 ? session.operations[0].revision : session.revision + 1;
+  if (sinceRevision < oldest - 1) {
+    return null;
+  }
+
+  return session.operations.filter(record => record.revision > sinceRevision);
+}
+
+// 将基于baseRevision生成的操作转换到最新版本并提交
+// 返回新的操作记录；基准版本已不在历史中时返回null，需要客户端重新同步
+function commitOperations(
+  session: Session,
+  userId: string,
+  operations: TextOperation[],
+  baseRevision: number,
+  clientOperationId?: string,
+  replayed: boolean = false
+): OperationRecord | null {
+  const concurrent = getOperationsSince(session, baseRevision);
+  if (!concurrent) {
+    return null;
+  }
+
+  // 以服务端记录的用户为准，避免客户端冒用他人ID影响并发插入的先后
+  let transformed = operations.map(op => ({ ...op, userId }));
+  for (const record of concurrent) {
+    transformed = transformOperations(transformed, record.operations)[0];
+  }
+
+  session.content = applyOperations(session.content, transformed);
+  session.revision += 1;
+  session.lastUpdated = Date.now();
+
+  const record: OperationRecord = {
+    revision: session.revision,
+    userId,
+    operations: transformed,
+    timestamp: session.lastUpdated,
+    ...(clientOperationId ? { clientOperationId } : {}),
+    ...(replayed ? { replayed } : {})
+  };
+
+  session.operations.push(record);
+  if (session.operations.length > MAX_OPERATION_HISTORY) {
+    session.operations.splice(0, session.operations.length - MAX_OPERATION_HISTORY);
+  }
+
+  scheduleSave(session.id);
+  return record;
+}
+
+// 合并客户端发来的CRDT操作，操作可以乱序或重复到达
+// CRDT模式不保存操作记录，客户端追赶时直接合并完整的文档状态
+function commitCrdtOperations(session: Session, operations: CrdtOperation[]): number {
+  session.crdt!.applyRemote(operations);
+  session.content = session.crdt!.getText();
+  session.revision += 1;
+  session.lastUpdated = Date.now();
+
+  scheduleSave(session.id);
+  return session.revision;
+}
+
 // Socket.IO连接处理
 io.on('connection', (socket: Socket) => {
   console.log('新连接:', socket.id);
   let currentUser: User | null = null;
   let currentSessionId: string | null = null;
+  const rateLimiter = new RateLimiter(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND);
+  let rateLimited = false; // 已经通知过发送者被限流，恢复之前不再重复通知
+  
+  // 只回复发送者的错误消息，被拒绝的编辑带上 rejectedOperationId 供客户端从队列中移除
+  const sendError = (code: string, error: string, details: { messageType?: string; rejectedOperationId?: string } = {}) => {
+    socket.emit('message', {
+      type: 'error',
+      payload: {
+        code,
+        error,
+        ...(details.messageType ? { messageType: details.messageType } : {}),
+        ...(details.rejectedOperationId ? { rejectedOperationId: details.rejectedOperationId } : {})
+      },
+      timestamp: Date.now(),
+      messageId: uuidv4()
+    });
+  };
+  
+  // 消耗发送额度，超出时只在第一次通知发送者
+  // 被限流的编辑和同步请求每次都要回复：编辑带上 rejectedOperationId，客户端据此移出队列，稍后请求同步撤销本地修改
+  const checkRateLimit = (messageType?: string, rejectedOperationId?: string): boolean => {
+    if (rateLimiter.take()) {
+      rateLimited = false;
+      return true;
+    }
+    
+    if (!rateLimited) {
+      console.warn(`连接 ${socket.id} 发送消息过于频繁`);
+    }
+    if (!rateLimited || rejectedOperationId || messageType === 'request_sync') {
+      sendError('rate_limited', '发送过于频繁，请稍后再试', { messageType, rejectedOperationId });
+    }
+    rateLimited = true;
+    return false;
+  };
 
   // 处理加入会话
-  socket.on('join', (data: { sessionId: string; userId: string; userName: string }) => {
+  socket.on('join', (data: { sessionId: string; userId: string; userName: string; mode?: DocumentMode; token?: string }) => {
     try {
-      const { sessionId, userId, userName } = data;
+      const { sessionId, userId } = data;
+      const userName = typeof data.userName === 'string' ? data.userName.trim().slice(0, MAX_USER_NAME_LENGTH) : '';
       console.log(`用户 ${userName} (${userId}) 尝试加入会话 ${sessionId}`);
       
-      // 创建或获取会话
+      if (typeof sessionId !== 'string' || !sessionId || typeof userId !== 'string' || !userId || !userName) {
+        socket.emit('connection_ack', {
+          success: false,
+          error: '加入会话的参数无效'
+        });
+        return;
+      }
+      
+      // 校验邀请令牌或会话令牌
+      let claims: TokenClaims;
+      try {
+        claims = tokenSigner.verify(data.token, sessionId);
+      } catch (error) {
+        console.warn(`用户 ${userId} 的令牌校验失败:`, error instanceof Error ? error.message : error);
+        socket.emit('connection_ack', {
+          success: false,
+          error: error instanceof TokenError ? error.message : '身份验证失败'
+        });
+        return;
+      }
+      
+      // 会话令牌只能由签发时的用户使用；凭邀请令牌不能顶替在线的用户
+      const existingUser = sessions[sessionId]?.users.find(u => u.id === userId);
+      if ((claims.uid && claims.uid !== userId) || (!claims.uid && existingUser)) {
+        socket.emit('connection_ack', {
+          success: false,
+          error: '用户身份验证失败'
+        });
+        return;
+      }
+      
+      // 创建或获取会话（持有有效令牌说明会话曾由服务器创建，例如重启后内存存储的会话）
       if (!sessions[sessionId]) {
         console.log(`创建新会话: ${sessionId}`);
-        sessions[sessionId] = {
-          id: sessionId,
-          users: [],
-          content: '',
-          lastUpdated: Date.now()
-        };
+        sessions[sessionId] = createSession(sessionId, '', parseDocumentMode(data.mode));
+        scheduleSave(sessionId);
       }
 
       const session = sessions[sessionId];
@@ -142,6 +461,9 @@ io.on('connection', (socket: Socket) => {
       // 查找现有用户
       const existingUserIndex = session.users.findIndex(u => u.id === userId);
       
+      // 会话令牌重新加入时沿用所有者调整后的角色，邀请令牌按令牌中的角色加入
+      const role = (claims.uid && session.roles[userId]) || claims.role;
+      
       // 创建用户对象
       const userColor = generateRandomColor();
       const user: User = {
@@ -149,6 +471,7 @@ io.on('connection', (socket: Socket) => {
         name: userName,
         color: userColor,
         status: 'active',
+        role,
         lastActive: Date.now(),
         socketId: socket.id
       };
@@ -188,17 +511,19 @@ io.on('connection', (socket: Socket) => {
         type: 'sync',
         payload: {
           users: sessions[sessionId].users,
-          content: sessions[sessionId].content
+          ...documentSnapshot(sessions[sessionId])
         },
         timestamp: Date.now(),
         messageId: uuidv4()
       });
 
-      // 确认连接成功
+      // 确认连接成功，附带绑定该用户的会话令牌供重连使用
       socket.emit('connection_ack', { 
         success: true, 
         sessionId, 
         userId,
+        role: user.role,
+        sessionToken: tokenSigner.sign({ sid: sessionId, uid: userId, role: user.role, exp: Date.now() + SESSION_TOKEN_TTL }),
         message: '成功加入会话'
       });
       
@@ -215,14 +540,77 @@ io.on('connection', (socket: Socket) => {
   });
 
   // 处理消息
-  socket.on('message', (message: Message) => {
+  socket.on('message', (rawMessage: unknown) => {
+    // 校验之前先取出类型和客户端消息ID，格式错误的编辑也要告知客户端从队列中移除
+    const raw = typeof rawMessage === 'object' && rawMessage !== null ? rawMessage as Record<string, any> : {};
+    const messageType: string | undefined = typeof raw.type === 'string' ? raw.type : undefined;
+    const clientOperationId: string | undefined = typeof raw.payload?.clientOperationId === 'string'
+      ? raw.payload.clientOperationId
+      : undefined;
+    
     try {
       if (!currentSessionId || !currentUser) {
-        console.error('用户未加入会话');
+        sendError('not_joined', '尚未加入会话', { messageType });
         return;
       }
       
       const session = sessions[currentSessionId];
+      const isEdit = !!messageType && EDIT_MESSAGE_TYPES.includes(messageType);
+      
+      // 需要重新同步的客户端，直接发送完整内容；被拒绝的消息告知客户端从队列中移除
+      const sendResync = () => {
+        socket.emit('message', {
+          type: 'sync',
+          payload: {
+            users: session.users,
+            ...documentSnapshot(session),
+            ...(clientOperationId ? { rejectedOperationId: clientOperationId } : {})
+          },
+          timestamp: Date.now(),
+          messageId: uuidv4()
+        });
+      };
+      
+      // 拒绝一条消息，被拒绝的编辑还要发送完整内容让客户端撤销本地的修改
+      const reject = (code: string, error: string) => {
+        sendError(code, error, { messageType, rejectedOperationId: isEdit ? clientOperationId : undefined });
+        if (isEdit) {
+          sendResync();
+        }
+      };
+      
+      // 被限流时不发送整篇内容，否则频繁发送的客户端每条编辑都会换来一份完整快照
+      if (!checkRateLimit(messageType, isEdit ? clientOperationId : undefined)) {
+        return;
+      }
+      
+      let message: ClientMessage;
+      try {
+        message = validateMessage(rawMessage, {
+          maxMessageSize: MAX_MESSAGE_SIZE,
+          maxOperations: MAX_OPERATIONS_PER_MESSAGE
+        });
+      } catch (error) {
+        if (!(error instanceof MessageError)) throw error;
+        console.warn(`用户 ${currentUser.id} 的 ${messageType} 消息校验失败: ${error.message}`);
+        reject(error.code, error.message);
+        return;
+      }
+      
+      // 角色可能被所有者调整过，以会话中的记录为准
+      const role = session.users.find(u => u.id === currentUser!.id)?.role ?? currentUser.role;
+      
+      // 评论者和只读成员的编辑直接拒绝
+      if (isEdit && !canEdit(role)) {
+        console.warn(`用户 ${currentUser.id} 的角色为 ${role}，拒绝 ${message.type} 消息`);
+        reject('forbidden', '当前角色没有编辑权限');
+        return;
+      }
+      
+      // 在线状态只能报告自己的
+      if (PRESENCE_MESSAGE_TYPES.includes(message.type)) {
+        message.payload.userId = currentUser.id;
+      }
       
       // 为消息添加ID和时间戳
       const enrichedMessage = {
@@ -230,25 +618,152 @@ io.on('connection', (socket: Socket) => {
         timestamp: Date.now(),
         messageId: uuidv4()
       };
+      const replayed = message.payload.replayed === true;
       
       // 处理特定类型的消息
       switch (message.type) {
-        case 'operation':
-          if (message.payload.operation?.type === 'sync' && message.payload.operation?.content) {
-            // 更新会话内容
-            session.content = message.payload.operation.content;
-            session.lastUpdated = Date.now();
+        case 'operation': {
+          // CRDT会话不接受基于位置的操作，让客户端按快照里的模式重新同步
+          if (session.mode !== 'ot') {
+            console.warn(`会话 ${session.id} 使用 ${session.mode} 模式，忽略用户 ${currentUser.id} 的OT操作`);
+            sendResync();
+            return;
+          }
+          
+          // 断线前已经提交过的消息只回复确认，不重复应用
+          const committed = clientOperationId
+            ? session.operations.find(record => record.clientOperationId === clientOperationId)
+            : undefined;
+          if (committed) {
+            socket.emit('message', {
+              type: 'operation',
+              payload: {
+                userId: committed.userId,
+                operations: committed.operations,
+                revision: committed.revision,
+                clientOperationId,
+                ...(committed.replayed ? { replayed: true } : {})
+              },
+              timestamp: Date.now(),
+              messageId: uuidv4()
+            });
+            return;
+          }
+          
+          const operations: TextOperation[] = message.payload.operations;
+          const baseRevision = typeof message.payload.baseRevision === 'number'
+            ? message.payload.baseRevision
+            : session.revision;
+          
+          // 转换到最新版本后提交，广播带版本号的结果
+          const record = commitOperations(session, currentUser.id, operations, baseRevision, clientOperationId, replayed);
+          if (!record) {
+            console.warn(`用户 ${currentUser.id} 的基准版本 ${baseRevision} 已过期，要求重新同步`);
+            sendResync();
+            return;
+          }
+          
+          enrichedMessage.payload = {
+            userId: record.userId,
+            operations: record.operations,
+            revision: record.revision,
+            clientOperationId,
+            ...(replayed ? { replayed } : {})
+          };
+          break;
+        }
+          
+        case 'crdt_operation': {
+          if (session.mode !== 'crdt') {
+            console.warn(`会话 ${session.id} 不是CRDT模式，要求用户 ${currentUser.id} 重新同步`);
+            sendResync();
+            return;
           }
+          
+          // 广播合并后的版本号，发送者收到自己的消息即视为确认
+          const revision = commitCrdtOperations(session, message.payload.operations);
+          enrichedMessage.payload = {
+            userId: currentUser.id,
+            operations: message.payload.operations,
+            revision,
+            clientOperationId,
+            ...(replayed ? { replayed } : {})
+          };
           break;
+        }
           
         case 'content':
-          if (message.payload.content !== undefined) {
-            // 更新会话内容
-            session.content = message.payload.content;
+          if (message.payload.content !== undefined && session.crdt) {
+            // CRDT会话把整篇替换转换成CRDT操作广播，保证各副本仍然可以合并
+            const operations = session.crdt.applyLocal([{
+              type: 'sync',
+              userId: currentUser.id,
+              content: message.payload.content
+            }]);
+            session.content = session.crdt.getText();
+            session.revision += 1;
             session.lastUpdated = Date.now();
+            scheduleSave(session.id);
+            
+            enrichedMessage.type = 'crdt_operation';
+            enrichedMessage.payload = {
+              userId: SERVER_SITE_ID,
+              operations,
+              revision: session.revision
+            };
+          } else if (message.payload.content !== undefined) {
+            // 整篇内容替换也作为一个版本记录，便于其他客户端按版本追赶
+            const record = commitOperations(session, currentUser.id, [{
+              type: 'sync',
+              userId: currentUser.id,
+              content: message.payload.content
+            }], session.revision);
+            if (record) {
+              enrichedMessage.payload = { ...message.payload, revision: record.revision };
+            }
           }
           break;
           
+        case 'set_role': {
+          // 只有所有者可以调整其他成员的角色，所有者身份不能转让
+          if (role !== 'owner') {
+            sendError('forbidden', '只有会话所有者可以调整角色', { messageType });
+            return;
+          }
+          
+          const target = session.users.find(u => u.id === message.payload?.userId);
+          const newRole = message.payload?.role;
+          if (!target || target.id === currentUser.id || !isSessionRole(newRole) || newRole === 'owner') {
+            sendError('invalid_role', '无法调整该成员的角色', { messageType });
+            return;
+          }
+          
+          target.role = newRole;
+          session.roles[target.id] = newRole;
+          scheduleSave(session.id);
+          console.log(`用户 ${currentUser.id} 将 ${target.id} 的角色调整为 ${newRole}`);
+          
+          enrichedMessage.type = 'role';
+          enrichedMessage.payload = {
+            userId: target.id,
+            role: newRole,
+            changedBy: currentUser.id
+          };
+          break;
+        }
+          
+        case 'request_users':
+          // 只把用户列表发回给请求者
+          socket.emit('message', {
+            type: 'sync',
+            payload: {
+              users: session.users
+            },
+            timestamp: Date.now(),
+            messageId: uuidv4()
+          });
+          return;
+          
         case 'cursor':
           if (message.payload.userId && currentUser) {
             // 更新用户光标位置
@@ -297,6 +812,15 @@ io.on('connection', (socket: Socket) => {
             }
           }
           break;
+          
+        case 'heartbeat': {
+          // 心跳只刷新活跃时间，不需要广播
+          const user = session.users.find(u => u.id === currentUser!.id);
+          if (user) {
+            user.lastActive = Date.now();
+          }
+          return;
+        }
       }
       
       // 广播消息给所有会话成员
@@ -304,32 +828,43 @@ io.on('connection', (socket: Socket) => {
       
     } catch (error) {
       console.error('处理消息错误:', error);
+      sendError('internal_error', '处理消息失败', { messageType });
     }
   });
 
-  // 处理请求同步
-  socket.on('request_sync', () => {
+  // 处理请求同步，带上sinceRevision时只补发该版本之后的操作
+  socket.on('request_sync', (data?: { sinceRevision?: number }) => {
     try {
       if (!currentSessionId || !currentUser) {
-        console.error('用户未加入会话');
+        sendError('not_joined', '尚未加入会话', { messageType: 'request_sync' });
+        return;
+      }
+      if (!checkRateLimit('request_sync')) return;
+      
+      const sinceRevision = data?.sinceRevision;
+      if (sinceRevision !== undefined && (!Number.isInteger(sinceRevision) || sinceRevision < 0)) {
+        sendError('invalid_payload', 'sinceRevision 必须是非负整数', { messageType: 'request_sync' });
         return;
       }
       
       const session = sessions[currentSessionId];
+      const records = sinceRevision !== undefined && session.mode === 'ot'
+        ? getOperationsSince(session, sinceRevision)
+        : null;
       
       // 发送同步消息
       socket.emit('message', {
         type: 'sync',
-        payload: {
-          users: session.users,
-          content: session.content
-        },
+        payload: records
+          ? { users: session.users, operations: records, revision: session.revision }
+          : { users: session.users, ...documentSnapshot(session) },
         timestamp: Date.now(),
         messageId: uuidv4()
       });
       
     } catch (error) {
       console.error('请求同步错误:', error);
+      sendError('internal_error', '同步失败', { messageType: 'request_sync' });
     }
   });
 
@@ -368,10 +903,9 @@ io.on('connection', (socket: Socket) => {
           });
         }
         
-        // 如果会话没有用户了，考虑清理会话
+        // 如果会话没有用户了，立即保存快照；会话内容保留到清理任务按过期时间移除
         if (session.users.length === 0) {
-          // 保留会话内容一段时间以便于重连
-          // 实际应用中可以设置一个定时器来清理长时间无人的会话
+          persistSession(session.id);
         }
       }
     } catch (error) {
@@ -381,23 +915,29 @@ io.on('connection', (socket: Socket) => {
 });
 
 // API路由
-// 创建一个新会话
+// 创建一个新会话，返回创建者使用的所有者令牌
 app.post('/api/sessions', (req: Request, res: Response) => {
   try {
     const sessionId = req.body.sessionId || `session_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
     
-    if (!sessions[sessionId]) {
-      sessions[sessionId] = {
-        id: sessionId,
-        users: [],
-        content: req.body.content || '',
-        lastUpdated: Date.now()
-      };
+    // 已存在的会话只能通过邀请加入
+    if (sessions[sessionId]) {
+      return res.status(409).json({
+        success: false,
+        error: '会话已存在，请通过邀请链接加入'
+      });
     }
     
+    sessions[sessionId] = createSession(sessionId, req.body.content || '', parseDocumentMode(req.body.mode));
+    scheduleSave(sessionId);
+    
+    const { token, expiresAt } = createInviteToken(sessionId, 'owner', SESSION_TOKEN_TTL);
     res.status(201).json({ 
       success: true, 
-      sessionId 
+      sessionId,
+      mode: sessions[sessionId].mode,
+      token,
+      expiresAt
     });
   } catch (error) {
     console.error('创建会话错误:', error);
@@ -408,10 +948,50 @@ app.post('/api/sessions', (req: Request, res: Response) => {
   }
 });
 
-// 获取会话信息
+// 为会话签发邀请令牌，只有所有者可以邀请
+app.post('/api/sessions/:sessionId/invites', (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const claims = authorizeRequest(req, res, sessionId);
+    if (!claims) return;
+    
+    if (claims.role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        error: '只有会话所有者可以邀请成员'
+      });
+    }
+    
+    const role: SessionRole = req.body.role === undefined ? 'editor' : req.body.role;
+    if (!isSessionRole(role) || role === 'owner') {
+      return res.status(400).json({
+        success: false,
+        error: '邀请的角色无效'
+      });
+    }
+    
+    const ttl = typeof req.body.expiresIn === 'number' && req.body.expiresIn > 0 ? req.body.expiresIn : INVITE_TOKEN_TTL;
+    const { token, expiresAt } = createInviteToken(sessionId, role, ttl);
+    res.status(201).json({
+      success: true,
+      token,
+      role,
+      expiresAt
+    });
+  } catch (error) {
+    console.error('创建邀请错误:', error);
+    res.status(500).json({
+      success: false,
+      error: '创建邀请失败'
+    });
+  }
+});
+
+// 获取会话信息，需要该会话的令牌
 app.get('/api/sessions/:sessionId', (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
+    if (!authorizeRequest(req, res, sessionId)) return;
     
     if (!sessions[sessionId]) {
       return res.status(404).json({ 
@@ -427,6 +1007,8 @@ app.get('/api/sessions/:sessionId', (req: Request, res: Response) => {
       session: {
         id: session.id,
         userCount: session.users.length,
+        revision: session.revision,
+        mode: session.mode,
         lastUpdated: session.lastUpdated
       }
     });
@@ -451,7 +1033,7 @@ setInterval(() => {
       const session = sessions[sessionId];
       if (session.users.length === 0 && (now - session.lastUpdated) > SESSION_CLEANUP_INTERVAL) {
         console.log(`清理过期会话: ${sessionId}, 最后更新: ${new Date(session.lastUpdated).toISOString()}`);
-        delete sessions[sessionId];
+        evictSession(sessionId);
         cleanedSessions++;
       }
     }
@@ -482,9 +1064,30 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
-// 启动服务器
-server.listen(PORT, () => {
-  console.log(`协作WebSocket服务器运行在端口 ${PORT}`);
-  console.log(`CORS策略: ${CORS_ORIGIN}`);
-  console.log(`会话清理间隔: ${SESSION_CLEANUP_INTERVAL}ms`);
-}); 
\ No newline at end of file
+// 进程退出前写入所有待保存的会话（PM2重启会发送SIGINT）
+async function shutdown(signal: string): Promise<void> {
+  console.log(`收到 ${signal}，保存会话后退出...`);
+  try {
+    await Promise.all(Object.keys(sessions).map(sessionId => persistSession(sessionId)));
+  } catch (error) {
+    console.error('退出前保存会话出错:', error);
+  }
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+// 恢复会话后启动服务器
+loadSessions()
+  .catch(error => {
+    console.error('恢复会话失败:', error);
+  })
+  .finally(() => {
+    server.listen(PORT, () => {
+      console.log(`协作WebSocket服务器运行在端口 ${PORT}`);
+      console.log(`CORS策略: ${CORS_ORIGIN}`);
+      console.log(`会话清理间隔: ${SESSION_CLEANUP_INTERVAL}ms`);
+      console.log(`会话存储: ${SESSION_STORE} (${SESSION_DATA_DIR})`);
+    });
+  }); 
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { TextOperation, transformOperations } from '../shared/operationTransform';
+
+// 文本操作和转换与前端共用 src/shared 中的实现
+export type { TextOperation };
+export { transformOperations };
+
+// 操作记录，每条记录对应一个文档版本
+export interface OperationRecord {
+  revision: number;
+  userId: string;
+  operations: TextOperation[];
+  timestamp: number;
+  clientOperationId?: string; // 客户端队列中的消息ID，用于确认和重放去重
+  replayed?: boolean; // 刷新页面或重新加入前留下的编辑，不是发送者当前操作的确认
+}
+
+// 应用文本操作到内容
+export function applyOperation(content: string, operation: TextOperation): string {
+  if (operation.type === 'insert' && operation.text && operation.position !== undefined) {
+    const position = Math.min(Math.max(operation.position, 0), content.length);
+    return content.substring(0, position) + operation.text + content.substring(position);
+  }
+  if (operation.type === 'delete' && operation.length && operation.position !== undefined) {
+    const position = Math.min(Math.max(operation.position, 0), content.length);
+    return content.substring(0, position) + content.substring(position + operation.length);
+  }
+  if (operation.type === 'sync' && operation.content !== undefined) {
+    return operation.content;
+  }
+  return content;
+}
+
+// 依次应用多个操作
+export function applyOperations(content: string, operations: TextOperation[]): string {
+  return operations.reduce(applyOperation, content);
+}
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileSessionStore, PersistedSession } from './sessionStore';
+
+const session = (content: string): PersistedSession => ({
+  id: 'session/1',
+  content,
+  revision: content.length,
+  operations: [],
+  lastUpdated: 0
+});
+
+describe('FileSessionStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('同一会话的并发保存依次写入，保留最后一次的内容', async () => {
+    const store = new FileSessionStore(directory);
+    await Promise.all(['a', 'ab', 'abc', 'abcd'].map(content => store.save(session(content))));
+
+    const [loaded] = await store.loadAll();
+    expect(loaded.content).toBe('abcd');
+    expect(await fs.readdir(directory)).toHaveLength(1);
+  });
+
+  it('保存之后的删除不会被排在前面的保存恢复', async () => {
+    const store = new FileSessionStore(directory);
+    const saved = store.save(session('内容'));
+    await Promise.all([saved, store.remove('session/1')]);
+
+    expect(await store.loadAll()).toEqual([]);
+  });
+
+  it('一次保存失败不影响之后的保存', async () => {
+    const store = new FileSessionStore(directory);
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('磁盘已满'));
+
+    const failed = store.save(session('坏数据'));
+    const saved = store.save(session('好数据'));
+
+    await expect(failed).rejects.toThrow('磁盘已满');
+    await saved;
+    expect((await store.loadAll())[0].content).toBe('好数据');
+  });
+});
@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OperationRecord } from './operations';
+import { CrdtDocumentState, DocumentMode } from '../shared/crdtDocument';
+import type { SessionRole } from './auth';
+
+// 持久化的会话快照，不包含在线用户等运行时状态
+export interface PersistedSession {
+  id: string;
+  content: string;
+  revision: number;
+  operations: OperationRecord[];
+  mode?: DocumentMode; // 旧版本保存的会话没有该字段，按 ot 处理
+  crdt?: CrdtDocumentState;
+  roles?: Record<string, SessionRole>; // 所有者调整过的成员角色，按用户ID保存
+  lastUpdated: number;
+}
+
+// 会话存储接口，可替换为其他后端实现
+export interface SessionStore {
+  loadAll(): Promise<PersistedSession[]>;
+  save(session: PersistedSession): Promise<void>;
+  remove(sessionId: string): Promise<void>;
+}
+
+// 基于文件的会话存储，每个会话一个JSON文件
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+  private writes = new Map<string, Promise<void>>(); // 每个会话最后一次排队的写入
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  // 同一会话的保存和删除依次执行，避免并发写入争用临时文件，或较早的快照覆盖较新的
+  private enqueue(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(sessionId) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.writes.set(sessionId, current);
+
+    const cleanup = () => {
+      if (this.writes.get(sessionId) === current) this.writes.delete(sessionId);
+    };
+    current.then(cleanup, cleanup);
+    return current;
+  }
+
+  private filePath(sessionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+
+  async loadAll(): Promise<PersistedSession[]> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const files = await fs.readdir(this.directory);
+    const sessions: PersistedSession[] = [];
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const data = await fs.readFile(path.join(this.directory, file), 'utf-8');
+        const session = JSON.parse(data) as PersistedSession;
+        if (session && typeof session.id === 'string' && typeof session.content === 'string') {
+          sessions.push({
+            id: session.id,
+            content: session.content,
+            revision: session.revision || 0,
+            operations: Array.isArray(session.operations) ? session.operations : [],
+            ...(session.mode ? { mode: session.mode } : {}),
+            ...(session.crdt ? { crdt: session.crdt } : {}),
+            ...(session.roles ? { roles: session.roles } : {}),
+            lastUpdated: session.lastUpdated || Date.now()
+          });
+        }
+      } catch (error) {
+        console.error(`读取会话文件失败: ${file}`, error);
+      }
+    }
+
+    return sessions;
+  }
+
+  async save(session: PersistedSession): Promise<void> {
+    // 调用时就序列化，排队期间会话继续变化也不影响这次保存的内容
+    const data = JSON.stringify(session);
+
+    return this.enqueue(session.id, async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      // 先写临时文件再重命名，避免进程中断时留下半个文件；临时文件带上进程ID，多个进程共用目录时互不覆盖
+      const target = this.filePath(session.id);
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, data, 'utf-8');
+      await fs.rename(temp, target);
+    });
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    return this.enqueue(sessionId, async () => {
+      try {
+        await fs.unlink(this.filePath(sessionId));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    });
+  }
+}
+
+// 仅保存在内存中的会话存储，重启后丢失，用于开发调试
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, PersistedSession>();
+
+  async loadAll(): Promise<PersistedSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async save(session: PersistedSession): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+// 根据配置创建会话存储
+export function createSessionStore(type: string, directory: string): SessionStore {
+  switch (type) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+      return new FileSessionStore(directory);
+    default:
+      console.warn(`未知的会话存储类型: ${type}，使用文件存储`);
+      return new FileSessionStore(directory);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_DELETE_IDS } from '../shared/crdtDocument';
+import { MessageError, RateLimiter, ValidationLimits, validateMessage } from './validation';
+
+const LIMITS: ValidationLimits = { maxMessageSize: 1024, maxOperations: 3 };
+
+// 校验失败时返回错误代码
+function rejectCode(message: unknown, limits: ValidationLimits = LIMITS): string | null {
+  try {
+    validateMessage(message, limits);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(MessageError);
+    return (error as MessageError).code;
+  }
+}
+
+describe('validateMessage', () => {
+  it('接受格式正确的编辑', () => {
+    const message = validateMessage({
+      type: 'operation',
+      payload: { operations: [{ type: 'insert', userId: 'alice', position: 0, text: '你好' }], baseRevision: 2 }
+    }, LIMITS);
+    expect(message.type).toBe('operation');
+    expect(message.payload.baseRevision).toBe(2);
+  });
+
+  it('拒绝未知类型和格式错误的消息', () => {
+    expect(rejectCode(null)).toBe('invalid_message');
+    expect(rejectCode({ type: 'shutdown' })).toBe('unknown_type');
+    expect(rejectCode({ type: 'cursor', payload: [] })).toBe('invalid_payload');
+    expect(rejectCode({ type: 'cursor', payload: { position: -1, line: 0, column: 0 } })).toBe('invalid_payload');
+    expect(rejectCode({ type: 'operation', payload: { operations: [{ type: 'delete', position: 1 }] } })).toBe('invalid_payload');
+  });
+
+  it('按字节数限制消息大小', () => {
+    // 中文字符按UTF-8计算，每个3个字节
+    expect(rejectCode({ type: 'content', payload: { content: '字'.repeat(330) } })).toBeNull();
+    expect(rejectCode({ type: 'content', payload: { content: '字'.repeat(400) } })).toBe('payload_too_large');
+  });
+
+  it('限制一条消息中的操作数', () => {
+    const insert = { type: 'insert', userId: 'alice', position: 0, text: 'a' };
+    expect(rejectCode({ type: 'operation', payload: { operations: [insert, insert, insert] } })).toBeNull();
+    expect(rejectCode({ type: 'operation', payload: { operations: [insert, insert, insert, insert] } })).toBe('invalid_payload');
+  });
+
+  it('限制一个CRDT删除操作中的字符数', () => {
+    const limits = { maxMessageSize: 10 * 1024 * 1024, maxOperations: 10 };
+    const ids = (count: number) => Array.from({ length: count }, (_, clock) => ({ site: 'a', clock }));
+
+    expect(rejectCode({ type: 'crdt_operation', payload: { operations: [{ type: 'delete', ids: ids(MAX_DELETE_IDS) }] } }, limits)).toBeNull();
+    expect(rejectCode({ type: 'crdt_operation', payload: { operations: [{ type: 'delete', ids: ids(MAX_DELETE_IDS + 1) }] } }, limits))
+      .toBe('invalid_payload');
+  });
+
+  it('拒绝格式错误的 clientOperationId', () => {
+    expect(rejectCode({ type: 'heartbeat', payload: { clientOperationId: 'x'.repeat(200) } })).toBe('invalid_payload');
+  });
+});
+
+describe('RateLimiter', () => {
+  it('连续发送超过上限后拒绝，按时间恢复额度', () => {
+    const limiter = new RateLimiter(3, 2);
+    const start = Date.now();
+
+    expect([1, 2, 3, 4].map(() => limiter.take(start))).toEqual([true, true, true, false]);
+    expect(limiter.take(start + 400)).toBe(false);
+    expect(limiter.take(start + 500)).toBe(true);
+    expect(limiter.take(start + 500)).toBe(false);
+  });
+
+  it('额度最多积累到上限', () => {
+    const limiter = new RateLimiter(2, 10);
+    const start = Date.now();
+
+    expect(limiter.take(start + 60 * 1000)).toBe(true);
+    expect(limiter.take(start + 60 * 1000)).toBe(true);
+    expect(limiter.take(start + 60 * 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { MAX_DELETE_IDS } from '../shared/crdtDocument';
+
+// 协作消息的格式校验和发送频率限制
+
+// 校验失败的原因，code 原样回复给客户端
+export class MessageError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'MessageError';
+    this.code = code;
+  }
+}
+
+// 客户端可以发送的消息
+export interface ClientMessage {
+  type: string;
+  payload: Record<string, any>;
+}
+
+export interface ValidationLimits {
+  maxMessageSize: number; // 消息序列化后的最大字节数
+  maxOperations: number; // 一条消息中的最大操作数
+}
+
+const USER_STATUSES = ['active', 'away', 'online', 'offline'];
+const TEXT_OPERATION_TYPES = ['insert', 'delete', 'sync', 'retry'];
+const MAX_ID_LENGTH = 128;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+// 光标位置 { position, line, column }
+function isCursorPosition(value: unknown): boolean {
+  return isObject(value) && isCount(value.position) && isCount(value.line) && isCount(value.column);
+}
+
+function isTextOperation(value: unknown): boolean {
+  if (!isObject(value) || !TEXT_OPERATION_TYPES.includes(value.type)) return false;
+
+  switch (value.type) {
+    case 'insert':
+      return isCount(value.position) && typeof value.text === 'string';
+    case 'delete':
+      return isCount(value.position) && isCount(value.length);
+    case 'sync':
+      return typeof value.content === 'string';
+    default:
+      return true;
+  }
+}
+
+function isCharId(value: unknown): boolean {
+  return isObject(value) && isId(value.site) && isCount(value.clock);
+}
+
+function isCrdtOperation(value: unknown): boolean {
+  if (!isObject(value)) return false;
+
+  if (value.type === 'insert') {
+    return isCharId(value.id) && (value.origin === null || isCharId(value.origin)) && typeof value.text === 'string';
+  }
+  if (value.type === 'delete') {
+    return Array.isArray(value.ids) && value.ids.every(isCharId);
+  }
+  return false;
+}
+
+// 各类消息的负载格式，返回错误说明，格式正确时返回null
+const payloadValidators: Record<string, (payload: Record<string, any>, limits: ValidationLimits) => string | null> = {
+  operation: (payload, limits) => {
+    if (!Array.isArray(payload.operations) || payload.operations.length === 0) return 'operations 必须是非空数组';
+    if (payload.operations.length > limits.maxOperations) return `一条消息最多包含 ${limits.maxOperations} 个操作`;
+    if (!payload.operations.every(isTextOperation)) return 'operations 中包含格式错误的操作';
+    if (payload.baseRevision !== undefined && !isCount(payload.baseRevision)) return 'baseRevision 必须是非负整数';
+    return null;
+  },
+  crdt_operation: (payload, limits) => {
+    if (!Array.isArray(payload.operations)) return 'operations 必须是数组';
+    if (payload.operations.length > limits.maxOperations) return `一条消息最多包含 ${limits.maxOperations} 个操作`;
+    if (!payload.operations.every(isCrdtOperation)) return 'operations 中包含格式错误的CRDT操作';
+    // 合并删除时逐个定位字符，标识过多会长时间占用服务器
+    if (payload.operations.some((operation: Record<string, any>) => operation.type === 'delete' && operation.ids.length > MAX_DELETE_IDS)) {
+      return `一个删除操作最多包含 ${MAX_DELETE_IDS} 个字符`;
+    }
+    return null;
+  },
+  content: payload => typeof payload.content === 'string' ? null : 'content 必须是字符串',
+  cursor: payload => isCursorPosition(payload) ? null : '光标位置必须包含非负整数 position、line、column',
+  selection: payload =>
+    isCursorPosition(payload.start) && isCursorPosition(payload.end) ? null : '选择区域必须包含 start 和 end 位置',
+  status: payload => USER_STATUSES.includes(payload.status) ? null : `status 必须是 ${USER_STATUSES.join(' / ')} 之一`,
+  activity: payload => typeof payload.type === 'string' && payload.type.length <= 32 ? null : 'type 必须是不超过32个字符的字符串',
+  heartbeat: () => null,
+  leave: () => null,
+  request_users: () => null,
+  set_role: payload => isId(payload.userId) && typeof payload.role === 'string' ? null : 'set_role 必须包含 userId 和 role'
+};
+
+// 校验消息的类型、大小和负载格式，不通过时抛出 MessageError
+export function validateMessage(message: unknown, limits: ValidationLimits): ClientMessage {
+  if (!isObject(message) || typeof message.type !== 'string') {
+    throw new MessageError('invalid_message', '消息格式错误');
+  }
+
+  const validate = payloadValidators[message.type];
+  if (!validate) {
+    throw new MessageError('unknown_type', `不支持的消息类型: ${message.type.slice(0, 32)}`);
+  }
+
+  const payload = message.payload === undefined ? {} : message.payload;
+  if (!isObject(payload)) {
+    throw new MessageError('invalid_payload', 'payload 必须是对象');
+  }
+
+  const size = Buffer.byteLength(JSON.stringify(payload));
+  if (size > limits.maxMessageSize) {
+    throw new MessageError('payload_too_large', `消息大小 ${size} 字节超过上限 ${limits.maxMessageSize} 字节`);
+  }
+
+  const error = validate(payload, limits);
+  if (error) {
+    throw new MessageError('invalid_payload', error);
+  }
+
+  if (payload.clientOperationId !== undefined && !isId(payload.clientOperationId)) {
+    throw new MessageError('invalid_payload', 'clientOperationId 格式错误');
+  }
+
+  return { type: message.type, payload };
+}
+
+// 令牌桶限流：最多积累 burst 个令牌，每秒恢复 perSecond 个，每条消息消耗一个
+export class RateLimiter {
+  private burst: number;
+  private perSecond: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(burst: number, perSecond: number) {
+    this.burst = burst;
+    this.perSecond = perSecond;
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+  }
+
+  // 消耗一个令牌，没有令牌时返回false
+  take(now: number = Date.now()): boolean {
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) / 1000 * this.perSecond);
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
@@ -0,0 +1,280 @@
+import { HostDelivery, LocalSessionHost } from './sessionHost';
+import type { SessionRole } from '../types/Collaboration';
+import type {
+  CollaborationMessage,
+  JoinRequest,
+  JoinResult,
+  Transport,
+  TransportMessageHandler,
+  TransportStatusHandler
+} from './transport';
+
+const CHANNEL_NAME = (sessionId: string) => `smalltown_writer_session_${sessionId}`;
+const LOCK_NAME = (sessionId: string) => `smalltown_writer_session_${sessionId}`;
+const BACKLOG_KEY = (sessionId: string) => `smalltown_writer_backlog_${sessionId}`;
+const SEQUENCE_KEY = (sessionId: string) => `smalltown_writer_sequence_${sessionId}`;
+
+const MAX_BACKLOG = 200; // 保留的广播条数，落后更多的标签页只能跳过，由版本号发现缺口后重新同步
+const ACTIVITY_CHECK_INTERVAL = 10 * 1000;
+
+// 带会话内序号的广播消息
+interface SequencedMessage {
+  seq: number;
+  message: CollaborationMessage;
+}
+
+// 标签页加入的一个会话：处理自己发出的消息，按序号接收所有标签页的广播
+class TabSession {
+  private sessionId: string;
+  private host: LocalSessionHost;
+  private userId: string;
+  private deliver: TransportMessageHandler;
+  private channel: BroadcastChannel | null = null;
+  private active: boolean = false;
+  private lastSeq: number = 0; // 已经投递的最大序号
+  private early = new Map<number, CollaborationMessage>(); // 先于前面序号到达的消息
+  private tasks: Promise<void> = Promise.resolve(); // 本标签页的处理顺序
+
+  constructor(request: JoinRequest, deliver: TransportMessageHandler) {
+    this.sessionId = request.sessionId;
+    this.userId = request.userId;
+    this.host = new LocalSessionHost(localStorage, request.sessionId);
+    this.deliver = deliver;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  async join(request: JoinRequest): Promise<JoinResult> {
+    let result: JoinResult = { success: false };
+
+    await this.runExclusive(() => {
+      const joined = this.host.join(request);
+      result = joined.result;
+      if (!result.success) return;
+
+      // 只接收加入之后的广播
+      this.lastSeq = this.readSequence();
+      this.active = true;
+      this.listen();
+      this.dispatch(joined.deliveries);
+    });
+
+    return result;
+  }
+
+  // 离开会话，离开消息只需要通知其他标签页
+  leave(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    this.early.clear();
+    this.runExclusive(() => {
+      this.host.leave(this.userId).forEach(delivery => {
+        if (delivery.target === 'all') this.publish(delivery.message);
+      });
+    }).finally(() => this.stopListening());
+  }
+
+  send(message: CollaborationMessage): void {
+    if (!this.active) return;
+    this.runExclusive(() => this.dispatch(this.host.handle(this.userId, message)));
+  }
+
+  checkActivity(): void {
+    if (!this.active) return;
+    this.runExclusive(() => this.dispatch(this.host.checkActivity()));
+  }
+
+  // 按调用顺序依次执行，支持Web Locks时同一会话的所有标签页互斥，避免同时修改会话状态
+  private runExclusive(task: () => void): Promise<void> {
+    const run = () => {
+      try {
+        task();
+      } catch (error) {
+        console.error('处理协作消息错误:', error);
+      }
+    };
+
+    this.tasks = this.tasks.then(() => navigator.locks
+      ? navigator.locks.request(LOCK_NAME(this.sessionId), run)
+      : run());
+    return this.tasks;
+  }
+
+  // 回复只交给自己，广播分配序号后发给所有标签页（包括自己）
+  private dispatch(deliveries: HostDelivery[]): void {
+    deliveries.forEach(delivery => {
+      if (delivery.target === 'sender') {
+        this.deliver(delivery.message);
+      } else {
+        this.accept(this.publish(delivery.message));
+      }
+    });
+  }
+
+  // 分配序号并写入积压队列，之后再通知其他标签页，保证对方缺号时可以从队列补齐
+  private publish(message: CollaborationMessage): SequencedMessage {
+    const sequenced: SequencedMessage = { seq: this.readSequence() + 1, message };
+
+    try {
+      const backlog = [...this.readBacklog(), sequenced].slice(-MAX_BACKLOG);
+      localStorage.setItem(BACKLOG_KEY(this.sessionId), JSON.stringify(backlog));
+      localStorage.setItem(SEQUENCE_KEY(this.sessionId), sequenced.seq.toString());
+    } catch (error) {
+      console.error('写入消息积压队列错误:', error);
+    }
+
+    try {
+      this.channel?.postMessage(sequenced);
+    } catch (error) {
+      console.error('广播消息错误:', error);
+    }
+    return sequenced;
+  }
+
+  // 按序号投递，重复的丢弃，提前到达的暂存并从积压队列补齐前面的
+  private accept(sequenced: SequencedMessage): void {
+    if (!this.active || sequenced.seq <= this.lastSeq) return;
+
+    if (sequenced.seq > this.lastSeq + 1) {
+      this.early.set(sequenced.seq, sequenced.message);
+      this.recoverFromBacklog();
+      return;
+    }
+
+    this.lastSeq = sequenced.seq;
+    this.deliver(sequenced.message);
+    this.drainEarly();
+  }
+
+  private drainEarly(): void {
+    while (this.active && this.early.has(this.lastSeq + 1)) {
+      this.lastSeq += 1;
+      const message = this.early.get(this.lastSeq)!;
+      this.early.delete(this.lastSeq);
+      this.deliver(message);
+    }
+  }
+
+  // 从积压队列补齐缺少的消息，已经被裁剪掉的只能跳过
+  private recoverFromBacklog(): void {
+    this.readBacklog()
+      .filter(item => item.seq > this.lastSeq && !this.early.has(item.seq))
+      .forEach(item => this.early.set(item.seq, item.message));
+    this.drainEarly();
+
+    if (this.active && this.early.size > 0) {
+      const next = Math.min(...this.early.keys());
+      console.warn(`消息 ${this.lastSeq + 1} - ${next - 1} 已不在积压队列中，跳过`);
+      this.lastSeq = next - 1;
+      this.drainEarly();
+    }
+  }
+
+  private listen(): void {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME(this.sessionId));
+      this.channel.onmessage = (event: MessageEvent<SequencedMessage>) => this.accept(event.data);
+    } else {
+      console.warn('当前浏览器不支持BroadcastChannel，改用storage事件同步');
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+  }
+
+  private stopListening(): void {
+    this.channel?.close();
+    this.channel = null;
+    window.removeEventListener('storage', this.handleStorageEvent);
+  }
+
+  // 其他标签页写入积压队列时触发，只在没有BroadcastChannel时使用
+  private handleStorageEvent = (event: StorageEvent) => {
+    if (event.key === BACKLOG_KEY(this.sessionId)) {
+      this.recoverFromBacklog();
+    }
+  };
+
+  private readSequence(): number {
+    return parseInt(localStorage.getItem(SEQUENCE_KEY(this.sessionId)) || '0', 10);
+  }
+
+  private readBacklog(): SequencedMessage[] {
+    try {
+      const json = localStorage.getItem(BACKLOG_KEY(this.sessionId));
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('读取消息积压队列错误:', error);
+      return [];
+    }
+  }
+}
+
+// 同一浏览器的标签页之间协作，不需要服务器
+// 会话状态保存在localStorage里，每个标签页用本地主机处理自己发出的消息：
+// - 处理过程在Web Locks互斥锁内进行，多个标签页不会同时修改会话状态
+// - 每条广播分配递增的序号并先写入积压队列，再通过BroadcastChannel通知其他标签页
+// - 接收方按序号依次投递，发现缺号时从积压队列补齐，连续的快速编辑不会丢失
+// 不支持BroadcastChannel的浏览器退回到监听积压队列的storage事件
+export class BroadcastChannelTransport implements Transport {
+  private session: TabSession | null = null;
+  private activityTimer: number | null = null;
+  private messageHandler: TransportMessageHandler | null = null;
+
+  public isConnected(): boolean {
+    return !!this.session?.isActive();
+  }
+
+  public setMessageHandler(handler: TransportMessageHandler | null): void {
+    this.messageHandler = handler;
+  }
+
+  // 同一浏览器内不会意外断开，没有状态变化需要通知
+  public setStatusHandler(_handler: TransportStatusHandler | null): void {}
+
+  public async connect(request: JoinRequest): Promise<JoinResult> {
+    if (this.session) {
+      this.disconnect();
+    }
+
+    const session = new TabSession(request, message => this.receive(message));
+    const result = await session.join(request);
+    if (!result.success) return result;
+
+    this.session = session;
+
+    // 检查成员活动状态，由各个标签页轮流完成
+    this.activityTimer = window.setInterval(() => session.checkActivity(), ACTIVITY_CHECK_INTERVAL);
+    return result;
+  }
+
+  public disconnect(): void {
+    if (!this.session) return;
+
+    this.session.leave();
+    this.session = null;
+
+    if (this.activityTimer) {
+      window.clearInterval(this.activityTimer);
+      this.activityTimer = null;
+    }
+  }
+
+  // 同一浏览器内的会话不校验令牌，直接分享会话链接即可
+  public async createInvite(_sessionId: string, _role: SessionRole, _ownerToken: string | null): Promise<string | null> {
+    return null;
+  }
+
+  public send(message: CollaborationMessage): void {
+    this.session?.send(message);
+  }
+
+  private receive(message: CollaborationMessage): void {
+    try {
+      this.messageHandler?.(message);
+    } catch (error) {
+      console.error('消息处理错误:', error);
+    }
+  }
+}
@@ -0,0 +1,496 @@
+import type { TextOperation } from './collaborationService';
+import type { CrdtDocumentState, CrdtOperation, DocumentMode } from '../shared/crdtDocument';
+import { OperationQueue, QueueChangeHandler, QueuedMessage } from './operationQueue';
+import { getInviteToken, getSessionToken, saveInviteToken, saveSessionToken } from './sessionTokens';
+import type { CollaborationMessage, Transport } from './transport';
+import { SessionRole, UserStatus } from '../types/Collaboration';
+
+export type MessageHandler = (message: any) => void;
+export type ConnectionStatusChangeHandler = (connected: boolean) => void;
+export type { QueueChangeHandler };
+
+// 加入会话时收到的完整文档
+export interface DocumentSnapshot {
+  content: string;
+  revision: number;
+  mode: DocumentMode;
+  crdt?: CrdtDocumentState;
+}
+
+const USER_NAME_PREFIX = '用户';
+const USER_COUNTER_KEY = (sessionId: string) => `smalltown_writer_counter_${sessionId}`;
+const RESYNC_DELAY = 1000; // 被限流后等发送额度恢复再请求同步
+
+// 协作客户端，编辑器只通过它参与协作，消息经由可替换的传输层收发
+// 负责待发送队列、版本跟踪和断线后的追赶，传输层只负责把消息送达
+export class CollaborationClient {
+  private transport: Transport;
+  private connected: boolean = false;
+  private sessionId: string | null = null; // 断开后保留，重新加入同一会话时据此补发错过的版本
+  private userId: string = ''; // 断开后保留，断线期间的编辑仍以它标记来源
+  private messageHandlers: MessageHandler[] = [];
+  private connectionStatusChangeHandlers: ConnectionStatusChangeHandler[] = [];
+  private queueChangeHandlers: QueueChangeHandler[] = [];
+  private operationQueue: OperationQueue | null = null; // 等待确认的编辑，断线时保留到重连后重放
+  private lastRevision: number | null = null; // 最近收到的文档版本
+  private snapshot: DocumentSnapshot | null = null;
+  private awaitingSnapshot: boolean = false; // 加入会话后的第一条同步消息带有完整快照
+  private preferredMode: DocumentMode = 'ot'; // 创建新会话时使用的文档模型
+  private lastError: string | null = null;
+  private role: SessionRole | null = null; // 会话分配的角色，不校验令牌的传输方式为null
+  private resyncTimer: number | null = null; // 等待请求整篇同步
+
+  constructor(transport: Transport) {
+    this.transport = transport;
+    this.transport.setMessageHandler(message => this.receiveMessage(message));
+    this.transport.setStatusHandler(connected => this.handleStatusChange(connected));
+  }
+
+  // 检查连接状态
+  public isConnected(): boolean {
+    return this.connected && this.transport.isConnected();
+  }
+
+  // 获取当前会话ID
+  public getSessionId(): string | null {
+    return this.connected ? this.sessionId : null;
+  }
+
+  // 获取当前用户ID
+  public getUserId(): string {
+    return this.userId;
+  }
+
+  // 最近一次连接失败的原因
+  public getLastError(): string | null {
+    return this.lastError;
+  }
+
+  // 获取在当前会话中的角色
+  public getRole(): SessionRole | null {
+    return this.connected ? this.role : null;
+  }
+
+  // 生成会话内不重复的用户名
+  public generateUserName(sessionId: string): string {
+    try {
+      const storedCounter = localStorage.getItem(USER_COUNTER_KEY(sessionId));
+      const counter = storedCounter ? parseInt(storedCounter, 10) : 1;
+      localStorage.setItem(USER_COUNTER_KEY(sessionId), (counter + 1).toString());
+      return `${USER_NAME_PREFIX}${counter}`;
+    } catch (error) {
+      console.error('生成用户名错误:', error);
+      // 发生错误时返回带随机数的用户名
+      return `${USER_NAME_PREFIX}${Math.floor(Math.random() * 10000)}`;
+    }
+  }
+
+  // 加入会话，成功后可以通过 getDocumentSnapshot 获取会话当前的文档
+  public async connect(sessionId: string, userId: string, userName: string): Promise<boolean> {
+    if (this.isConnected() && this.sessionId === sessionId && this.userId === userId) {
+      return true;
+    }
+
+    if (this.connected) {
+      this.disconnect();
+    }
+
+    // 切换会话时加载对应的待发送队列，刷新前未确认的编辑也在其中
+    if (this.sessionId !== sessionId) {
+      this.lastRevision = null;
+      this.operationQueue = new OperationQueue(sessionId, size => this.notifyQueueChange(size));
+      this.notifyQueueChange(this.operationQueue.size());
+    }
+
+    this.sessionId = sessionId;
+    this.userId = userId;
+    this.snapshot = null;
+    this.awaitingSnapshot = true;
+    this.lastError = null;
+
+    // 优先使用之前签发给该用户的会话令牌，其次是邀请链接里的令牌
+    const token = getSessionToken(sessionId, userId) || getInviteToken(sessionId) || undefined;
+    const result = await this.transport.connect({ sessionId, userId, userName, mode: this.preferredMode, token });
+    if (!result.success) {
+      this.awaitingSnapshot = false;
+      this.lastError = result.error || null;
+      this.notifyConnectionStatusChange(false);
+      return false;
+    }
+
+    if (result.inviteToken) {
+      saveInviteToken(sessionId, result.inviteToken);
+    }
+    if (result.sessionToken) {
+      saveSessionToken(sessionId, userId, result.sessionToken);
+    }
+    this.role = result.role ?? null;
+    this.connected = true;
+    this.notifyConnectionStatusChange(true);
+
+    // 等调用方根据快照建立好文档后再追赶和重放
+    window.setTimeout(() => this.resume(), 0);
+    return true;
+  }
+
+  // 断开连接，待发送队列保留到下次加入同一会话
+  public disconnect(): void {
+    if (!this.connected) return;
+
+    this.sendUserLeaving(this.userId);
+    this.transport.disconnect();
+    this.connected = false;
+    this.awaitingSnapshot = false;
+    this.notifyConnectionStatusChange(false);
+  }
+
+  // 传输层断线或自动重新加入
+  private handleStatusChange(connected: boolean): void {
+    if (!this.connected) return;
+
+    if (connected) {
+      this.notifyConnectionStatusChange(true);
+      this.resume();
+    } else {
+      this.awaitingSnapshot = true;
+      this.notifyConnectionStatusChange(false);
+    }
+  }
+
+  // 重新加入后补上错过的版本，再按顺序重放未确认的编辑
+  private resume(): void {
+    if (!this.isConnected()) return;
+
+    if (this.lastRevision !== null) {
+      this.requestSync(this.lastRevision);
+    }
+    this.flushQueue();
+  }
+
+  // 生成邀请链接，需要签发令牌的传输方式只有所有者可以邀请
+  public async createInviteLink(role: SessionRole = 'editor'): Promise<string> {
+    if (!this.sessionId || !this.connected) {
+      throw new Error('尚未加入协作会话');
+    }
+
+    const link = `${window.location.origin}/collaborate/${this.sessionId}`;
+    const ownerToken = getSessionToken(this.sessionId, this.userId) || getInviteToken(this.sessionId);
+    const token = await this.transport.createInvite(this.sessionId, role, ownerToken);
+    return token ? `${link}?token=${encodeURIComponent(token)}` : link;
+  }
+
+  // 获取加入会话时收到的文档快照
+  public getDocumentSnapshot(): DocumentSnapshot | null {
+    return this.snapshot;
+  }
+
+  // 获取会话的文档模型，尚未加入会话时返回创建会话使用的模型
+  public getDocumentMode(): DocumentMode {
+    return this.snapshot?.mode ?? this.preferredMode;
+  }
+
+  // 设置创建新会话时使用的文档模型，已存在的会话不受影响
+  public setDocumentMode(mode: DocumentMode): void {
+    this.preferredMode = mode;
+  }
+
+  // 获取最近收到的文档版本
+  public getRevision(): number | null {
+    return this.lastRevision;
+  }
+
+  private send(message: CollaborationMessage): void {
+    if (!this.isConnected()) return;
+
+    try {
+      this.transport.send(message);
+    } catch (error) {
+      console.error('发送消息错误:', error);
+    }
+  }
+
+  // 接收消息
+  private receiveMessage(message: CollaborationMessage): void {
+    const payload = message.payload || {};
+
+    this.acknowledgeQueued(message);
+
+    // 编辑或同步请求被限流时会话不发送完整内容，稍后请求整篇同步撤销被拒绝的本地修改
+    if (message.type === 'error' && payload.code === 'rate_limited' &&
+        (payload.rejectedOperationId || payload.messageType === 'request_sync')) {
+      this.scheduleResync();
+    }
+
+    if (this.awaitingSnapshot && message.type === 'sync' && payload.content !== undefined) {
+      this.awaitingSnapshot = false;
+      this.snapshot = {
+        content: payload.content,
+        revision: payload.revision,
+        mode: payload.mode === 'crdt' ? 'crdt' : 'ot',
+        ...(payload.crdt ? { crdt: payload.crdt } : {})
+      };
+
+      // 重新加入同一会话时由 resume 按版本追赶，编辑器不需要用整篇快照覆盖本地
+      if (this.lastRevision !== null) {
+        if (payload.users) {
+          this.dispatch({ ...message, payload: { users: payload.users } });
+        }
+        return;
+      }
+    }
+
+    // 记录版本号，用于重连后的增量同步
+    if (typeof payload.revision === 'number') {
+      this.lastRevision = payload.revision;
+    }
+
+    // 所有者调整了自己的角色
+    if (message.type === 'role' && payload.userId === this.userId) {
+      this.role = payload.role;
+    }
+
+    this.dispatch(message);
+  }
+
+  private dispatch(message: CollaborationMessage): void {
+    this.messageHandlers.forEach(handler => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error('消息处理错误:', error);
+      }
+    });
+  }
+
+  // 监听消息
+  public onMessage(handler: MessageHandler): void {
+    this.messageHandlers.push(handler);
+  }
+
+  // 移除消息监听
+  public offMessage(handler: MessageHandler): void {
+    this.messageHandlers = this.messageHandlers.filter(h => h !== handler);
+  }
+
+  // 添加连接状态变化处理器
+  public onConnectionStatusChange(handler: ConnectionStatusChangeHandler): void {
+    this.connectionStatusChangeHandlers.push(handler);
+  }
+
+  // 移除连接状态变化处理器
+  public offConnectionStatusChange(handler: ConnectionStatusChangeHandler): void {
+    this.connectionStatusChangeHandlers = this.connectionStatusChangeHandlers.filter(h => h !== handler);
+  }
+
+  // 通知连接状态变化
+  private notifyConnectionStatusChange(connected: boolean): void {
+    this.connectionStatusChangeHandlers.forEach(handler => {
+      try {
+        handler(connected);
+      } catch (error) {
+        console.error('连接状态变化处理器执行错误', error);
+      }
+    });
+  }
+
+  // 发送一批基于baseRevision版本生成的操作
+  // 先写入待发送队列，断线时保留到重连后重放，收到确认后才移除
+  public sendOperations(operations: TextOperation[], baseRevision: number): void {
+    if (!this.operationQueue || !this.userId) return;
+
+    const queued = this.operationQueue.enqueue('operation', this.userId, {
+      operations: operations.map(operation => ({
+        ...operation,
+        timestamp: Date.now()
+      })),
+      baseRevision
+    });
+    this.sendQueued(queued);
+  }
+
+  // 发送CRDT操作，操作可以乱序或重复到达，离线期间积累的操作重连后直接发送即可
+  public sendCrdtOperations(operations: CrdtOperation[]): void {
+    if (!this.operationQueue || !this.userId || operations.length === 0) return;
+
+    const queued = this.operationQueue.enqueue('crdt_operation', this.userId, { operations });
+    this.sendQueued(queued);
+  }
+
+  // 发送队列中的一条消息，未连接时什么也不做，等待重连后重放
+  // 刷新页面或重新加入前留下的编辑对当前编辑器来说是别人的修改，用 replayed 标记
+  private sendQueued(queued: QueuedMessage): void {
+    this.send({
+      type: queued.type,
+      payload: {
+        ...queued.payload,
+        clientOperationId: queued.id,
+        ...(queued.userId !== this.userId ? { replayed: true } : {})
+      }
+    });
+  }
+
+  // 按顺序重放队列，已经处理过的消息会被会话去重
+  private flushQueue(): void {
+    if (!this.operationQueue || this.operationQueue.size() === 0) return;
+    this.operationQueue.getMessages().forEach(queued => this.sendQueued(queued));
+  }
+
+  // 根据广播、补发记录或拒绝通知移除已处理的队列消息
+  private acknowledgeQueued(message: CollaborationMessage): void {
+    if (!this.operationQueue || this.operationQueue.size() === 0 || !message.payload) return;
+
+    const ids: string[] = [];
+    if (message.payload.clientOperationId) {
+      ids.push(message.payload.clientOperationId);
+    }
+    if (message.payload.rejectedOperationId) {
+      console.warn('编辑被会话拒绝，已改为整篇同步');
+      ids.push(message.payload.rejectedOperationId);
+    }
+    if (Array.isArray(message.payload.operations) && message.type === 'sync') {
+      message.payload.operations.forEach((record: { clientOperationId?: string }) => {
+        if (record.clientOperationId) ids.push(record.clientOperationId);
+      });
+    }
+
+    if (ids.length > 0) {
+      this.operationQueue.remove(ids);
+    }
+  }
+
+  // 获取等待确认的编辑数量
+  public getQueuedOperationCount(): number {
+    return this.operationQueue?.size() ?? 0;
+  }
+
+  // 添加待发送队列变化处理器
+  public onQueueChange(handler: QueueChangeHandler): void {
+    this.queueChangeHandlers.push(handler);
+  }
+
+  // 移除待发送队列变化处理器
+  public offQueueChange(handler: QueueChangeHandler): void {
+    this.queueChangeHandlers = this.queueChangeHandlers.filter(h => h !== handler);
+  }
+
+  private notifyQueueChange(size: number): void {
+    this.queueChangeHandlers.forEach(handler => {
+      try {
+        handler(size);
+      } catch (error) {
+        console.error('队列变化处理器执行错误', error);
+      }
+    });
+  }
+
+  // 延迟请求整篇同步，短时间内多次被限流只请求一次
+  private scheduleResync(): void {
+    if (this.resyncTimer !== null) return;
+
+    this.resyncTimer = window.setTimeout(() => {
+      this.resyncTimer = null;
+      this.requestSync();
+    }, RESYNC_DELAY);
+  }
+
+  // 请求同步文档，指定版本时只补发之后的操作
+  public requestSync(sinceRevision?: number): void {
+    this.send({
+      type: 'request_sync',
+      payload: sinceRevision !== undefined ? { sinceRevision } : {}
+    });
+  }
+
+  // 调整其他成员的角色，只有所有者可以调整
+  public setUserRole(userId: string, role: SessionRole): void {
+    this.send({
+      type: 'set_role',
+      payload: {
+        userId,
+        role
+      }
+    });
+  }
+
+  // 请求同步用户列表
+  public requestSyncUsers(): void {
+    this.send({
+      type: 'request_users',
+      payload: {
+        requesterId: this.userId
+      }
+    });
+  }
+
+  // 发送光标位置更新
+  public sendCursorPosition(position: number, line: number, column: number): void {
+    this.send({
+      type: 'cursor',
+      payload: {
+        userId: this.userId,
+        position,
+        line,
+        column
+      }
+    });
+  }
+
+  // 发送选择区域信息
+  public sendSelectionRange(range: {
+    start: { position: number, line: number, column: number },
+    end: { position: number, line: number, column: number }
+  }): void {
+    this.send({
+      type: 'selection',
+      payload: {
+        userId: this.userId,
+        start: range.start,
+        end: range.end
+      }
+    });
+  }
+
+  // 发送用户状态变化
+  public sendUserStatus(userId: string, status: UserStatus): void {
+    this.send({
+      type: 'status',
+      payload: {
+        userId,
+        status
+      }
+    });
+  }
+
+  // 发送用户活动通知（输入、点击等）
+  public sendUserActivity(userId: string, activityType: string): void {
+    this.send({
+      type: 'activity',
+      payload: {
+        userId,
+        type: activityType,
+        timestamp: Date.now()
+      }
+    });
+  }
+
+  // 发送心跳
+  public sendHeartbeat(userId: string): void {
+    this.send({
+      type: 'heartbeat',
+      payload: {
+        userId,
+        timestamp: Date.now()
+      }
+    });
+  }
+
+  // 发送用户即将离开的消息
+  public sendUserLeaving(userId: string): void {
+    this.send({
+      type: 'leave',
+      payload: {
+        userId
+      }
+    });
+  }
+}
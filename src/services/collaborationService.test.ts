@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { TextOperation, applyOperations, transformOperation } from './collaborationService';
+
+const insert = (userId: string, position: number, text: string): TextOperation => ({ type: 'insert', userId, position, text });
+const remove = (userId: string, position: number, length: number): TextOperation => ({ type: 'delete', userId, position, length });
+
+describe('transformOperation', () => {
+  it('依次转换到已经应用的操作之后', () => {
+    const incoming = insert('alice', 4, '!');
+    const existing = [insert('bob', 0, '>>'), remove('bob', 5, 1)];
+    const result = transformOperation(incoming, existing);
+
+    expect(result).toEqual([{ ...incoming, position: 5 }]);
+    expect(applyOperations(applyOperations('abcdef', existing), result)).toBe('>>abc!ef');
+  });
+
+  it('没有已应用的操作时原样返回', () => {
+    const incoming = insert('alice', 0, 'A');
+    expect(transformOperation(incoming, [])).toEqual([incoming]);
+  });
+});
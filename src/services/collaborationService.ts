@@ -1,6 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { UserStatus } from './websocketService';
-import { TextOperation } from '../types/TextOperation';
+import type { SessionRole, UserStatus } from '../types/Collaboration';
+import { TextOperation, transformOperations, transformPair } from '../shared/operationTransform';
+import type { TextEdit } from './punctuation';
+
+export type { TextOperation };
+export { transformOperations, transformPair };
 
 // 光标位置信息接口
 export interface CursorPosition {
@@ -15,24 +19,13 @@ export interface SelectionRange {
   end: CursorPosition;
 }
 
-// 文本操作类型定义
-export interface TextOperation {
-  type: 'insert' | 'delete' | 'sync' | 'retry';
-  userId: string;
-  position?: number;
-  text?: string;
-  length?: number;
-  content?: string;
-  timestamp?: number;
-  fromUserId?: string; // 标识操作来源的用户ID
-}
-
 // 协作用户接口
 export interface CollaborationUser {
   id: string;
   name: string;
   color: string;
   status: UserStatus;
+  role?: SessionRole;
   lastActive?: number;
   cursorPosition?: CursorPosition;
   selection?: SelectionRange;
@@ -112,7 +105,7 @@ export const leaveSession = (sessionId: string, userId: string): boolean => {
 };
 
 // 应用文本操作到内容
-const applyOperation = (content: string, operation: TextOperation): string => {
+export const applyOperation = (content: string, operation: TextOperation): string => {
   if (operation.type === 'insert' && operation.text && operation.position !== undefined) {
     return content.substring(0, operation.position) + 
            operation.text + 
@@ -120,13 +113,18 @@ const applyOperation = (content: string, operation: TextOperation): string => {
   } else if (operation.type === 'delete' && operation.length && operation.position !== undefined) {
     return content.substring(0, operation.position) + 
            content.substring(operation.position + operation.length);
-  } else if (operation.type === 'sync' && operation.content) {
+  } else if (operation.type === 'sync' && operation.content !== undefined) {
     // 直接使用同步内容
     return operation.content;
   }
   return content;
 };
 
+// 依次应用多个操作
+export const applyOperations = (content: string, operations: TextOperation[]): string => {
+  return operations.reduce(applyOperation, content);
+};
+
 // 执行操作并广播给其他用户
 export const executeOperation = (
   sessionId: string, 
@@ -221,63 +219,209 @@ export const validateOperation = (
 };
 
 // 转换操作以处理并发编辑
+// existingOps 是已经应用到文档、但 incomingOp 生成时尚未看到的操作（按应用顺序）
 export const transformOperation = (
   incomingOp: TextOperation,
   existingOps: TextOperation[]
-): TextOperation => {
-  // 如果没有现有操作，直接返回输入操作
+): TextOperation[] => {
   if (!existingOps || existingOps.length === 0) {
-    return incomingOp;
+    return [incomingOp];
   }
 
-  // 创建操作的副本以避免修改原始对象
-  let transformedOp = { ...incomingOp };
+  return transformOperations([incomingOp], existingOps)[0];
+};
 
-  // 按时间戳排序现有操作
-  const sortedOps = [...existingOps].sort((a, b) => {
-    const timestampA = a.timestamp || 0;
-    const timestampB = b.timestamp || 0;
-    return timestampA - timestampB;
-  });
+// 服务端确认过的一批操作
+export interface OperationRecord {
+  revision: number;
+  userId: string;
+  operations: TextOperation[];
+  timestamp?: number;
+  clientOperationId?: string; // 客户端队列中的消息ID
+  replayed?: boolean; // 刷新页面或重新加入前留下的编辑，不是发送者当前操作的确认
+}
+
+// 发送操作的回调：operations 基于 baseRevision 版本的文档生成
+export type SendOperationsHandler = (operations: TextOperation[], baseRevision: number) => void;
+
+// 客户端的操作同步状态
+// 同一时间只有一批操作在等待服务端确认，期间的新操作先缓冲，确认后再基于新版本发送；
+// 收到其他人的操作时，与等待确认和缓冲中的操作互相转换，保证本地与服务端收敛
+export class OperationClient {
+  private revision: number;
+  private outstanding: TextOperation[] | null = null;
+  private buffer: TextOperation[] = [];
+  private send: SendOperationsHandler;
+
+  constructor(revision: number, send: SendOperationsHandler) {
+    this.revision = revision;
+    this.send = send;
+  }
 
-  // 应用转换算法
-  for (const existingOp of sortedOps) {
-    // 跳过由相同用户生成的操作
-    if (existingOp.fromUserId && transformedOp.fromUserId && 
-        existingOp.fromUserId === transformedOp.fromUserId) {
-      continue;
+  // 当前已确认的服务端版本
+  getRevision(): number {
+    return this.revision;
+  }
+
+  // 尚未被服务端确认的操作数
+  getPendingCount(): number {
+    return (this.outstanding ? this.outstanding.length : 0) + this.buffer.length;
+  }
+
+  // 本地产生了新操作
+  applyLocal(operations: TextOperation[]): void {
+    if (operations.length === 0) return;
+
+    if (this.outstanding) {
+      this.buffer = [...this.buffer, ...operations];
+      return;
     }
 
-    // 操作转换逻辑 (根据您的OT实现调整)
-    // 这是一个简化示例，实际OT算法会更复杂
-    if (existingOp.type === 'insert' && transformedOp.type === 'insert') {
-      // 如果两个插入操作，并且现有操作的位置在新操作之前或相同
-      // 则新操作的位置需要向后移动
-      if (existingOp.position <= transformedOp.position) {
-        transformedOp.position += (existingOp.text || '').length;
-      }
-    } else if (existingOp.type === 'delete' && transformedOp.type === 'insert') {
-      // 如果存在删除操作，而我们要插入，需要调整插入位置
-      if (existingOp.position < transformedOp.position) {
-        transformedOp.position -= (existingOp.length || 0);
-      }
-    } else if (existingOp.type === 'insert' && transformedOp.type === 'delete') {
-      // 如果存在插入操作，而我们要删除，需要调整删除位置
-      if (existingOp.position <= transformedOp.position) {
-        transformedOp.position += (existingOp.text || '').length;
-      }
-    } else if (existingOp.type === 'delete' && transformedOp.type === 'delete') {
-      // 两个删除操作的处理...
-      // 简化版，实际实现可能更复杂
-      if (existingOp.position < transformedOp.position) {
-        transformedOp.position -= (existingOp.length || 0);
-      }
+    this.outstanding = operations;
+    this.send(operations, this.revision);
+  }
+
+  // 服务端确认了自己发出的操作
+  serverAck(revision: number): void {
+    this.revision = revision;
+
+    if (this.buffer.length > 0) {
+      const operations = this.buffer;
+      this.buffer = [];
+      this.outstanding = operations;
+      this.send(operations, this.revision);
+    } else {
+      this.outstanding = null;
+    }
+  }
+
+  // 收到其他用户的操作，返回需要应用到本地文档的操作
+  applyServer(operations: TextOperation[], revision: number): TextOperation[] {
+    let incoming = operations;
+
+    if (this.outstanding) {
+      const [incomingPrime, outstandingPrime] = transformOperations(incoming, this.outstanding);
+      incoming = incomingPrime;
+      this.outstanding = outstandingPrime;
+    }
+
+    if (this.buffer.length > 0) {
+      const [incomingPrime, bufferPrime] = transformOperations(incoming, this.buffer);
+      incoming = incomingPrime;
+      this.buffer = bufferPrime;
     }
+
+    this.revision = revision;
+    return incoming;
+  }
+
+  // 按版本顺序处理补发的操作记录，自己的记录视为确认
+  applyRecords(records: OperationRecord[], userId: string): TextOperation[] {
+    let applied: TextOperation[] = [];
+
+    records
+      .filter(record => record.revision > this.revision)
+      .sort((a, b) => a.revision - b.revision)
+      .forEach(record => {
+        if (record.userId === userId && !record.replayed && this.outstanding) {
+          this.serverAck(record.revision);
+        } else {
+          applied = [...applied, ...this.applyServer(record.operations, record.revision)];
+        }
+      });
+
+    return applied;
+  }
+
+  // 以服务端的完整内容为准重新开始，丢弃未确认的操作
+  reset(revision: number): void {
+    this.revision = revision;
+    this.outstanding = null;
+    this.buffer = [];
+  }
+}
+
+// 根据操作调整光标位置
+export const transformPosition = (position: number, operation: TextOperation): number => {
+  if (operation.position === undefined) return position;
+
+  if (operation.type === 'insert' && operation.text) {
+    return operation.position <= position ? position + operation.text.length : position;
+  }
+  if (operation.type === 'delete' && operation.length) {
+    if (position <= operation.position) return position;
+    return Math.max(operation.position, position - operation.length);
+  }
+  if (operation.type === 'sync' && operation.content !== undefined) {
+    return Math.min(position, operation.content.length);
+  }
+  return position;
+};
+
+const isHighSurrogate = (code: number): boolean => code >= 0xd800 && code <= 0xdbff;
+const isLowSurrogate = (code: number): boolean => code >= 0xdc00 && code <= 0xdfff;
+
+// 比较新旧文本，生成最小的删除/插入操作
+// 输入法和自动替换都只会改动一段连续区域，所以前后缀比较足够
+export const diffToOperations = (
+  oldText: string,
+  newText: string,
+  userId: string
+): TextOperation[] => {
+  if (oldText === newText) return [];
+
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  while (prefix < maxPrefix && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = Math.min(oldText.length, newText.length) - prefix;
+  while (
+    suffix < maxSuffix &&
+    oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  // 不要把代理对拆开
+  if (prefix > 0 && isHighSurrogate(oldText.charCodeAt(prefix - 1))) {
+    prefix--;
+  }
+  if (suffix > 0 && isLowSurrogate(oldText.charCodeAt(oldText.length - suffix))) {
+    suffix--;
   }
 
-  return transformedOp;
+  const operations: TextOperation[] = [];
+  const deleteLength = oldText.length - prefix - suffix;
+  const insertText = newText.substring(prefix, newText.length - suffix);
+
+  if (deleteLength > 0) {
+    operations.push({ type: 'delete', userId, position: prefix, length: deleteLength });
+  }
+  if (insertText.length > 0) {
+    operations.push({ type: 'insert', userId, position: prefix, text: insertText });
+  }
+
+  return operations;
 };
 
+// 把互不重叠的几处替换转换为操作，每处一对删除和插入，从后往前排列，前面的替换不影响后面操作的位置
+export const editsToOperations = (edits: TextEdit[], userId: string): TextOperation[] =>
+  [...edits]
+    .sort((a, b) => b.position - a.position || b.length - a.length)
+    .flatMap(edit => {
+      const operations: TextOperation[] = [];
+      if (edit.length > 0) {
+        operations.push({ type: 'delete', userId, position: edit.position, length: edit.length });
+      }
+      if (edit.text.length > 0) {
+        operations.push({ type: 'insert', userId, position: edit.position, text: edit.text });
+      }
+      return operations;
+    });
+
 // 获取当前文档内容
 export const getDocumentContent = (sessionId: string): string | null => {
   const session = sessions[sessionId];
@@ -0,0 +1,211 @@
+import type { Novel } from '../store/novelStore';
+import type { ManuscriptFormat } from '../store/settingsStore';
+import { DEFAULT_VOLUME_TITLE } from './novelStructure';
+import { InlineRun, MarkdownBlock, parseMarkdown, parsePlainText } from './markdownParser';
+import { createZip } from './zipWriter';
+import { escapeXml } from './xmlUtils';
+
+// 导出Word文档（DOCX），书名、卷名、章名和正文中的Markdown标题对应Word的标题样式
+// 卷名为标题1、章名为标题2，正文中的 # 从标题3开始，导航窗格中可以看到完整的目录
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const SCENE_BREAK_TEXT = '＊　＊　＊';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+function textRunXml(text: string, properties: string): string {
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+// 注音使用Word的拼音指南（w:ruby），注音文字为正文字号的一半
+function runXml(run: InlineRun, fontSize: number): string {
+  const properties = [
+    run.bold ? '<w:b/><w:bCs/>' : '',
+    run.italic ? '<w:i/><w:iCs/>' : '',
+    run.strike ? '<w:strike/>' : ''
+  ].join('');
+  if (!run.ruby) {
+    return textRunXml(run.text, properties);
+  }
+
+  const size = Math.round(fontSize * 2);
+  const rubySize = Math.round(size / 2);
+  return `<w:r><w:ruby><w:rubyPr><w:rubyAlign w:val="center"/><w:hps w:val="${rubySize}"/><w:hpsRaise w:val="${size - 2}"/><w:hpsBaseText w:val="${size}"/><w:lid w:val="zh-CN"/></w:rubyPr>`
+    + `<w:rt>${textRunXml(run.ruby, `<w:sz w:val="${rubySize}"/><w:szCs w:val="${rubySize}"/>`)}</w:rt>`
+    + `<w:rubyBase>${textRunXml(run.text, properties)}</w:rubyBase></w:ruby></w:r>`;
+}
+
+function paragraphXml(style: string | null, runs: InlineRun[], fontSize: number): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}${runs.map(run => runXml(run, fontSize)).join('')}</w:p>`;
+}
+
+function blockXml(block: MarkdownBlock, fontSize: number): string {
+  switch (block.type) {
+    case 'heading':
+      return paragraphXml(`Heading${Math.min(block.level + 2, 6)}`, block.runs, fontSize);
+    case 'quote':
+      return paragraphXml('Quote', block.runs, fontSize);
+    case 'sceneBreak':
+      return paragraphXml('SceneBreak', [{ text: SCENE_BREAK_TEXT }], fontSize);
+    default:
+      return paragraphXml(null, block.runs, fontSize);
+  }
+}
+
+function documentXml(novel: Novel, format: ManuscriptFormat, useMarkdown: boolean): string {
+  const parse = useMarkdown ? parseMarkdown : parsePlainText;
+  const showVolumes = !(novel.volumes.length === 1 && novel.volumes[0].title === DEFAULT_VOLUME_TITLE);
+
+  const size = format.fontSize;
+
+  const paragraphs = [
+    paragraphXml('Title', [{ text: novel.title || '无标题小说' }], size),
+    novel.author ? paragraphXml('Subtitle', [{ text: `${novel.author} 著` }], size) : null,
+    ...novel.volumes.flatMap(volume => [
+      showVolumes ? paragraphXml('Heading1', [{ text: volume.title }], size) : null,
+      ...volume.chapters.flatMap(chapter => [
+        paragraphXml('Heading2', [{ text: chapter.title }], size),
+        ...parse(chapter.content).map(block => blockXml(block, size))
+      ])
+    ])
+  ].filter(paragraph => paragraph !== null);
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <w:body>
+    ${paragraphs.join('\n    ')}
+    <w:sectPr>
+      <w:pgSz w:w="11906" w:h="16838"/>
+      <w:pgMar w:top="1440" w:right="1800" w:bottom="1440" w:left="1800" w:header="851" w:footer="992" w:gutter="0"/>
+    </w:sectPr>
+  </w:body>
+</w:document>
+`;
+}
+
+// 字号以半磅为单位，缩进和间距以二十分之一磅为单位
+function stylesXml(format: ManuscriptFormat): string {
+  const font = escapeXml(format.fontFamily);
+  const size = Math.round(format.fontSize * 2);
+  const line = Math.round(format.lineSpacing * 240);
+  const indent = format.firstLineIndent
+    ? `<w:ind w:firstLineChars="200" w:firstLine="${Math.round(format.fontSize * 40)}"/>`
+    : '';
+
+  const headingStyle = (level: number) => {
+    const headingSize = Math.round(size * Math.max(1, 1.6 - level * 0.15));
+    // 卷和章从新的一页开始
+    const pageBreak = level <= 2 ? '<w:pageBreakBefore/>' : '';
+    const align = level <= 2 ? '<w:jc w:val="center"/>' : '';
+    return `  <w:style w:type="paragraph" w:styleId="Heading${level}">
+    <w:name w:val="heading ${level}"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:keepNext/>${pageBreak}<w:spacing w:before="480" w:after="240"/><w:ind w:firstLineChars="0" w:firstLine="0"/>${align}<w:outlineLvl w:val="${level - 1}"/></w:pPr>
+    <w:rPr><w:b/><w:bCs/><w:sz w:val="${headingSize}"/><w:szCs w:val="${headingSize}"/></w:rPr>
+  </w:style>`;
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault>
+      <w:rPr>
+        <w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/>
+        <w:sz w:val="${size}"/>
+        <w:szCs w:val="${size}"/>
+        <w:lang w:val="en-US" w:eastAsia="zh-CN"/>
+      </w:rPr>
+    </w:rPrDefault>
+    <w:pPrDefault>
+      <w:pPr><w:spacing w:after="0" w:line="${line}" w:lineRule="auto"/></w:pPr>
+    </w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:jc w:val="both"/>${indent}</w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:spacing w:before="2400" w:after="480"/><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/></w:pPr>
+    <w:rPr><w:b/><w:bCs/><w:sz w:val="${size * 2}"/><w:szCs w:val="${size * 2}"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Subtitle">
+    <w:name w:val="Subtitle"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/></w:pPr>
+  </w:style>
+${[1, 2, 3, 4, 5, 6].map(headingStyle).join('\n')}
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Quote"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:qFormat/>
+    <w:pPr><w:ind w:left="${Math.round(format.fontSize * 40)}" w:right="${Math.round(format.fontSize * 40)}"/></w:pPr>
+    <w:rPr><w:i/><w:iCs/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:customStyle="1" w:styleId="SceneBreak">
+    <w:name w:val="Scene Break"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:pPr><w:spacing w:before="240" w:after="240"/><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/></w:pPr>
+  </w:style>
+</w:styles>
+`;
+}
+
+function corePropertiesXml(novel: Novel): string {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const created = new Date(novel.createdAt).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(novel.title)}</dc:title>
+  <dc:creator>${escapeXml(novel.author || '')}</dc:creator>
+  <cp:keywords>${escapeXml((novel.tags || []).join(', '))}</cp:keywords>
+  <dc:language>zh-CN</dc:language>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>
+  <dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>
+`;
+}
+
+// useMarkdown 为true时按Markdown解析正文，否则每行作为一个普通段落
+export function exportDocx(novel: Novel, format: ManuscriptFormat, useMarkdown: boolean): Blob {
+  return createZip([
+    { path: '[Content_Types].xml', data: CONTENT_TYPES },
+    { path: '_rels/.rels', data: PACKAGE_RELATIONSHIPS },
+    { path: 'docProps/core.xml', data: corePropertiesXml(novel) },
+    { path: 'word/_rels/document.xml.rels', data: DOCUMENT_RELATIONSHIPS },
+    { path: 'word/document.xml', data: documentXml(novel, format, useMarkdown) },
+    { path: 'word/styles.xml', data: stylesXml(format) }
+  ], DOCX_MIME_TYPE);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { TextOperation, applyOperations } from './collaborationService';
+import { EditHistory } from './editHistory';
+
+// 撤销或重做一步，返回之后的内容
+function step(history: EditHistory, action: 'undo' | 'redo'): string {
+  const before = history.getText();
+  const result = action === 'undo' ? history.undo() : history.redo();
+  expect(result).not.toBeNull();
+  const after = applyOperations(before, result!.operations);
+  expect(after).toBe(history.getText());
+  return after;
+}
+
+describe('EditHistory', () => {
+  it('撤销和重做本地修改', () => {
+    const history = new EditHistory('开头');
+    history.record('开头，然后', 0);
+    history.record('然后', 5000);
+
+    expect(step(history, 'undo')).toBe('开头，然后');
+    expect(step(history, 'undo')).toBe('开头');
+    expect(history.canUndo()).toBe(false);
+    expect(step(history, 'redo')).toBe('开头，然后');
+    expect(step(history, 'redo')).toBe('然后');
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('连续输入合并为一步，换行和停顿后另起一步', () => {
+    const history = new EditHistory('');
+    history.record('今', 0);
+    history.record('今天', 100);
+    history.record('今天晴', 200);
+    history.record('今天晴\n', 300);
+    history.record('今天晴\n风', 400);
+    history.record('今天晴\n风大', 3000);
+
+    expect(step(history, 'undo')).toBe('今天晴\n风');
+    expect(step(history, 'undo')).toBe('今天晴\n');
+    expect(step(history, 'undo')).toBe('今天晴');
+    const result = history.undo();
+    expect(result?.operations).toHaveLength(1);
+    expect(result?.selection).toBe(0);
+    expect(history.getText()).toBe('');
+  });
+
+  it('连续退格合并为一步，撤销后光标回到删除的文字之后', () => {
+    const history = new EditHistory('abcdef');
+    history.record('abcde', 0);
+    history.record('abcd', 100);
+    history.record('abc', 200);
+
+    const result = history.undo();
+    expect(result?.operations).toEqual([{ type: 'insert', userId: 'history', position: 3, text: 'def' }]);
+    expect(result?.selection).toBe(6);
+  });
+
+  it('新的修改清空重做记录', () => {
+    const history = new EditHistory('a');
+    history.record('ab', 0);
+    step(history, 'undo');
+    history.record('ac', 5000);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('协作者的修改之后只撤销自己的修改', () => {
+    const history = new EditHistory('第一章');
+    history.record('第一章：出发', 0);
+
+    // 协作者在前后各插入了文字
+    const remote: TextOperation[] = [
+      { type: 'insert', userId: 'bob', position: 0, text: '【草稿】' },
+      { type: 'insert', userId: 'bob', position: 10, text: '吧' }
+    ];
+    history.transform(remote);
+    expect(history.getText()).toBe('【草稿】第一章：出发吧');
+
+    expect(step(history, 'undo')).toBe('【草稿】第一章吧');
+    expect(step(history, 'redo')).toBe('【草稿】第一章：出发吧');
+  });
+
+  it('自己的文字被协作者删掉后，撤销不会删掉别人的文字', () => {
+    const history = new EditHistory('abc');
+    history.record('abXYc', 0);
+    history.transform([{ type: 'delete', userId: 'bob', position: 1, length: 3 }]);
+    expect(history.getText()).toBe('ac');
+
+    // 被删的文字已经不在，撤销这一步没有可以撤回的内容
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('被协作者的插入拆开的修改撤销为两段', () => {
+    const history = new EditHistory('');
+    history.record('abcd', 0);
+    history.transform([{ type: 'insert', userId: 'bob', position: 2, text: '-' }]);
+
+    expect(step(history, 'undo')).toBe('-');
+  });
+
+  it('整体替换的内容按差异转换记录', () => {
+    const history = new EditHistory('你好');
+    history.record('你好，世界', 0);
+    history.sync('你好，世界！');
+    expect(step(history, 'undo')).toBe('你好！');
+  });
+
+  it('整篇同步后清空记录', () => {
+    const history = new EditHistory('a');
+    history.record('ab', 0);
+    history.transform([{ type: 'sync', userId: 'server', content: 'xyz' }]);
+    expect(history.getText()).toBe('xyz');
+    expect(history.canUndo()).toBe(false);
+  });
+});
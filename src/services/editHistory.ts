@@ -0,0 +1,185 @@
+import { TextOperation, applyOperations, diffToOperations, transformOperations, transformPosition } from './collaborationService';
+
+const HISTORY_USER_ID = 'history'; // 撤销操作只在本地转换，不参与协作的先后比较
+const GROUP_INTERVAL = 1000; // 间隔不超过1秒的连续输入合并为一步撤销
+const MAX_HISTORY = 200; // 最多保留的撤销步数
+
+// 撤销或重做要应用的操作，selection 是之后光标应该在的位置
+export interface HistoryStep {
+  operations: TextOperation[];
+  selection: number;
+}
+
+// 按顺序记录每个操作的反向操作，返回的操作依次应用即可恢复原文
+export function invertOperations(text: string, operations: TextOperation[]): TextOperation[] {
+  const inverse: TextOperation[] = [];
+  let current = text;
+
+  operations.forEach(operation => {
+    if (operation.type === 'insert' && operation.text) {
+      inverse.unshift({ type: 'delete', userId: HISTORY_USER_ID, position: operation.position, length: operation.text.length });
+    } else if (operation.type === 'delete' && operation.length) {
+      const position = operation.position ?? 0;
+      inverse.unshift({ type: 'insert', userId: HISTORY_USER_ID, position, text: current.slice(position, position + operation.length) });
+    }
+    current = applyOperations(current, [operation]);
+  });
+  return inverse;
+}
+
+// 合并首尾相接的插入或删除，连续输入的一组文字撤销时作为一个操作发送
+function mergeAdjacent(operations: TextOperation[]): TextOperation[] {
+  return operations.reduce<TextOperation[]>((merged, operation) => {
+    const previous = merged[merged.length - 1];
+    if (previous?.type === 'insert' && operation.type === 'insert') {
+      if (operation.position === previous.position! + previous.text!.length) {
+        merged[merged.length - 1] = { ...previous, text: previous.text! + operation.text! };
+        return merged;
+      }
+      if (operation.position === previous.position) {
+        merged[merged.length - 1] = { ...previous, text: operation.text! + previous.text! };
+        return merged;
+      }
+    }
+    if (previous?.type === 'delete' && operation.type === 'delete') {
+      if (operation.position === previous.position) {
+        merged[merged.length - 1] = { ...previous, length: previous.length! + operation.length! };
+        return merged;
+      }
+      if (operation.position! + operation.length! === previous.position) {
+        merged[merged.length - 1] = { ...operation, length: previous.length! + operation.length! };
+        return merged;
+      }
+    }
+    merged.push(operation);
+    return merged;
+  }, []);
+}
+
+// 应用操作后光标的位置：插入的文字之后或删除的位置
+function caretAfter(operations: TextOperation[]): number {
+  const last = operations[operations.length - 1];
+  if (!last || last.position === undefined) return 0;
+  return last.type === 'insert' && last.text ? last.position + last.text.length : last.position;
+}
+
+// 编辑器的撤销和重做记录
+// 栈里保存的是反向操作，协作者的修改到达时和栈里的操作一起转换，撤销只会撤回自己的修改
+export class EditHistory {
+  private text: string;
+  private undoStack: TextOperation[][] = [];
+  private redoStack: TextOperation[][] = [];
+  private caret: number | null = null; // 上一次输入后的光标位置，用于判断是否接着输入
+  private lastEditAt: number = 0;
+  private grouping: boolean = false; // 上一步是否可以和下一次输入合并
+
+  constructor(text: string = '') {
+    this.text = text;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // 切换到另一篇文档，清空记录
+  reset(text: string): void {
+    this.text = text;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.caret = null;
+    this.grouping = false;
+  }
+
+  // 记录本地的一次修改，连续输入的文字合并为一步
+  record(next: string, now: number = Date.now()): void {
+    const operations = diffToOperations(this.text, next, HISTORY_USER_ID);
+    if (operations.length === 0) return;
+
+    const inverse = invertOperations(this.text, operations);
+    const single = operations.length === 1 && !operations[0].text?.includes('\n') ? operations[0] : null;
+    const continues = single !== null && this.caret !== null && (
+      single.type === 'insert'
+        ? single.position === this.caret
+        : single.position === this.caret || single.position! + single.length! === this.caret
+    );
+
+    if (this.grouping && continues && now - this.lastEditAt < GROUP_INTERVAL && this.undoStack.length > 0) {
+      const previous = this.undoStack.pop()!;
+      this.undoStack.push(mergeAdjacent([...inverse, ...previous]));
+    } else {
+      this.undoStack.push(inverse);
+      if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    }
+
+    this.redoStack = [];
+    this.text = next;
+    this.caret = caretAfter(operations);
+    this.lastEditAt = now;
+    this.grouping = single !== null;
+  }
+
+  // 撤销最近一步，返回需要依次应用到当前内容上的操作
+  undo(): HistoryStep | null {
+    return this.apply(this.undoStack, this.redoStack);
+  }
+
+  redo(): HistoryStep | null {
+    return this.apply(this.redoStack, this.undoStack);
+  }
+
+  // 协作者等其他来源的修改，记录中的操作转换到修改之后
+  transform(operations: TextOperation[]): void {
+    if (operations.length === 0) return;
+
+    // 整篇同步之后原来的位置都没有意义了
+    if (operations.some(operation => operation.type === 'sync')) {
+      this.reset(applyOperations(this.text, operations));
+      return;
+    }
+
+    this.undoStack = EditHistory.transformStack(this.undoStack, operations);
+    this.redoStack = EditHistory.transformStack(this.redoStack, operations);
+    if (this.caret !== null) {
+      this.caret = operations.reduce((position, operation) => transformPosition(position, operation), this.caret);
+    }
+    this.text = applyOperations(this.text, operations);
+  }
+
+  // 内容被整体替换（符号转换、替换等），按前后差异转换记录
+  sync(text: string): void {
+    if (text === this.text) return;
+    this.transform(diffToOperations(this.text, text, HISTORY_USER_ID));
+    this.grouping = false;
+  }
+
+  private apply(from: TextOperation[][], to: TextOperation[][]): HistoryStep | null {
+    const operations = from.pop();
+    if (!operations) return null;
+
+    to.push(invertOperations(this.text, operations));
+    this.text = applyOperations(this.text, operations);
+    this.grouping = false;
+    return { operations, selection: caretAfter(operations) };
+  }
+
+  // 栈顶的操作基于当前内容，每一项转换后，修改再转换到下一项撤销之后的内容上
+  private static transformStack(stack: TextOperation[][], operations: TextOperation[]): TextOperation[][] {
+    let incoming = operations;
+    const transformed: TextOperation[][] = [];
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const [entry, next] = transformOperations(stack[i], incoming);
+      incoming = next;
+      if (entry.length > 0) transformed.unshift(entry);
+    }
+    return transformed;
+  }
+}
@@ -0,0 +1,102 @@
+import { InlineRun, isSceneBreak, parseInline } from './markdownParser';
+
+// 编辑器的文档模型：每行一个段落，段落由带样式的片段组成
+// 片段覆盖段落中的每个字符（包括Markdown标记），文本偏移和编辑器内容一一对应，协作操作可以直接使用
+
+export type ParagraphKind = 'paragraph' | 'heading' | 'quote' | 'sceneBreak';
+export type SpanStyle = 'bold' | 'italic' | 'strike' | 'ruby' | 'marker';
+
+export interface EditorSpan {
+  text: string;
+  styles: SpanStyle[];
+}
+
+export interface EditorParagraph {
+  start: number; // 段落第一个字符在全文中的偏移
+  text: string;
+  kind: ParagraphKind;
+  level?: number; // 标题级别
+  spans: EditorSpan[];
+}
+
+const HEADING_PREFIX = /^(#{1,6})\s+/;
+const QUOTE_PREFIX = /^\s*>\s?/;
+
+function runStyles(run: InlineRun): SpanStyle[] {
+  if (run.marker) return ['marker'];
+
+  const styles: SpanStyle[] = [];
+  if (run.bold) styles.push('bold');
+  if (run.italic) styles.push('italic');
+  if (run.strike) styles.push('strike');
+  if (run.ruby) styles.push('ruby');
+  return styles;
+}
+
+function inlineSpans(text: string): EditorSpan[] {
+  return parseInline(text, true).map(run => ({ text: run.text, styles: runStyles(run) }));
+}
+
+function markdownParagraph(line: string, start: number): EditorParagraph {
+  if (line.trim() === '') {
+    return { start, text: line, kind: 'paragraph', spans: line ? [{ text: line, styles: [] }] : [] };
+  }
+  if (isSceneBreak(line)) {
+    return { start, text: line, kind: 'sceneBreak', spans: [{ text: line, styles: ['marker'] }] };
+  }
+
+  const heading = line.match(HEADING_PREFIX);
+  if (heading) {
+    return {
+      start,
+      text: line,
+      kind: 'heading',
+      level: heading[1].length,
+      spans: [{ text: heading[0], styles: ['marker'] }, ...inlineSpans(line.slice(heading[0].length))]
+    };
+  }
+
+  const quote = line.match(QUOTE_PREFIX);
+  if (quote) {
+    return {
+      start,
+      text: line,
+      kind: 'quote',
+      spans: [{ text: quote[0], styles: ['marker'] }, ...inlineSpans(line.slice(quote[0].length))]
+    };
+  }
+
+  return { start, text: line, kind: 'paragraph', spans: inlineSpans(line) };
+}
+
+// 把编辑器内容拆成段落，没有开启Markdown的小说每段只有一个无样式片段
+export function buildEditorDocument(text: string, useMarkdown: boolean): EditorParagraph[] {
+  let start = 0;
+  return text.split('\n').map(line => {
+    const paragraph = useMarkdown
+      ? markdownParagraph(line, start)
+      : { start, text: line, kind: 'paragraph' as const, spans: line ? [{ text: line, styles: [] }] : [] };
+    start += line.length + 1;
+    return paragraph;
+  });
+}
+
+// 查找偏移所在的段落，段落末尾（换行符之前）的偏移属于该段落
+export function findParagraphIndex(paragraphs: EditorParagraph[], offset: number): number {
+  let low = 0;
+  let high = paragraphs.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (paragraphs[middle].start <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+// 段落的渲染结果只取决于类型和片段，相同的段落可以复用已有的DOM
+export function paragraphKey(paragraph: EditorParagraph): string {
+  return JSON.stringify([paragraph.kind, paragraph.level, paragraph.spans]);
+}
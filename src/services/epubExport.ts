@@ -0,0 +1,290 @@
+import type { Chapter, Novel } from '../store/novelStore';
+import { DEFAULT_VOLUME_TITLE, getChapters, getNovelText } from './novelStructure';
+import { ZipEntry, createZip } from './zipWriter';
+import { escapeXml } from './xmlUtils';
+
+// 导出EPUB 3电子书，同时生成NCX目录兼容只支持EPUB 2的阅读器
+
+interface EpubChapter {
+  chapter: Chapter;
+  fileName: string;
+}
+
+// 目录中的一项，卷包含章节
+interface TocItem {
+  title: string;
+  href: string;
+  children: TocItem[];
+}
+
+interface CoverImage {
+  fileName: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
+const COVER_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+const STYLESHEET = `body {
+  margin: 0 5%;
+  line-height: 1.8;
+  text-align: justify;
+}
+h1, h2 {
+  text-align: center;
+  margin: 2em 0 1.5em;
+}
+p {
+  margin: 0;
+  text-indent: 2em;
+}
+.title-page {
+  text-align: center;
+  margin-top: 30%;
+}
+.title-page p {
+  text-indent: 0;
+  margin: 0.5em 0;
+}
+.cover {
+  margin: 0;
+  padding: 0;
+  text-align: center;
+}
+.cover img {
+  max-width: 100%;
+  max-height: 100%;
+}
+`;
+
+// 根据正文判断语言：有假名为日文，有谚文为韩文，有汉字为中文
+export function detectLanguage(text: string): string {
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) return 'ja';
+  if (/\p{Script=Hangul}/u.test(text)) return 'ko';
+  if (/\p{Script=Han}/u.test(text)) return 'zh-CN';
+  return 'en';
+}
+
+function xhtmlPage(language: string, title: string, body: string, extraNamespace: string = ''): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// 每个非空行作为一个段落
+function chapterBody(chapter: Chapter): string {
+  const paragraphs = chapter.content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => `  <p>${escapeXml(line)}</p>`);
+  return [`  <h2>${escapeXml(chapter.title)}</h2>`, ...paragraphs].join('\n');
+}
+
+// 只有一卷默认的「正文」时不显示卷这一层
+function buildToc(novel: Novel, files: Map<string, string>): TocItem[] {
+  const volumes = novel.volumes.filter(volume => volume.chapters.length > 0);
+  const chapterItem = (chapter: Chapter): TocItem => ({ title: chapter.title, href: files.get(chapter.id)!, children: [] });
+
+  if (volumes.length === 1 && volumes[0].title === DEFAULT_VOLUME_TITLE) {
+    return volumes[0].chapters.map(chapterItem);
+  }
+  return volumes.map(volume => ({
+    title: volume.title,
+    href: files.get(volume.chapters[0].id)!,
+    children: volume.chapters.map(chapterItem)
+  }));
+}
+
+function navDocument(novel: Novel, language: string, toc: TocItem[]): string {
+  const renderList = (items: TocItem[], indent: string): string => [
+    `${indent}<ol>`,
+    ...items.map(item => item.children.length > 0
+      ? `${indent}  <li><a href="${item.href}">${escapeXml(item.title)}</a>\n${renderList(item.children, `${indent}    `)}\n${indent}  </li>`
+      : `${indent}  <li><a href="${item.href}">${escapeXml(item.title)}</a></li>`),
+    `${indent}</ol>`
+  ].join('\n');
+
+  const body = `  <nav epub:type="toc" id="toc">
+    <h1>目录</h1>
+${renderList(toc, '    ')}
+  </nav>`;
+  return xhtmlPage(language, novel.title, body, ' xmlns:epub="http://www.idpf.org/2007/ops"');
+}
+
+function ncxDocument(novel: Novel, identifier: string, language: string, toc: TocItem[]): string {
+  let playOrder = 0;
+  const depth = toc.some(item => item.children.length > 0) ? 2 : 1;
+  const renderPoints = (items: TocItem[], indent: string): string => items.map(item => {
+    playOrder++;
+    const children = item.children.length > 0 ? `\n${renderPoints(item.children, `${indent}  `)}` : '';
+    return `${indent}<navPoint id="navpoint-${playOrder}" playOrder="${playOrder}">
+${indent}  <navLabel><text>${escapeXml(item.title)}</text></navLabel>
+${indent}  <content src="${item.href}"/>${children}
+${indent}</navPoint>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${language}">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+    <meta name="dtb:depth" content="${depth}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(novel.title)}</text></docTitle>
+  <navMap>
+${renderPoints(toc, '    ')}
+  </navMap>
+</ncx>
+`;
+}
+
+function packageDocument(
+  novel: Novel,
+  identifier: string,
+  language: string,
+  chapters: EpubChapter[],
+  cover: CoverImage | null
+): string {
+  // dcterms:modified 必须精确到秒，不带毫秒
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const metadata = [
+    `    <dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `    <dc:title>${escapeXml(novel.title || '无标题小说')}</dc:title>`,
+    `    <dc:language>${language}</dc:language>`,
+    novel.author ? `    <dc:creator id="author">${escapeXml(novel.author)}</dc:creator>` : null,
+    novel.author ? `    <meta refines="#author" property="role" scheme="marc:relators">aut</meta>` : null,
+    ...(novel.tags || []).map(tag => `    <dc:subject>${escapeXml(tag)}</dc:subject>`),
+    `    <dc:date>${new Date(novel.createdAt).toISOString().slice(0, 10)}</dc:date>`,
+    `    <meta property="dcterms:modified">${modified}</meta>`,
+    // EPUB 2 阅读器通过这一项找到封面
+    cover ? `    <meta name="cover" content="cover-image"/>` : null
+  ].filter(line => line !== null);
+
+  const manifest = [
+    `    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
+    `    <item id="css" href="styles.css" media-type="text/css"/>`,
+    cover ? `    <item id="cover-image" href="${cover.fileName}" media-type="${cover.mediaType}" properties="cover-image"/>` : null,
+    cover ? `    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>` : null,
+    `    <item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>`,
+    ...chapters.map((item, index) =>
+      `    <item id="chapter-${index + 1}" href="${item.fileName}" media-type="application/xhtml+xml"/>`)
+  ].filter(line => line !== null);
+
+  const spine = [
+    cover ? `    <itemref idref="cover" linear="no"/>` : null,
+    `    <itemref idref="title-page"/>`,
+    `    <itemref idref="nav"/>`,
+    ...chapters.map((_item, index) => `    <itemref idref="chapter-${index + 1}"/>`)
+  ].filter(line => line !== null);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+  </metadata>
+  <manifest>
+${manifest.join('\n')}
+  </manifest>
+  <spine toc="ncx">
+${spine.join('\n')}
+  </spine>
+</package>
+`;
+}
+
+// 读取封面图片，支持data URL和普通网址，读取失败时不带封面导出
+async function loadCover(coverImage: string | undefined): Promise<CoverImage | null> {
+  if (!coverImage) return null;
+
+  try {
+    const response = await fetch(coverImage);
+    const blob = await response.blob();
+    const mediaType = blob.type.split(';')[0];
+    const extension = COVER_EXTENSIONS[mediaType];
+    if (!response.ok || !extension) {
+      console.error('不支持的封面图片格式:', mediaType);
+      return null;
+    }
+    return { fileName: `cover.${extension}`, mediaType, data: new Uint8Array(await blob.arrayBuffer()) };
+  } catch (error) {
+    console.error('读取封面图片错误:', error);
+    return null;
+  }
+}
+
+export async function exportEpub(novel: Novel): Promise<Blob> {
+  const language = detectLanguage(`${novel.title}${getNovelText(novel)}`);
+  // 新建的小说ID是UUID，旧数据的ID不一定是
+  const identifier = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(novel.id)
+    ? `urn:uuid:${novel.id}`
+    : `smalltown-writer:${novel.id}`;
+  const cover = await loadCover(novel.coverImage);
+
+  const chapters: EpubChapter[] = getChapters(novel).map((chapter, index) => ({
+    chapter,
+    fileName: `chapter-${String(index + 1).padStart(4, '0')}.xhtml`
+  }));
+  const toc = buildToc(novel, new Map(chapters.map(item => [item.chapter.id, item.fileName])));
+
+  const titlePage = [
+    `  <div class="title-page">`,
+    `    <h1>${escapeXml(novel.title || '无标题小说')}</h1>`,
+    novel.author ? `    <p>${escapeXml(novel.author)} 著</p>` : null,
+    `  </div>`
+  ].filter(line => line !== null).join('\n');
+
+  const entries: ZipEntry[] = [
+    // mimetype 必须是第一个文件
+    { path: 'mimetype', data: 'application/epub+zip' },
+    {
+      path: 'META-INF/container.xml',
+      data: `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`
+    },
+    { path: 'OEBPS/content.opf', data: packageDocument(novel, identifier, language, chapters, cover) },
+    { path: 'OEBPS/nav.xhtml', data: navDocument(novel, language, toc) },
+    { path: 'OEBPS/toc.ncx', data: ncxDocument(novel, identifier, language, toc) },
+    { path: 'OEBPS/styles.css', data: STYLESHEET },
+    { path: 'OEBPS/title.xhtml', data: xhtmlPage(language, novel.title, titlePage) },
+    ...chapters.map(item => ({
+      path: `OEBPS/${item.fileName}`,
+      data: xhtmlPage(language, item.chapter.title, chapterBody(item.chapter))
+    }))
+  ];
+
+  if (cover) {
+    entries.push(
+      { path: `OEBPS/${cover.fileName}`, data: cover.data },
+      {
+        path: 'OEBPS/cover.xhtml',
+        data: xhtmlPage(language, novel.title, `  <div class="cover"><img src="${cover.fileName}" alt="${escapeXml(novel.title)}" /></div>`)
+      }
+    );
+  }
+
+  return createZip(entries, 'application/epub+zip');
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { SearchOptions, buildSearchPattern, findMatches, matchesToEdits, replaceMatches } from './findReplace';
+import { OperationClient, TextOperation, applyOperations, editsToOperations, transformOperations } from './collaborationService';
+import { CrdtDocument } from '../shared/crdtDocument';
+
+const options = (query: string, replacement = '', overrides: Partial<SearchOptions> = {}): SearchOptions => ({
+  query,
+  replacement,
+  matchCase: false,
+  wholeWord: false,
+  useRegex: false,
+  ...overrides
+});
+
+// 查找并替换全部匹配
+const replaceAll = (text: string, searchOptions: SearchOptions) => replaceMatches(text, findMatches(text, searchOptions));
+
+describe('findMatches', () => {
+  it('普通文本中的正则符号按原样查找，默认不区分大小写', () => {
+    expect(findMatches('a.b a*b A.B', options('a.b')).map(match => match.text)).toEqual(['a.b', 'A.B']);
+    expect(findMatches('a.b A.B', options('a.b', '', { matchCase: true }))).toHaveLength(1);
+  });
+
+  it('全词匹配只对英文单词和数字有效', () => {
+    expect(findMatches('cat category cat_1 cat', options('cat', '', { wholeWord: true })).map(match => match.start)).toEqual([0, 19]);
+    expect(findMatches('小猫和猫', options('猫', '', { wholeWord: true }))).toHaveLength(2);
+  });
+
+  it('只查找范围内的匹配，空匹配跳过', () => {
+    expect(findMatches('林风林风林风', options('林风'), 2, 5).map(match => match.start)).toEqual([2]);
+    expect(findMatches('abc', options('x*', '', { useRegex: true }))).toEqual([]);
+    expect(findMatches('abc', options(''))).toEqual([]);
+  });
+
+  it('正则表达式写错时报错', () => {
+    expect(() => buildSearchPattern(options('(', '', { useRegex: true }))).toThrow('正则表达式有误');
+  });
+});
+
+describe('替换文本', () => {
+  const regex = { useRegex: true };
+
+  it('支持 $1、$<name>、$& 和 $$', () => {
+    expect(replaceAll('林风说', options('(林)(风)', '$2$1', regex))).toBe('风林说');
+    expect(replaceAll('林风说', options('(?<name>林风)', '「$<name>」', regex))).toBe('「林风」说');
+    expect(replaceAll('100元', options('\\d+', '$&$$', regex))).toBe('100$元');
+  });
+
+  it('两位数的组号不存在时按一位数的组号加一个数字处理，不存在的组原样保留', () => {
+    expect(replaceAll('ab', options('(a)(b)', '$10', regex))).toBe('a0');
+    expect(replaceAll('ab', options('(a)', '$3$<x>', regex))).toBe('$3$<x>b');
+  });
+
+  it('普通文本模式下替换文本原样使用', () => {
+    expect(replaceAll('林风', options('林风', '$1', {}))).toBe('$1');
+  });
+});
+
+describe('matchesToEdits', () => {
+  const text = '林风走了。林风回来了。';
+  const matches = findMatches(text, options('林风', '陈默'));
+  const local = editsToOperations(matchesToEdits(matches), 'alice');
+  // 另一个用户同时在两处匹配之间插入了文字
+  const remote: TextOperation[] = [{ type: 'insert', userId: 'bob', position: 4, text: '，没有回头' }];
+  const expected = '陈默走了，没有回头。陈默回来了。';
+
+  it('每处匹配各自替换，结果和整体替换相同', () => {
+    expect(local).toHaveLength(4);
+    expect(applyOperations(text, local)).toBe(replaceMatches(text, matches));
+  });
+
+  it('服务端先收到其他人的修改时，双方的修改都保留', () => {
+    const sent: TextOperation[][] = [];
+    const client = new OperationClient(0, operations => sent.push(operations));
+    client.applyLocal(local);
+
+    // 服务端把替换转换到其他人的修改之后
+    const [serverLocal] = transformOperations(sent[0], remote);
+    const serverText = applyOperations(applyOperations(text, remote), serverLocal);
+
+    // 本地把收到的修改转换到尚未确认的替换之后
+    const clientText = applyOperations(applyOperations(text, local), client.applyServer(remote, 1));
+
+    expect(serverText).toBe(expected);
+    expect(clientText).toBe(expected);
+  });
+
+  it('CRDT模式下和其他人的修改合并', () => {
+    const alice = CrdtDocument.fromText('alice', text);
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    const fromAlice = alice.applyLocal(local);
+    const fromBob = bob.applyLocal(remote);
+    alice.applyRemote(fromBob);
+    bob.applyRemote(fromAlice);
+
+    expect(alice.getText()).toBe(expected);
+    expect(bob.getText()).toBe(expected);
+  });
+});
@@ -0,0 +1,92 @@
+// 查找和替换：普通文本、全词匹配、区分大小写和正则表达式
+// 正则表达式的替换文本支持 $1、$<name>、$& 和 $$
+
+import type { TextEdit } from './punctuation';
+
+export interface SearchOptions {
+  query: string;
+  replacement: string;
+  matchCase: boolean;
+  wholeWord: boolean; // 只对英文单词和数字有效，中文没有词的边界
+  useRegex: boolean;
+}
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 生成查找用的正则表达式，正则表达式写错时抛出错误
+export function buildSearchPattern(options: SearchOptions): RegExp {
+  let source = options.useRegex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) {
+    source = `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])`;
+  }
+  try {
+    return new RegExp(source, options.matchCase ? 'g' : 'gi');
+  } catch (error) {
+    throw new Error(`正则表达式有误：${(error as Error).message}`);
+  }
+}
+
+// 按替换模板生成替换文本，普通文本模式下原样替换
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|<([^>]+)>|\d{1,2})/g, (token, name: string, group?: string) => {
+    if (name === '$') return '$';
+    if (name === '&') return match[0];
+    if (group !== undefined) return match.groups?.[group] ?? token;
+
+    // 两位数的组号不存在时按一位数的组号加一个数字处理
+    const index = parseInt(name, 10);
+    if (index > 0 && index < match.length) return match[index] ?? '';
+    if (name.length === 2) {
+      const single = parseInt(name[0], 10);
+      if (single > 0 && single < match.length) return (match[single] ?? '') + name[1];
+    }
+    return token;
+  });
+}
+
+// 查找 [from, to) 范围内的所有匹配，空匹配跳过
+export function findMatches(text: string, options: SearchOptions, from = 0, to = text.length): SearchMatch[] {
+  if (!options.query) return [];
+
+  const pattern = buildSearchPattern(options);
+  const matches: SearchMatch[] = [];
+  pattern.lastIndex = from;
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match.index + match[0].length > to) break;
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+      replacement: options.useRegex ? expandReplacement(options.replacement, match) : options.replacement
+    });
+  }
+  return matches;
+}
+
+// 替换选中的匹配，匹配按位置排列且互不重叠
+export function replaceMatches(text: string, matches: SearchMatch[]): string {
+  let result = '';
+  let position = 0;
+  matches.forEach(match => {
+    result += text.slice(position, match.start) + match.replacement;
+    position = match.end;
+  });
+  return result + text.slice(position);
+}
+
+// 把选中的匹配转换为文本替换，协作时每处替换单独发送
+export function matchesToEdits(matches: SearchMatch[]): TextEdit[] {
+  return matches.map(match => ({ position: match.start, length: match.end - match.start, text: match.replacement }));
+}
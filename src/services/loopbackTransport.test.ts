@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CollaborationClient } from './collaborationClient';
+import { CollaborationUser, OperationClient, applyOperations, diffToOperations } from './collaborationService';
+import { LoopbackHub, LoopbackTransport } from './loopbackTransport';
+import { MemoryStorage } from './sessionHost';
+import type { CollaborationMessage } from './transport';
+
+const SESSION_ID = 'session-1';
+
+// 按编辑器的方式使用协作客户端：本地编辑交给 OperationClient，收到的操作转换后应用到本地内容
+class TestEditor {
+  readonly transport: LoopbackTransport;
+  readonly client: CollaborationClient;
+  readonly userId: string;
+  content = '';
+  users: CollaborationUser[] = [];
+  private operationClient: OperationClient | null = null;
+
+  constructor(hub: LoopbackHub, userId: string) {
+    this.userId = userId;
+    this.transport = hub.createTransport();
+    this.client = new CollaborationClient(this.transport);
+    this.client.onMessage(message => this.receive(message));
+  }
+
+  // 加入会话，会话为空时用本地内容初始化
+  async join(initialContent: string = ''): Promise<void> {
+    const joined = await this.client.connect(SESSION_ID, this.userId, this.userId);
+    expect(joined).toBe(true);
+
+    const snapshot = this.client.getDocumentSnapshot()!;
+    this.operationClient = new OperationClient(
+      snapshot.revision,
+      (operations, baseRevision) => this.client.sendOperations(operations, baseRevision)
+    );
+    if (snapshot.content) {
+      this.content = snapshot.content;
+    } else if (initialContent) {
+      this.edit(0, 0, initialContent);
+    }
+    await settle();
+  }
+
+  // 把 [start, end) 替换为 text
+  edit(start: number, end: number, text: string): void {
+    const next = this.content.slice(0, start) + text + this.content.slice(end);
+    const operations = diffToOperations(this.content, next, this.userId);
+    this.content = next;
+    this.operationClient!.applyLocal(operations);
+  }
+
+  getPendingCount(): number {
+    return this.operationClient?.getPendingCount() ?? 0;
+  }
+
+  private receive(message: CollaborationMessage): void {
+    const payload = message.payload || {};
+    const client = this.operationClient;
+
+    if (payload.users) {
+      this.users = payload.users;
+    } else if (message.type === 'join') {
+      this.users = [...this.users.filter(user => user.id !== payload.user.id), payload.user];
+    } else if (message.type === 'leave') {
+      this.users = this.users.filter(user => user.id !== payload.userId);
+    }
+    if (!client) return;
+
+    if (message.type === 'operation' && typeof payload.revision === 'number') {
+      if (payload.revision <= client.getRevision()) return;
+      if (payload.revision > client.getRevision() + 1) {
+        this.client.requestSync(client.getRevision());
+        return;
+      }
+      if (payload.userId === this.userId && !payload.replayed) {
+        client.serverAck(payload.revision);
+        return;
+      }
+      this.content = applyOperations(this.content, client.applyServer(payload.operations, payload.revision));
+    } else if (message.type === 'sync' && typeof payload.revision === 'number') {
+      if (payload.operations) {
+        this.content = applyOperations(this.content, client.applyRecords(payload.operations, this.userId));
+      } else if (payload.content !== undefined) {
+        client.reset(payload.revision);
+        this.content = payload.content;
+      }
+    }
+  }
+}
+
+// 等待连接后安排的追赶和重放执行
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// 暂时扣住发给该传输的消息，模拟网络延迟
+// 返回的函数恢复投递，deliver 为 false 时丢弃扣住的消息，模拟消息丢失
+function delayDelivery(transport: LoopbackTransport): (deliver?: boolean) => void {
+  const held: CollaborationMessage[] = [];
+  const receive = transport.receive.bind(transport);
+  const spy = vi.spyOn(transport, 'receive').mockImplementation(message => {
+    held.push(message);
+  });
+  return (deliver = true) => {
+    spy.mockRestore();
+    const messages = held.splice(0);
+    if (deliver) messages.forEach(receive);
+  };
+}
+
+// 所有编辑器的内容都与会话一致，且没有等待确认的编辑
+function expectConverged(hub: LoopbackHub, editors: TestEditor[]): string {
+  const shared = hub.getHost(SESSION_ID).getSnapshot().content;
+  editors.forEach(editor => {
+    expect(editor.content).toBe(shared);
+    expect(editor.getPendingCount()).toBe(0);
+    expect(editor.client.getQueuedOperationCount()).toBe(0);
+  });
+  return shared;
+}
+
+describe('LoopbackTransport', () => {
+  let hub: LoopbackHub;
+
+  beforeEach(() => {
+    // 客户端的待发送队列和令牌保存在浏览器存储里
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    vi.stubGlobal('sessionStorage', new MemoryStorage());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    hub = new LoopbackHub();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('多个客户端的并发编辑收敛到相同内容', async () => {
+    const alice = new TestEditor(hub, 'alice');
+    const bob = new TestEditor(hub, 'bob');
+    const carol = new TestEditor(hub, 'carol');
+    await alice.join('今天天气很好。');
+    await bob.join();
+    await carol.join();
+    expect(bob.content).toBe('今天天气很好。');
+
+    // 三人都还没收到别人的修改时各自编辑
+    const releases = [alice, bob, carol].map(editor => delayDelivery(editor.transport));
+    alice.edit(2, 4, '阳光');
+    alice.edit(0, 0, '周日，');
+    bob.edit(7, 7, '我们去公园。');
+    carol.edit(0, 2, '明天');
+    releases.forEach(release => release());
+
+    const shared = expectConverged(hub, [alice, bob, carol]);
+    expect(shared).toContain('我们去公园。');
+    expect(shared.startsWith('周日，')).toBe(true);
+  });
+
+  it('断线期间的编辑在恢复连接后重放，且只提交一次', async () => {
+    const alice = new TestEditor(hub, 'alice');
+    const bob = new TestEditor(hub, 'bob');
+    await alice.join('第一章');
+    await bob.join();
+    const revision = hub.getHost(SESSION_ID).getSnapshot().revision;
+
+    bob.transport.simulateOffline();
+    bob.edit(3, 3, '：出发');
+    bob.edit(6, 6, '吧');
+    alice.edit(0, 0, '【草稿】');
+    expect(bob.client.getQueuedOperationCount()).toBe(1);
+    expect(alice.content).toBe('【草稿】第一章');
+
+    bob.transport.simulateOnline();
+    await settle();
+
+    const shared = expectConverged(hub, [alice, bob]);
+    expect(shared).toBe('【草稿】第一章：出发吧');
+    // alice 的一次编辑加上 bob 的两批编辑
+    expect(hub.getHost(SESSION_ID).getSnapshot().revision).toBe(revision + 3);
+  });
+
+  it('确认丢失的编辑重新加入后按 clientOperationId 去重', async () => {
+    const alice = new TestEditor(hub, 'alice');
+    const bob = new TestEditor(hub, 'bob');
+    await alice.join('开头');
+    await bob.join();
+    const revision = hub.getHost(SESSION_ID).getSnapshot().revision;
+
+    // 会话已经提交了 bob 的编辑，但确认没有送达
+    const release = delayDelivery(bob.transport);
+    bob.edit(2, 2, '和结尾');
+    expect(bob.client.getQueuedOperationCount()).toBe(1);
+    bob.transport.simulateOffline();
+    release(false);
+
+    // 补发的记录里有这条编辑，重连后不会再次提交
+    bob.transport.simulateOnline();
+    await settle();
+    expectConverged(hub, [alice, bob]);
+    expect(alice.content).toBe('开头和结尾');
+    expect(hub.getHost(SESSION_ID).getSnapshot().revision).toBe(revision + 1);
+  });
+
+  it('刷新页面后以新身份重放遗留的编辑，会话只回复确认', async () => {
+    const alice = new TestEditor(hub, 'alice');
+    const bob = new TestEditor(hub, 'bob');
+    await alice.join('开头');
+    await bob.join();
+    const revision = hub.getHost(SESSION_ID).getSnapshot().revision;
+
+    const release = delayDelivery(bob.transport);
+    bob.edit(2, 2, '和结尾');
+    bob.transport.simulateOffline();
+    release(false);
+
+    // 新页面读取同一个标签页留下的队列，以 replayed 标记重放
+    const reloaded = new TestEditor(hub, 'bob-reloaded');
+    expect(reloaded.client.getQueuedOperationCount()).toBe(0);
+    await reloaded.join();
+    expectConverged(hub, [alice, reloaded]);
+    expect(reloaded.content).toBe('开头和结尾');
+    expect(hub.getHost(SESSION_ID).getSnapshot().revision).toBe(revision + 1);
+  });
+
+  it('长时间断线的成员被移出会话，恢复连接后重新加入', async () => {
+    const alice = new TestEditor(hub, 'alice');
+    const bob = new TestEditor(hub, 'bob');
+    await alice.join('内容');
+    await bob.join();
+    expect(alice.users.map(user => user.id)).toEqual(['alice', 'bob']);
+
+    // 过了离线时间，只有 alice 还有心跳
+    bob.transport.simulateOffline();
+    const later = Date.now() + 6 * 60 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+    alice.client.sendHeartbeat('alice');
+    hub.checkActivity(later);
+    expect(alice.users.map(user => user.id)).toEqual(['alice']);
+
+    bob.transport.simulateOnline();
+    await settle();
+    expect(alice.users.map(user => user.id)).toEqual(['alice', 'bob']);
+    expectConverged(hub, [alice, bob]);
+  });
+});
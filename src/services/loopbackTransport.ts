@@ -0,0 +1,149 @@
+import { HostDelivery, LocalSessionHost, MemoryStorage } from './sessionHost';
+import type { SessionRole } from '../types/Collaboration';
+import type {
+  CollaborationMessage,
+  JoinRequest,
+  JoinResult,
+  Transport,
+  TransportMessageHandler,
+  TransportStatusHandler
+} from './transport';
+
+// 内存中的协作会话，连接到同一个实例的传输互相可见，消息同步投递
+// 用于测试和演示多个客户端的协作，不依赖浏览器环境
+export class LoopbackHub {
+  private storage = new MemoryStorage();
+  private hosts = new Map<string, LocalSessionHost>();
+  private members = new Set<LoopbackTransport>();
+
+  createTransport(): LoopbackTransport {
+    return new LoopbackTransport(this);
+  }
+
+  getHost(sessionId: string): LocalSessionHost {
+    let host = this.hosts.get(sessionId);
+    if (!host) {
+      host = new LocalSessionHost(this.storage, sessionId);
+      this.hosts.set(sessionId, host);
+    }
+    return host;
+  }
+
+  // 模拟经过一段时间，检查所有会话成员的活动状态
+  checkActivity(now: number = Date.now()): void {
+    this.hosts.forEach((host, sessionId) => this.dispatch(sessionId, null, host.checkActivity(now)));
+  }
+
+  addMember(transport: LoopbackTransport): void {
+    this.members.add(transport);
+  }
+
+  removeMember(transport: LoopbackTransport): void {
+    this.members.delete(transport);
+  }
+
+  // 回复只交给发送者，广播交给同一会话的所有成员
+  dispatch(sessionId: string, sender: LoopbackTransport | null, deliveries: HostDelivery[]): void {
+    deliveries.forEach(delivery => {
+      if (delivery.target === 'sender') {
+        sender?.receive(delivery.message);
+        return;
+      }
+      this.members.forEach(member => {
+        if (member.getSessionId() === sessionId) member.receive(delivery.message);
+      });
+    });
+  }
+}
+
+export class LoopbackTransport implements Transport {
+  private hub: LoopbackHub;
+  private request: JoinRequest | null = null;
+  private online: boolean = true;
+  private messageHandler: TransportMessageHandler | null = null;
+  private statusHandler: TransportStatusHandler | null = null;
+
+  constructor(hub: LoopbackHub) {
+    this.hub = hub;
+  }
+
+  public getSessionId(): string | null {
+    return this.request?.sessionId ?? null;
+  }
+
+  public isConnected(): boolean {
+    return this.request !== null && this.online;
+  }
+
+  public setMessageHandler(handler: TransportMessageHandler | null): void {
+    this.messageHandler = handler;
+  }
+
+  public setStatusHandler(handler: TransportStatusHandler | null): void {
+    this.statusHandler = handler;
+  }
+
+  public async connect(request: JoinRequest): Promise<JoinResult> {
+    if (this.request) {
+      this.disconnect();
+    }
+
+    const { result, deliveries } = this.hub.getHost(request.sessionId).join(request);
+    if (!result.success) return result;
+
+    this.request = request;
+    this.online = true;
+    this.hub.addMember(this);
+    this.hub.dispatch(request.sessionId, this, deliveries);
+    return result;
+  }
+
+  public disconnect(): void {
+    if (!this.request) return;
+
+    const { sessionId, userId } = this.request;
+    this.request = null;
+    this.hub.removeMember(this);
+    this.hub.dispatch(sessionId, null, this.hub.getHost(sessionId).leave(userId));
+  }
+
+  // 内存中的会话不校验令牌
+  public async createInvite(_sessionId: string, _role: SessionRole, _ownerToken: string | null): Promise<string | null> {
+    return null;
+  }
+
+  public send(message: CollaborationMessage): void {
+    if (!this.request || !this.online) return;
+
+    const { sessionId, userId } = this.request;
+    this.hub.dispatch(sessionId, this, this.hub.getHost(sessionId).handle(userId, message));
+  }
+
+  // 模拟网络中断，会话中的成员身份保留，恢复时重新加入
+  public simulateOffline(): void {
+    if (!this.isConnected()) return;
+    this.online = false;
+    this.hub.removeMember(this);
+    this.statusHandler?.(false);
+  }
+
+  public simulateOnline(): void {
+    if (!this.request || this.online) return;
+
+    const { result, deliveries } = this.hub.getHost(this.request.sessionId).join(this.request);
+    if (!result.success) return;
+
+    this.online = true;
+    this.hub.addMember(this);
+    this.hub.dispatch(this.request.sessionId, this, deliveries);
+    this.statusHandler?.(true);
+  }
+
+  receive(message: CollaborationMessage): void {
+    try {
+      this.messageHandler?.(message);
+    } catch (error) {
+      console.error('消息处理错误:', error);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import type { Novel } from '../store/novelStore';
+import { DEFAULT_VOLUME_TITLE } from './novelStructure';
+
+// 导出Markdown：书名为一级标题，卷为二级标题，章为三级标题
+
+// 纯文本正文中会被当成Markdown标记的字符需要转义
+function escapeMarkdown(line: string): string {
+  return line
+    .replace(/([\\`*_~\[\]{|｜])/g, '\\$1')
+    .replace(/^(#{1,6}\s)/, '\\$1')
+    .replace(/^(\s*)([-+])(\s)/, '$1\\$2$3')
+    .replace(/^(\s*)>/, '$1\\>')
+    .replace(/^(\s*\d+)\.(\s)/, '$1\\.$2');
+}
+
+// 正文中的标题下移三级，排在章标题之下
+function shiftHeading(line: string): string {
+  return line.replace(/^(#{1,6})(?=\s)/, marks => '#'.repeat(Math.min(marks.length + 3, 6)));
+}
+
+function chapterContent(content: string, useMarkdown: boolean): string {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => useMarkdown ? shiftHeading(line) : escapeMarkdown(line))
+    .join('\n\n');
+}
+
+export function exportMarkdown(novel: Novel, useMarkdown: boolean): string {
+  const showVolumes = !(novel.volumes.length === 1 && novel.volumes[0].title === DEFAULT_VOLUME_TITLE);
+
+  const sections = [
+    `# ${novel.title || '无标题小说'}`,
+    novel.author ? `${escapeMarkdown(novel.author)} 著` : null,
+    ...novel.volumes.flatMap(volume => [
+      showVolumes ? `## ${volume.title}` : null,
+      ...volume.chapters.flatMap(chapter => [
+        `### ${chapter.title}`,
+        chapterContent(chapter.content, useMarkdown) || null
+      ])
+    ])
+  ].filter(section => section !== null);
+
+  return `${sections.join('\n\n')}\n`;
+}
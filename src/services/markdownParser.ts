@@ -0,0 +1,167 @@
+// 小说正文用到的Markdown子集：标题、段落、引用、场景分隔、粗体、斜体、删除线和注音
+// 导出和预览共用，每行一个段落，和编辑器里回车分段的写法一致
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  ruby?: string; // 注音（假名或拼音），text 是被注音的文字
+  marker?: boolean; // 标记字符本身，只在保留标记时出现
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; runs: InlineRun[] }
+  | { type: 'paragraph'; runs: InlineRun[] }
+  | { type: 'quote'; runs: InlineRun[] }
+  | { type: 'sceneBreak' };
+
+// 单独一行的 *** / --- / * * * / ＊＊＊ / ※※※ 等表示场景分隔
+const SCENE_BREAK_PATTERN = /^\s*([*\-_＊※◇◆])(\s*\1){2,}\s*$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+// 注音的两种写法：{汉字|hàn zì} 和青空文库的 ｜漢字《かんじ》
+const RUBY_PATTERNS = [/^\{([^{}|]+)\|([^{}]+)\}/, /^[|｜]([^|｜《》]+)《([^《》]+)》/];
+
+type Marker = '**' | '__' | '*' | '_' | '~~';
+
+// 标记对应的格式
+const MARKER_STYLES: Record<Marker, 'bold' | 'italic' | 'strike'> = {
+  '**': 'bold',
+  '__': 'bold',
+  '*': 'italic',
+  '_': 'italic',
+  '~~': 'strike'
+};
+
+export function isSceneBreak(line: string): boolean {
+  return SCENE_BREAK_PATTERN.test(line);
+}
+
+// 查找配对的结束标记，跳过转义字符，结束标记前不能是空白
+function hasClosing(text: string, marker: Marker, from: number): boolean {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(marker, i) && i > from && !/\s/.test(text[i - 1])) {
+      // 单个 * 或 _ 不能是 ** 或 __ 的一部分
+      if (marker.length === 1 && (text[i + 1] === marker || text[i - 1] === marker)) continue;
+      return true;
+    }
+  }
+  return false;
+}
+
+// 解析行内格式，没有配对的标记按原样保留，反斜杠转义下一个字符
+// keepMarkers 为 true 时标记字符也作为片段返回，所有片段拼起来就是原文，供编辑器高亮使用
+export function parseInline(text: string, keepMarkers = false): InlineRun[] {
+  const runs: InlineRun[] = [];
+  const active: Marker[] = [];
+  let buffer = '';
+
+  const style = (): Omit<InlineRun, 'text'> => {
+    const result: Omit<InlineRun, 'text'> = {};
+    active.forEach(marker => {
+      result[MARKER_STYLES[marker]] = true;
+    });
+    return result;
+  };
+  const flush = () => {
+    if (buffer) {
+      runs.push({ text: buffer, ...style() });
+      buffer = '';
+    }
+  };
+  const pushMarker = (marker: string) => {
+    if (!keepMarkers || !marker) return;
+    flush();
+    runs.push({ text: marker, ...style(), marker: true });
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length && /[\\`*_~#\[\]()>{}|｜-]/.test(text[i + 1])) {
+      pushMarker('\\');
+      buffer += text[++i];
+      continue;
+    }
+
+    const ruby = '{|｜'.includes(text[i])
+      ? RUBY_PATTERNS.map(pattern => text.slice(i).match(pattern)).find(match => match)
+      : null;
+    if (ruby) {
+      pushMarker(text[i]);
+      flush();
+      runs.push({ text: ruby[1], ...style(), ruby: ruby[2].trim() });
+      pushMarker(ruby[0].slice(ruby[1].length + 1));
+      i += ruby[0].length - 1;
+      continue;
+    }
+
+    const marker = (['**', '__', '~~', '*', '_'] as Marker[]).find(m => text.startsWith(m, i));
+    if (!marker) {
+      buffer += text[i];
+      continue;
+    }
+
+    if (active.includes(marker)) {
+      // 关闭标记，同时关闭它之后打开的标记
+      flush();
+      pushMarker(marker);
+      active.splice(active.indexOf(marker));
+      i += marker.length - 1;
+    } else if (
+      !/\s/.test(text[i + marker.length] || ' ') &&
+      !(marker[0] === '_' && /[A-Za-z0-9]/.test(text[i - 1] || '')) &&
+      hasClosing(text, marker, i + marker.length)
+    ) {
+      // 后面有配对的标记才视为格式，开始标记后不能是空白，单词中间的下划线不算
+      flush();
+      active.push(marker);
+      pushMarker(marker);
+      i += marker.length - 1;
+    } else {
+      buffer += marker;
+      i += marker.length - 1;
+    }
+  }
+  flush();
+  return runs;
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+
+  text.split('\n').forEach(line => {
+    if (line.trim() === '') return;
+
+    if (isSceneBreak(line)) {
+      blocks.push({ type: 'sceneBreak' });
+      return;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+      return;
+    }
+
+    const quote = line.match(QUOTE_PATTERN);
+    if (quote) {
+      blocks.push({ type: 'quote', runs: parseInline(quote[1].trim()) });
+      return;
+    }
+
+    blocks.push({ type: 'paragraph', runs: parseInline(line.trim()) });
+  });
+
+  return blocks;
+}
+
+// 纯文本正文：每个非空行一个段落，不解析任何标记
+export function parsePlainText(text: string): MarkdownBlock[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => ({ type: 'paragraph', runs: [{ text: line }] }));
+}
@@ -0,0 +1,281 @@
+import type { Chapter, Character, Novel, Volume } from '../store/novelStore';
+import type { NovelSnapshot } from './versionHistory';
+import { countWords } from './novelStructure';
+
+// 小说、章节和角色保存在IndexedDB中，novelStore只是内存中的视图
+// 小说记录只保存卷的结构（章节ID的顺序），章节正文单独存储，编辑一章时只需要写入这一章
+const DB_NAME = 'smalltown-writer';
+const META_LEGACY_IMPORTED = 'legacyImported';
+
+// 数据库中的卷，只记录章节顺序
+interface StoredVolume {
+  id: string;
+  title: string;
+  chapterIds: string[];
+}
+
+type StoredNovel = Omit<Novel, 'volumes'> & { volumes: StoredVolume[] };
+type StoredChapter = Chapter & { novelId: string };
+
+export interface Workspace {
+  novels: Novel[];
+  characters: Character[];
+}
+
+// 按顺序执行的表结构迁移，数据库版本号等于已执行的迁移数
+// 已经发布的迁移不能修改，结构变化时在末尾追加新的迁移
+const MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // 版本1：小说、章节、角色分开存储，meta保存迁移标记
+  db => {
+    db.createObjectStore('novels', { keyPath: 'id' });
+    db.createObjectStore('chapters', { keyPath: 'id' }).createIndex('novelId', 'novelId');
+    db.createObjectStore('characters', { keyPath: 'id' }).createIndex('novelId', 'novelId');
+    db.createObjectStore('meta');
+  },
+  // 版本2：小说的历史版本
+  db => {
+    db.createObjectStore('snapshots', { keyPath: 'id' }).createIndex('novelId', 'novelId');
+  }
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+          console.log(`升级小说数据库到版本 ${version + 1}`);
+          MIGRATIONS[version](db, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // 其他标签页升级数据库时关闭连接，下次使用时重新打开
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('小说数据库升级被其他标签页阻塞，请关闭其他标签页');
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('事务已中止'));
+  });
+}
+
+function toStoredNovel(novel: Novel): StoredNovel {
+  return {
+    ...novel,
+    volumes: novel.volumes.map(volume => ({
+      id: volume.id,
+      title: volume.title,
+      chapterIds: volume.chapters.map(chapter => chapter.id)
+    }))
+  };
+}
+
+// 按卷结构组装章节，卷中找不到的章节跳过
+function fromStoredNovel(stored: StoredNovel, chapters: Map<string, Chapter>): Novel {
+  return {
+    ...stored,
+    volumes: stored.volumes.map((volume): Volume => ({
+      id: volume.id,
+      title: volume.title,
+      chapters: volume.chapterIds
+        .map(id => chapters.get(id))
+        .filter((chapter): chapter is Chapter => !!chapter)
+    }))
+  };
+}
+
+function toStoredChapter(chapter: Chapter, novelId: string): StoredChapter {
+  return { ...chapter, novelId };
+}
+
+// 字数按当前的统计规则重新计算，旧版本保存的字数是非空白字符数
+function fromStoredChapter({ novelId: _novelId, ...chapter }: StoredChapter): Chapter {
+  return { ...chapter, wordCount: countWords(chapter.content) };
+}
+
+// 删除索引中属于该小说的所有记录
+function deleteByNovelId(store: IDBObjectStore, novelId: string): void {
+  store.index('novelId').openKeyCursor(IDBKeyRange.only(novelId)).onsuccess = event => {
+    const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+// 写入整部小说和它的所有章节
+function putNovel(transaction: IDBTransaction, novel: Novel): void {
+  transaction.objectStore('novels').put(toStoredNovel(novel));
+  novel.volumes.forEach(volume => volume.chapters.forEach(chapter => {
+    transaction.objectStore('chapters').put(toStoredChapter(chapter, novel.id));
+  }));
+}
+
+// 读取所有小说和角色
+export async function loadWorkspace(): Promise<Workspace> {
+  const db = await openDatabase();
+  const transaction = db.transaction(['novels', 'chapters', 'characters'], 'readonly');
+
+  const [storedNovels, storedChapters, characters] = await Promise.all([
+    requestResult(transaction.objectStore('novels').getAll() as IDBRequest<StoredNovel[]>),
+    requestResult(transaction.objectStore('chapters').getAll() as IDBRequest<StoredChapter[]>),
+    requestResult(transaction.objectStore('characters').getAll() as IDBRequest<Character[]>)
+  ]);
+
+  const chapters = new Map(storedChapters.map(chapter => [chapter.id, fromStoredChapter(chapter)]));
+  const novels = storedNovels
+    .map(novel => fromStoredNovel(novel, chapters))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  return { novels, characters };
+}
+
+// 把localStorage中的旧数据导入数据库，只导入一次，之后返回false
+export async function importLegacyWorkspace(workspace: Workspace): Promise<boolean> {
+  const db = await openDatabase();
+  const transaction = db.transaction(['novels', 'chapters', 'characters', 'meta'], 'readwrite');
+  const meta = transaction.objectStore('meta');
+
+  const imported = await requestResult(meta.get(META_LEGACY_IMPORTED));
+  if (imported) return false;
+
+  workspace.novels.forEach(novel => putNovel(transaction, novel));
+  workspace.characters.forEach(character => transaction.objectStore('characters').put(character));
+  meta.put(new Date(), META_LEGACY_IMPORTED);
+
+  await transactionDone(transaction);
+  console.log(`已将 ${workspace.novels.length} 部小说和 ${workspace.characters.length} 个角色迁移到IndexedDB`);
+  return true;
+}
+
+// 对比前后两次状态，只写入变化的小说、章节和角色
+// store中的更新都是不可变的，没有变化的对象保持同一个引用
+export async function saveWorkspaceChanges(previous: Workspace, next: Workspace): Promise<void> {
+  if (previous.novels === next.novels && previous.characters === next.characters) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(['novels', 'chapters', 'characters', 'snapshots'], 'readwrite');
+  const novelStore = transaction.objectStore('novels');
+  const chapterStore = transaction.objectStore('chapters');
+  const characterStore = transaction.objectStore('characters');
+
+  if (previous.novels !== next.novels) {
+    const previousNovels = new Map(previous.novels.map(novel => [novel.id, novel]));
+
+    next.novels.forEach(novel => {
+      const previousNovel = previousNovels.get(novel.id);
+      previousNovels.delete(novel.id);
+      if (previousNovel === novel) return;
+
+      if (!previousNovel) {
+        putNovel(transaction, novel);
+        return;
+      }
+
+      novelStore.put(toStoredNovel(novel));
+
+      const previousChapters = new Map(
+        previousNovel.volumes.flatMap(volume => volume.chapters).map(chapter => [chapter.id, chapter])
+      );
+      novel.volumes.forEach(volume => volume.chapters.forEach(chapter => {
+        if (previousChapters.get(chapter.id) !== chapter) {
+          chapterStore.put(toStoredChapter(chapter, novel.id));
+        }
+        previousChapters.delete(chapter.id);
+      }));
+      previousChapters.forEach((_chapter, id) => chapterStore.delete(id));
+    });
+
+    // 删除的小说连同章节和历史版本一起删除
+    previousNovels.forEach((_novel, id) => {
+      novelStore.delete(id);
+      deleteByNovelId(chapterStore, id);
+      deleteByNovelId(transaction.objectStore('snapshots'), id);
+    });
+  }
+
+  if (previous.characters !== next.characters) {
+    const previousCharacters = new Map(previous.characters.map(character => [character.id, character]));
+    next.characters.forEach(character => {
+      if (previousCharacters.get(character.id) !== character) {
+        characterStore.put(character);
+      }
+      previousCharacters.delete(character.id);
+    });
+    previousCharacters.forEach((_character, id) => characterStore.delete(id));
+  }
+
+  await transactionDone(transaction);
+}
+
+export async function putSnapshot(snapshot: NovelSnapshot): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction('snapshots', 'readwrite');
+  transaction.objectStore('snapshots').put(snapshot);
+  await transactionDone(transaction);
+}
+
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction('snapshots', 'readwrite');
+  ids.forEach(id => transaction.objectStore('snapshots').delete(id));
+  await transactionDone(transaction);
+}
+
+// 读取一部小说的所有历史版本，按时间从新到旧排列
+export async function getSnapshots(novelId: string): Promise<NovelSnapshot[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction('snapshots', 'readonly');
+  const snapshots = await requestResult(
+    transaction.objectStore('snapshots').index('novelId').getAll(IDBKeyRange.only(novelId)) as IDBRequest<NovelSnapshot[]>
+  );
+  return snapshots.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+// 读取所有小说的历史版本，用于备份工作区
+export async function getAllSnapshots(): Promise<NovelSnapshot[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction('snapshots', 'readonly');
+  return requestResult(transaction.objectStore('snapshots').getAll() as IDBRequest<NovelSnapshot[]>);
+}
+
+// 批量写入历史版本，相同ID的版本会被覆盖
+export async function putSnapshots(snapshots: NovelSnapshot[]): Promise<void> {
+  if (snapshots.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction('snapshots', 'readwrite');
+  snapshots.forEach(snapshot => transaction.objectStore('snapshots').put(snapshot));
+  await transactionDone(transaction);
+}
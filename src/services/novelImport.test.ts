@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText, importNovelFile } from './novelImport';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+// 每卷的标题和章节标题
+function outline(volumes: { title: string; chapters: { title: string }[] }[]) {
+  return volumes.map(volume => [volume.title, volume.chapters.map(chapter => chapter.title)]);
+}
+
+describe('decodeText', () => {
+  it('按BOM识别UTF-8和UTF-16', () => {
+    expect(decodeText(Uint8Array.from([0xef, 0xbb, 0xbf, ...utf8('第一章')]))).toBe('第一章');
+    expect(decodeText(Uint8Array.from([0xff, 0xfe, 0x2c, 0x7b, 0x00, 0x4e]))).toBe('第一');
+    expect(decodeText(Uint8Array.from([0xfe, 0xff, 0x7b, 0x2c, 0x4e, 0x00]))).toBe('第一');
+  });
+
+  it('没有BOM的UTF-8直接解码', () => {
+    expect(decodeText(utf8('小镇写作'))).toBe('小镇写作');
+  });
+
+  it('不是合法UTF-8时按GB18030解码', () => {
+    // 「第一章中文」的GBK编码
+    const gbk = Uint8Array.from([0xb5, 0xda, 0xd2, 0xbb, 0xd5, 0xc2, 0xd6, 0xd0, 0xce, 0xc4]);
+    expect(decodeText(gbk)).toBe('第一章中文');
+  });
+});
+
+describe('importNovelFile', () => {
+  it('TXT按「第X卷」「第X章」切分，开头的书名和作者作为元数据', async () => {
+    const text = [
+      '《山城旧事》',
+      '作者：林间',
+      '',
+      '第一卷 少年',
+      '第一章 出发',
+      '　　天还没亮，他就出门了。',
+      '第2章：雨夜',
+      '雨下了一整夜。',
+      '第二卷　归来',
+      '第十二回',
+      '他回来了。'
+    ].join('\r\n');
+    const novel = await importNovelFile(new File([text], '山城.txt'));
+
+    expect(novel.title).toBe('山城旧事');
+    expect(novel.author).toBe('林间');
+    expect(novel.markdown).toBe(false);
+    expect(outline(novel.volumes)).toEqual([
+      ['第一卷 少年', ['第一章 出发', '第2章：雨夜']],
+      ['第二卷　归来', ['第十二回']]
+    ]);
+    // 段首的全角缩进被去掉
+    expect(novel.volumes[0].chapters[0].content).toBe('天还没亮，他就出门了。');
+  });
+
+  it('章节标题后必须是分隔符或行尾，过长的行是正文', async () => {
+    const text = [
+      '楔子',
+      '很久以前。',
+      '第一章',
+      '第三章节奏很快，这一行不是标题。',
+      `第二章${'很长的正文'.repeat(12)}`,
+      'Chapter 2 The Return',
+      '尾声'
+    ].join('\n');
+    const novel = await importNovelFile(new File([text], '故事.txt'));
+
+    expect(novel.title).toBe('故事');
+    expect(outline(novel.volumes)).toEqual([['正文', ['楔子', '第一章', 'Chapter 2 The Return', '尾声']]]);
+    expect(novel.volumes[0].chapters[1].content.split('\n')).toHaveLength(2);
+  });
+
+  it('第一章之前的内容作为前言，没有章节时整本作为一章', async () => {
+    const withPreface = await importNovelFile(new File(['写在前面的话\n第一章\n正文'], 'a.txt'));
+    expect(outline(withPreface.volumes)).toEqual([['正文', ['前言', '第一章']]]);
+
+    const plain = await importNovelFile(new File(['只有一段正文'], 'b.txt'));
+    expect(outline(plain.volumes)).toEqual([['正文', ['第一章']]]);
+  });
+
+  it('GBK编码的TXT也能识别章节', async () => {
+    // 「第一章」换行「中文」
+    const gbk = Uint8Array.from([0xb5, 0xda, 0xd2, 0xbb, 0xd5, 0xc2, 0x0a, 0xd6, 0xd0, 0xce, 0xc4]);
+    const novel = await importNovelFile(new File([gbk], 'gbk.txt'));
+    expect(outline(novel.volumes)).toEqual([['正文', ['第一章']]]);
+    expect(novel.volumes[0].chapters[0].content).toBe('中文');
+  });
+
+  it('Markdown中像「第X章」的标题级别是章节，更高的是卷，更低的留在正文', async () => {
+    const text = [
+      '# 山城旧事',
+      '',
+      '## 第一部',
+      '',
+      '### 第一章 出发',
+      '',
+      '#### 清晨',
+      '',
+      '天还**没亮**。',
+      '',
+      '### 第二章 雨夜'
+    ].join('\n');
+    const novel = await importNovelFile(new File([text], 'book.md'));
+
+    expect(novel.title).toBe('山城旧事');
+    expect(novel.markdown).toBe(true);
+    expect(outline(novel.volumes)).toEqual([['第一部', ['第一章 出发', '第二章 雨夜']]]);
+    expect(novel.volumes[0].chapters[0].content).toBe('# 清晨\n天还**没亮**。');
+  });
+
+  it('不支持的扩展名报错', async () => {
+    await expect(importNovelFile(new File(['x'], 'a.pdf'))).rejects.toThrow('不支持的文件格式: pdf');
+  });
+});
@@ -0,0 +1,618 @@
+import type { Volume } from '../store/novelStore';
+import { DEFAULT_VOLUME_TITLE, createChapter, createVolume } from './novelStructure';
+import { InlineRun } from './markdownParser';
+import { ZipArchive } from './zipReader';
+
+// 从TXT、Markdown、DOCX和EPUB文件导入小说
+// 各种格式先转成一行一段的正文行，再按标题或「第X章」这样的行切分卷和章节
+
+export interface ImportedNovel {
+  title: string;
+  author?: string;
+  tags?: string[];
+  coverImage?: string;
+  volumes: Volume[];
+  markdown: boolean; // 正文是否保留了Markdown格式
+}
+
+// 正文行，level 大于0表示标题的级别
+interface SourceLine {
+  text: string;
+  level: number;
+}
+
+interface BookMetadata {
+  title?: string;
+  author?: string;
+  tags?: string[];
+  coverImage?: string;
+}
+
+export const IMPORT_FILE_ACCEPT = '.txt,.md,.markdown,.docx,.epub';
+
+const CHINESE_NUMBER = '[0-9０-９零〇一二两三四五六七八九十百千万]+';
+const HEADING_SEPARATOR = '(?:[\\s:：.、．·\\-—]|$)';
+const CHAPTER_PATTERN = new RegExp(
+  `^(?:第\\s*${CHINESE_NUMBER}\\s*[章回节話话]|序章|序言|序|楔子|引子|前言|尾声|终章|后记|番外[0-9一二三四五六七八九十]*|chapter\\s*\\d+)${HEADING_SEPARATOR}`,
+  'i'
+);
+const VOLUME_PATTERN = new RegExp(`^(?:第\\s*${CHINESE_NUMBER}\\s*[卷部集]|卷\\s*${CHINESE_NUMBER})${HEADING_SEPARATOR}`);
+// 超过这个长度的行是正文，不会是章节标题
+const MAX_HEADING_LENGTH = 50;
+const PREFACE_TITLE = '前言';
+const SCENE_BREAK_TEXT = '＊　＊　＊';
+
+function isChapterHeading(text: string): boolean {
+  return text.length <= MAX_HEADING_LENGTH && CHAPTER_PATTERN.test(text);
+}
+
+function isVolumeHeading(text: string): boolean {
+  return text.length <= MAX_HEADING_LENGTH && VOLUME_PATTERN.test(text);
+}
+
+// 去掉行首的半角和全角空格（原文的段首缩进）
+function cleanLine(line: string): string {
+  return line.replace(/^[\s　]+|[\s　]+$/g, '');
+}
+
+// TXT文件常见UTF-8和GBK两种编码，不是合法UTF-8时按GB18030（兼容GBK）解码
+export function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('gb18030').decode(bytes);
+  }
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~\[\]{|｜])/g, '\\$1');
+}
+
+// 把带格式的文字片段转成Markdown，或者在纯文本模式下只保留文字
+function renderRuns(runs: InlineRun[], markdown: boolean): string {
+  return runs.map(run => {
+    if (!markdown) return run.text;
+    // 标记不能包住首尾空白，否则不会被识别为格式
+    const [, leading, body, trailing] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!body) return run.text;
+    let text = escapeMarkdown(body);
+    if (run.strike) text = `~~${text}~~`;
+    if (run.italic) text = `*${text}*`;
+    if (run.bold) text = `**${text}**`;
+    return `${leading}${text}${trailing}`;
+  }).join('');
+}
+
+function hasFormatting(runs: InlineRun[]): boolean {
+  return runs.some(run => run.text.trim() && (run.bold || run.italic || run.strike));
+}
+
+// 合并相邻的同格式片段，避免生成 **a****b** 这样的标记
+function mergeRuns(runs: InlineRun[]): InlineRun[] {
+  const merged: InlineRun[] = [];
+  runs.forEach(run => {
+    const last = merged[merged.length - 1];
+    if (last && !!last.bold === !!run.bold && !!last.italic === !!run.italic && !!last.strike === !!run.strike) {
+      last.text += run.text;
+    } else if (run.text) {
+      merged.push({ ...run });
+    }
+  });
+  return merged;
+}
+
+// 书名和作者：Markdown和DOCX开头的一级标题是书名，紧跟的「某某 著」是作者
+// TXT开头常见「《书名》」和「作者：某某」两行
+function extractMetadata(lines: SourceLine[]): { lines: SourceLine[]; title?: string; author?: string } {
+  let title: string | undefined;
+  let author: string | undefined;
+  let rest = lines;
+
+  const topHeadings = lines.filter(line => line.level === 1);
+  if (topHeadings.length === 1 && lines.find(line => line.level > 0) === topHeadings[0]) {
+    title = topHeadings[0].text;
+    rest = rest.filter(line => line !== topHeadings[0]);
+  }
+
+  // 只在第一个章节之前查找
+  const firstHeading = rest.findIndex(line => line.level > 0 || isChapterHeading(line.text) || isVolumeHeading(line.text));
+  const preface = firstHeading < 0 ? rest.slice(0, 5) : rest.slice(0, Math.min(firstHeading, 5));
+  preface.forEach(line => {
+    const bookTitle = line.text.match(/^《(.+)》$/);
+    const byline = line.text.match(/^(?:作者[:：]\s*(.+)|(.{1,30}?)\s*著)$/);
+    if (bookTitle && !title) {
+      title = bookTitle[1];
+    } else if (byline && !author) {
+      author = (byline[1] || byline[2]).trim();
+    } else {
+      return;
+    }
+    rest = rest.filter(item => item !== line);
+  });
+
+  return { lines: rest, title, author };
+}
+
+// 按标题或章节名切分卷和章节
+// 有标题时，文字像「第X章」的那一级是章节，比它高的是卷，更低的标题留在正文中
+// 没有标题时逐行匹配「第X卷」「第X章」
+function buildVolumes(lines: SourceLine[], markdown: boolean): Volume[] {
+  const headingLevels = Array.from(new Set(lines.filter(line => line.level > 0).map(line => line.level))).sort((a, b) => a - b);
+  let chapterLevel = 0;
+  if (headingLevels.length > 0) {
+    const chapterLike = headingLevels.find(level =>
+      lines.some(line => line.level === level && isChapterHeading(line.text)));
+    const volumeLike = headingLevels.find(level =>
+      lines.some(line => line.level === level && isVolumeHeading(line.text)));
+    chapterLevel = chapterLike
+      ?? (volumeLike !== undefined ? headingLevels.find(level => level > volumeLike) : undefined)
+      ?? headingLevels[0];
+  }
+
+  const classify = (line: SourceLine): 'volume' | 'chapter' | 'body' => {
+    if (chapterLevel > 0) {
+      if (line.level === chapterLevel) return 'chapter';
+      if (line.level > 0 && line.level < chapterLevel) return 'volume';
+      return 'body';
+    }
+    if (isVolumeHeading(line.text)) return 'volume';
+    if (isChapterHeading(line.text)) return 'chapter';
+    return 'body';
+  };
+
+  const volumes: Volume[] = [];
+  let volume: Volume | null = null;
+  let chapter: { title: string; content: string[] } | null = null;
+
+  const finishChapter = () => {
+    if (!chapter) return;
+    if (!volume) {
+      volume = createVolume(DEFAULT_VOLUME_TITLE);
+      volumes.push(volume);
+    }
+    volume.chapters.push(createChapter(chapter.title, chapter.content.join('\n')));
+    chapter = null;
+  };
+
+  lines.forEach(line => {
+    const kind = classify(line);
+    if (kind === 'volume') {
+      finishChapter();
+      volume = createVolume(line.text);
+      volumes.push(volume);
+    } else if (kind === 'chapter') {
+      finishChapter();
+      chapter = { title: line.text, content: [] };
+    } else {
+      if (!chapter) {
+        // 第一章之前的内容
+        chapter = { title: volumes.length === 0 ? PREFACE_TITLE : '第一章', content: [] };
+      }
+      chapter.content.push(line.level > 0 && markdown
+        ? `${'#'.repeat(Math.max(1, line.level - chapterLevel))} ${line.text}`
+        : line.text);
+    }
+  });
+  finishChapter();
+
+  // 没有识别出任何章节时整本作为一章
+  const nonEmpty = volumes.filter(item => item.chapters.length > 0);
+  if (nonEmpty.length === 1 && nonEmpty[0].title === DEFAULT_VOLUME_TITLE
+    && nonEmpty[0].chapters.length === 1 && nonEmpty[0].chapters[0].title === PREFACE_TITLE) {
+    nonEmpty[0].chapters[0].title = '第一章';
+  }
+  return nonEmpty.length > 0 ? nonEmpty : [createVolume(DEFAULT_VOLUME_TITLE, [createChapter('第一章')])];
+}
+
+function buildNovel(lines: SourceLine[], markdown: boolean, metadata: BookMetadata, fallbackTitle: string): ImportedNovel {
+  const extracted = extractMetadata(lines);
+  return {
+    title: metadata.title || extracted.title || fallbackTitle,
+    author: metadata.author || extracted.author,
+    tags: metadata.tags && metadata.tags.length > 0 ? metadata.tags : undefined,
+    coverImage: metadata.coverImage,
+    volumes: buildVolumes(extracted.lines, markdown),
+    markdown
+  };
+}
+
+function importText(text: string, fileName: string): ImportedNovel {
+  const lines = text
+    .split(/\r\n|\r|\n/)
+    .map(cleanLine)
+    .filter(line => line.length > 0)
+    .map(line => ({ text: line, level: 0 }));
+  return buildNovel(lines, false, {}, fileName);
+}
+
+function importMarkdown(text: string, fileName: string): ImportedNovel {
+  const lines = text
+    .split(/\r\n|\r|\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      return heading ? { text: heading[2], level: heading[1].length } : { text: line, level: 0 };
+    });
+  return buildNovel(lines, true, {}, fileName);
+}
+
+// ---- XML文档 ----
+
+function parseXml(text: string, type: DOMParserSupportedType = 'application/xml'): Document {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('文件内容格式错误');
+  }
+  return doc;
+}
+
+// 有些EPUB的正文不是合法的XML（比如用了 &nbsp;），按HTML重新解析
+function parseXhtml(text: string): Document {
+  try {
+    return parseXml(text, 'application/xhtml+xml');
+  } catch {
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+}
+
+// 按本地名称查找元素，不关心命名空间前缀
+function elementsByName(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+}
+
+function firstText(root: Document | Element, localName: string): string | undefined {
+  const text = elementsByName(root, localName)[0]?.textContent?.trim();
+  return text || undefined;
+}
+
+function toDataUrl(bytes: Uint8Array, mediaType: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mediaType};base64,${btoa(binary)}`;
+}
+
+// 把段落的文字片段按换行拆成多行
+function splitRuns(runs: InlineRun[]): InlineRun[][] {
+  const lines: InlineRun[][] = [[]];
+  runs.forEach(run => {
+    run.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ ...run, text: part });
+    });
+  });
+  return lines.map(mergeRuns);
+}
+
+// 带格式的段落，全部读完后再决定是否输出Markdown
+interface RichLine {
+  runs: InlineRun[];
+  level: number;
+}
+
+function renderLines(lines: RichLine[], markdown: boolean): SourceLine[] {
+  return lines
+    .map(line => ({
+      // 标题只保留文字
+      text: cleanLine(line.level > 0 ? line.runs.map(run => run.text).join('') : renderRuns(line.runs, markdown)),
+      level: line.level
+    }))
+    .filter(line => line.text.length > 0);
+}
+
+// ---- DOCX ----
+
+function isOn(element: Element | undefined): boolean {
+  if (!element) return false;
+  const value = element.getAttributeNS(element.namespaceURI, 'val') ?? element.getAttribute('w:val');
+  return value !== 'false' && value !== '0' && value !== 'none';
+}
+
+function childByName(element: Element | null | undefined, localName: string): Element | undefined {
+  return element ? Array.from(element.children).find(child => child.localName === localName) : undefined;
+}
+
+function docxAttribute(element: Element | undefined, name: string): string | null {
+  return element ? element.getAttributeNS(element.namespaceURI, name) || element.getAttribute(`w:${name}`) : null;
+}
+
+async function importDocx(bytes: Uint8Array, fileName: string): Promise<ImportedNovel> {
+  const zip = new ZipArchive(bytes);
+  const documentText = await zip.readText('word/document.xml');
+  if (!documentText) {
+    throw new Error('不是有效的Word文档');
+  }
+  const doc = parseXml(documentText);
+
+  // 样式ID在中文版Word中可能是数字，按样式名称判断标题
+  const styleLevels = new Map<string, number>();
+  const titleStyles = new Set<string>();
+  const stylesText = await zip.readText('word/styles.xml');
+  if (stylesText) {
+    elementsByName(parseXml(stylesText), 'style').forEach(style => {
+      const id = docxAttribute(style, 'styleId');
+      const name = docxAttribute(childByName(style, 'name'), 'val') || '';
+      const heading = name.match(/^heading\s*(\d)$/i);
+      if (!id) return;
+      if (/^title$/i.test(name)) titleStyles.add(id);
+      else if (heading) styleLevels.set(id, Number(heading[1]));
+    });
+  }
+
+  const body = elementsByName(doc, 'body')[0];
+  if (!body) {
+    throw new Error('不是有效的Word文档');
+  }
+
+  const paragraphs: (RichLine & { title: boolean })[] = [];
+  elementsByName(body, 'p').forEach(paragraph => {
+    const properties = childByName(paragraph, 'pPr');
+    const styleId = docxAttribute(childByName(properties, 'pStyle'), 'val');
+    const outline = docxAttribute(childByName(properties, 'outlineLvl'), 'val');
+    const title = styleId !== null && titleStyles.has(styleId);
+    let level = styleId !== null ? styleLevels.get(styleId) || 0 : 0;
+    if (level === 0 && outline !== null && Number(outline) < 9) level = Number(outline) + 1;
+
+    const runs: InlineRun[] = elementsByName(paragraph, 'r').map(run => {
+      const runProperties = childByName(run, 'rPr');
+      const text = Array.from(run.children).map(child => {
+        if (child.localName === 't') return child.textContent || '';
+        if (child.localName === 'tab') return '\t';
+        if (child.localName === 'br' || child.localName === 'cr') return '\n';
+        return '';
+      }).join('');
+      return {
+        text,
+        bold: isOn(childByName(runProperties, 'b')),
+        italic: isOn(childByName(runProperties, 'i')),
+        strike: isOn(childByName(runProperties, 'strike')) || isOn(childByName(runProperties, 'dstrike'))
+      };
+    });
+
+    splitRuns(runs).forEach(lineRuns => paragraphs.push({ runs: lineRuns, level, title }));
+  });
+
+  // 有书名（Title样式）时书名作为一级标题，其余标题依次下移一级
+  const hasTitle = paragraphs.some(paragraph => paragraph.title);
+  const lines: RichLine[] = paragraphs.map(paragraph => ({
+    runs: paragraph.runs,
+    level: paragraph.title ? 1 : paragraph.level > 0 && hasTitle ? Math.min(paragraph.level + 1, 6) : paragraph.level
+  }));
+
+  const metadata: BookMetadata = {};
+  const coreText = await zip.readText('docProps/core.xml');
+  if (coreText) {
+    const core = parseXml(coreText);
+    metadata.title = firstText(core, 'title');
+    metadata.author = firstText(core, 'creator');
+    metadata.tags = firstText(core, 'keywords')?.split(/[,，、;；]/).map(tag => tag.trim()).filter(Boolean);
+  }
+
+  const markdown = lines.some(line => line.level === 0 && hasFormatting(line.runs));
+  return buildNovel(renderLines(lines, markdown), markdown, metadata, fileName);
+}
+
+// ---- EPUB ----
+
+// 解析相对路径，EPUB中的链接相对于所在文件
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'section', 'article', 'tr']);
+
+// 把XHTML正文转成带格式的段落
+function htmlLines(body: Element): RichLine[] {
+  const lines: RichLine[] = [];
+  let current: RichLine = { runs: [], level: 0 };
+  const flush = () => {
+    splitRuns(current.runs).forEach(runs => lines.push({ runs, level: current.level }));
+    current = { runs: [], level: 0 };
+  };
+
+  const walk = (node: Node, style: Omit<InlineRun, 'text'>) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      // 源码中的换行和缩进不是正文的一部分，西文单词之间保留一个空格
+      const text = (node.textContent || '').replace(/(\S?)\s*\n\s*(\S?)/g, (_match, before: string, after: string) =>
+        `${before}${/[\x21-\x7e]/.test(before) && /[\x21-\x7e]/.test(after) ? ' ' : ''}${after}`);
+      current.runs.push({ text, ...style });
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.localName.toLowerCase();
+    if (tag === 'script' || tag === 'style' || tag === 'rt' || tag === 'rp') return;
+    if (tag === 'br') {
+      current.runs.push({ text: '\n', ...style });
+      return;
+    }
+    if (tag === 'hr') {
+      flush();
+      lines.push({ runs: [{ text: SCENE_BREAK_TEXT }], level: 0 });
+      return;
+    }
+
+    const nextStyle = {
+      ...style,
+      bold: style.bold || tag === 'b' || tag === 'strong',
+      italic: style.italic || tag === 'i' || tag === 'em',
+      strike: style.strike || tag === 's' || tag === 'del' || tag === 'strike'
+    };
+    const block = BLOCK_TAGS.has(tag);
+    if (block) flush();
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) current.level = Number(heading[1]);
+    element.childNodes.forEach(child => walk(child, nextStyle));
+    if (block) flush();
+  };
+
+  walk(body, {});
+  flush();
+  return lines.filter(line => line.runs.some(run => run.text.trim()));
+}
+
+// 从EPUB 3的导航文档读取目录，嵌套的目录项表示卷
+function readNavigation(nav: Document, navPath: string): { href: string; title: string; volume?: string }[] {
+  const toc = Array.from(nav.getElementsByTagName('nav')).find(element =>
+    (element.getAttribute('epub:type') || element.getAttributeNS('http://www.idpf.org/2007/ops', 'type')) === 'toc');
+  const list = toc && childByName(toc, 'ol');
+  if (!list) return [];
+
+  const items: { href: string; title: string; volume?: string }[] = [];
+  const visit = (ol: Element, volume?: string) => {
+    Array.from(ol.children).filter(li => li.localName === 'li').forEach(li => {
+      const link = childByName(li, 'a') || childByName(li, 'span');
+      const title = link?.textContent?.trim() || '';
+      const children = childByName(li, 'ol');
+      if (children) {
+        visit(children, title);
+      } else if (link?.getAttribute('href')) {
+        items.push({ href: resolvePath(navPath, link.getAttribute('href')!), title, volume });
+      }
+    });
+  };
+  visit(list);
+  return items;
+}
+
+// 扉页只有书名和作者
+function isTitlePage(lines: RichLine[], metadata: BookMetadata): boolean {
+  return lines.every(line => {
+    const text = line.runs.map(run => run.text).join('').trim();
+    return text === metadata.title || text === metadata.author || text === `${metadata.author} 著`;
+  });
+}
+
+async function importEpub(bytes: Uint8Array, fileName: string): Promise<ImportedNovel> {
+  const zip = new ZipArchive(bytes);
+  const containerText = await zip.readText('META-INF/container.xml');
+  const packagePath = containerText
+    ? elementsByName(parseXml(containerText), 'rootfile')[0]?.getAttribute('full-path')
+    : null;
+  const packageText = packagePath ? await zip.readText(packagePath) : null;
+  if (!packagePath || !packageText) {
+    throw new Error('不是有效的EPUB文件');
+  }
+  const opf = parseXml(packageText);
+
+  const metadata: BookMetadata = {
+    title: firstText(opf, 'title'),
+    author: firstText(opf, 'creator'),
+    tags: elementsByName(opf, 'subject').map(subject => subject.textContent?.trim() || '').filter(Boolean)
+  };
+
+  const manifest = new Map(elementsByName(opf, 'item').map(item => [item.getAttribute('id') || '', item]));
+  const coverId = elementsByName(opf, 'meta').find(meta => meta.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverItem = Array.from(manifest.values()).find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('cover-image'))
+    || (coverId ? manifest.get(coverId) : undefined);
+  if (coverItem) {
+    const coverBytes = await zip.readBytes(resolvePath(packagePath, coverItem.getAttribute('href') || ''));
+    if (coverBytes) metadata.coverImage = toDataUrl(coverBytes, coverItem.getAttribute('media-type') || 'image/jpeg');
+  }
+
+  const navItem = Array.from(manifest.values()).find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('nav'));
+  const navPath = navItem ? resolvePath(packagePath, navItem.getAttribute('href') || '') : null;
+  const navText = navPath ? await zip.readText(navPath) : null;
+  const navigation = navPath && navText ? readNavigation(parseXhtml(navText), navPath) : [];
+  const tocByFile = new Map(navigation.map(item => [item.href, item]));
+
+  // 每个正文文件作为一章，章名优先用目录中的名称
+  const volumes: Volume[] = [];
+  const pending: { title: string; volume?: string; lines: RichLine[]; headingLevel: number }[] = [];
+
+  for (const itemref of elementsByName(opf, 'itemref')) {
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || item === navItem || itemref.getAttribute('linear') === 'no') continue;
+    const path = resolvePath(packagePath, item.getAttribute('href') || '');
+    const text = await zip.readText(path);
+    const body = text && elementsByName(parseXhtml(text), 'body')[0];
+    if (!body) continue;
+
+    const lines = htmlLines(body);
+    const toc = tocByFile.get(path);
+    if (lines.length === 0 || (!toc && pending.length === 0 && isTitlePage(lines, metadata))) continue;
+
+    if (!toc && navigation.length > 0) {
+      // 目录之外的文件：第一章之前的作为前言，其余接在上一章后面
+      if (pending.length === 0) {
+        pending.push({ title: PREFACE_TITLE, lines, headingLevel: 0 });
+      } else {
+        pending[pending.length - 1].lines.push(...lines);
+      }
+      continue;
+    }
+
+    // 开头和章名相同的标题不重复放进正文
+    const firstHeading = lines[0].level > 0 ? lines[0] : null;
+    const headingText = firstHeading?.runs.map(run => run.text).join('').trim();
+    const title = toc?.title || headingText || `第${pending.length + 1}章`;
+    pending.push({
+      title,
+      volume: toc?.volume,
+      lines: firstHeading && (!toc || headingText === toc.title) ? lines.slice(1) : lines,
+      headingLevel: firstHeading ? firstHeading.level : 0
+    });
+  }
+
+  const markdown = pending.some(chapter => chapter.lines.some(line => line.level === 0 && hasFormatting(line.runs)));
+  pending.forEach(item => {
+    const volumeTitle = item.volume || DEFAULT_VOLUME_TITLE;
+    let volume = volumes[volumes.length - 1];
+    if (!volume || volume.title !== volumeTitle) {
+      volume = createVolume(volumeTitle);
+      volumes.push(volume);
+    }
+    // 正文中的标题按相对章名的级别换算
+    const content = renderLines(item.lines, markdown).map(line =>
+      line.level > 0 && markdown ? `${'#'.repeat(Math.max(1, line.level - item.headingLevel))} ${line.text}` : line.text);
+    volume.chapters.push(createChapter(item.title, content.join('\n')));
+  });
+
+  return {
+    title: metadata.title || fileName,
+    author: metadata.author,
+    tags: metadata.tags && metadata.tags.length > 0 ? metadata.tags : undefined,
+    coverImage: metadata.coverImage,
+    volumes: volumes.length > 0 ? volumes : [createVolume(DEFAULT_VOLUME_TITLE, [createChapter('第一章')])],
+    markdown
+  };
+}
+
+// 根据扩展名选择导入方式，书名默认使用文件名
+export async function importNovelFile(file: File): Promise<ImportedNovel> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const baseName = file.name.replace(/\.[^.]+$/, '') || '无标题小说';
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  switch (extension) {
+    case 'txt':
+      return importText(decodeText(bytes), baseName);
+    case 'md':
+    case 'markdown':
+      return importMarkdown(decodeText(bytes), baseName);
+    case 'docx':
+      return importDocx(bytes, baseName);
+    case 'epub':
+      return importEpub(bytes, baseName);
+    default:
+      throw new Error(`不支持的文件格式: ${extension}`);
+  }
+}
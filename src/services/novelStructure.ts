@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Chapter, ChapterStatus, Novel, Volume } from '../store/novelStore';
+import { getTextStatistics } from './textStatistics';
+
+export const DEFAULT_VOLUME_TITLE = '正文';
+export const CHAPTER_STATUS_LABELS: Record<ChapterStatus, string> = {
+  draft: '草稿',
+  revising: '修改中',
+  final: '定稿'
+};
+
+// 统计字数，规则见 textStatistics
+export function countWords(text: string): number {
+  return getTextStatistics(text).wordCount;
+}
+
+// 章节的协作会话ID，只包含字母数字和下划线
+export function generateCollaborationId(): string {
+  return `chapter_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function createChapter(title: string, content: string = '', collaborationId?: string): Chapter {
+  return {
+    id: uuidv4(),
+    title,
+    content,
+    status: 'draft',
+    wordCount: countWords(content),
+    lastEdited: new Date(),
+    collaborationId: collaborationId || generateCollaborationId()
+  };
+}
+
+export function createVolume(title: string, chapters: Chapter[] = []): Volume {
+  return { id: uuidv4(), title, chapters };
+}
+
+// 按顺序列出所有章节
+export function getChapters(novel: Pick<Novel, 'volumes'>): Chapter[] {
+  return novel.volumes.flatMap(volume => volume.chapters);
+}
+
+export function findChapter(novel: Novel, chapterId: string | undefined): Chapter | undefined {
+  return chapterId ? getChapters(novel).find(chapter => chapter.id === chapterId) : undefined;
+}
+
+// 按协作会话ID查找小说和章节，兼容迁移前以小说的 etherpadId 分享的链接
+export function findBySessionId(novels: Novel[], sessionId: string): { novel: Novel; chapter?: Chapter } | undefined {
+  for (const novel of novels) {
+    const chapter = getChapters(novel).find(c => c.collaborationId === sessionId);
+    if (chapter) return { novel, chapter };
+  }
+  const novel = novels.find(n => n.etherpadId === sessionId);
+  return novel ? { novel } : undefined;
+}
+
+// 正在编辑的章节，没有记录时为第一章
+export function getCurrentChapter(novel: Novel): Chapter | undefined {
+  return findChapter(novel, novel.currentChapterId) || getChapters(novel)[0];
+}
+
+// 全书正文，章节之间空一行
+export function getNovelText(novel: Pick<Novel, 'volumes'>, withTitles: boolean = false): string {
+  return getChapters(novel)
+    .map(chapter => withTitles ? `${chapter.title}\n\n${chapter.content}` : chapter.content)
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+export function getNovelWordCount(novel: Pick<Novel, 'volumes'>): number {
+  return getChapters(novel).reduce((total, chapter) => total + chapter.wordCount, 0);
+}
+
+// 把章节移动到指定卷的指定位置，位置按移除该章节之后的顺序计算
+export function moveChapter(volumes: Volume[], chapterId: string, targetVolumeId: string, targetIndex: number): Volume[] {
+  const chapter = volumes.flatMap(volume => volume.chapters).find(c => c.id === chapterId);
+  if (!chapter || !volumes.some(volume => volume.id === targetVolumeId)) return volumes;
+
+  const withoutChapter = volumes.map(volume => ({
+    ...volume,
+    chapters: volume.chapters.filter(c => c.id !== chapterId)
+  }));
+
+  return withoutChapter.map(volume => {
+    if (volume.id !== targetVolumeId) return volume;
+
+    const chapters = [...volume.chapters];
+    chapters.splice(Math.max(0, Math.min(targetIndex, chapters.length)), 0, chapter);
+    return { ...volume, chapters };
+  });
+}
+
+// 把卷移动到指定位置
+export function moveVolume(volumes: Volume[], volumeId: string, targetIndex: number): Volume[] {
+  const volume = volumes.find(v => v.id === volumeId);
+  if (!volume) return volumes;
+
+  const result = volumes.filter(v => v.id !== volumeId);
+  result.splice(Math.max(0, Math.min(targetIndex, result.length)), 0, volume);
+  return result;
+}
+
+// 旧版本的小说只有一整篇 content，迁移为一卷一章，原来的协作会话由第一章沿用
+export function migrateNovel(novel: any): Novel {
+  const { content, ...rest } = novel;
+  const lastEdited = new Date(novel.lastEdited || Date.now());
+
+  if (Array.isArray(novel.volumes) && novel.volumes.length > 0) {
+    return {
+      ...rest,
+      createdAt: new Date(novel.createdAt || lastEdited),
+      lastEdited,
+      volumes: novel.volumes.map((volume: Volume) => ({
+        ...volume,
+        chapters: volume.chapters.map(chapter => ({ ...chapter, lastEdited: new Date(chapter.lastEdited) }))
+      }))
+    };
+  }
+
+  const chapter = {
+    ...createChapter('第一章', typeof content === 'string' ? content : '', novel.etherpadId),
+    lastEdited
+  };
+  return {
+    ...rest,
+    createdAt: new Date(novel.createdAt || lastEdited),
+    lastEdited,
+    volumes: [createVolume(DEFAULT_VOLUME_TITLE, [chapter])],
+    currentChapterId: chapter.id
+  };
+}
@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// 等待服务端确认的编辑消息
+export interface QueuedMessage {
+  id: string; // 同时作为 clientOperationId 发给服务端，用于确认和去重
+  type: 'operation' | 'crdt_operation';
+  userId: string; // 生成该消息的用户，与当前用户不同说明是页面刷新或重新加入前留下的
+  payload: any;
+  queuedAt: number;
+}
+
+export type QueueChangeHandler = (size: number) => void;
+
+const TAB_ID_KEY = 'smalltown_writer_tab_id';
+const OUTBOX_KEY = (sessionId: string, tabId: string) => `smalltown_writer_outbox_${sessionId}_${tabId}`;
+
+// 标签页ID保存在sessionStorage里，刷新后不变，不同标签页的队列互不干扰
+function getTabId(): string {
+  let tabId = sessionStorage.getItem(TAB_ID_KEY);
+  if (!tabId) {
+    tabId = uuidv4();
+    sessionStorage.setItem(TAB_ID_KEY, tabId);
+  }
+  return tabId;
+}
+
+// 持久化的待发送队列，断线期间的编辑保存在localStorage里，页面刷新后仍然可以重放
+export class OperationQueue {
+  private sessionId: string;
+  private storageKey: string;
+  private messages: QueuedMessage[];
+  private onChange: QueueChangeHandler | null;
+
+  constructor(sessionId: string, onChange?: QueueChangeHandler) {
+    this.sessionId = sessionId;
+    this.storageKey = OUTBOX_KEY(sessionId, getTabId());
+    this.onChange = onChange || null;
+    this.messages = this.load();
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  size(): number {
+    return this.messages.length;
+  }
+
+  // 按入队顺序返回所有消息
+  getMessages(): QueuedMessage[] {
+    return [...this.messages];
+  }
+
+  // 加入队列，返回分配了ID的消息
+  enqueue(type: QueuedMessage['type'], userId: string, payload: any): QueuedMessage {
+    const message: QueuedMessage = {
+      id: uuidv4(),
+      type,
+      userId,
+      payload,
+      queuedAt: Date.now()
+    };
+    this.messages.push(message);
+    this.save();
+    return message;
+  }
+
+  // 移除已确认的消息，返回是否有消息被移除
+  remove(ids: string[]): boolean {
+    const idSet = new Set(ids);
+    const remaining = this.messages.filter(message => !idSet.has(message.id));
+    if (remaining.length === this.messages.length) return false;
+
+    this.messages = remaining;
+    this.save();
+    return true;
+  }
+
+  clear(): void {
+    if (this.messages.length === 0) return;
+    this.messages = [];
+    this.save();
+  }
+
+  private load(): QueuedMessage[] {
+    try {
+      const json = localStorage.getItem(this.storageKey);
+      return json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('读取待发送队列错误:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      if (this.messages.length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.messages));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.error('保存待发送队列错误:', error);
+    }
+
+    this.onChange?.(this.messages.length);
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PUNCTUATION_SETTINGS,
+  PunctuationSettings,
+  convertPunctuation,
+  mapPosition,
+  trackTypedRange
+} from './punctuation';
+
+// 转换从 start 开始输入的文字，默认整段都是刚输入的
+function convert(text: string, start: number = 0, settings: PunctuationSettings = DEFAULT_PUNCTUATION_SETTINGS, useMarkdown = false): string {
+  return convertPunctuation(text, { start, end: text.length }, settings, useMarkdown).text;
+}
+
+describe('convertPunctuation', () => {
+  it('中文语境中的半角标点换成中文标点', () => {
+    expect(convert('你好,世界.')).toBe('你好，世界。');
+    expect(convert('真的吗?当然!')).toBe('真的吗？当然！');
+    expect(convert('<三体>(刘慈欣)')).toBe('《三体》（刘慈欣）');
+  });
+
+  it('多字符规则优先，省略号不会变成三个句号', () => {
+    expect(convert('等等...')).toBe('等等……');
+    expect(convert('忽然--门开了')).toBe('忽然——门开了');
+  });
+
+  it('只转换最近输入的范围，多字符规则可以从范围之前开始', () => {
+    expect(convert('旧的,新的,', 5)).toBe('旧的,新的，');
+    expect(convert('等等..', 4)).toBe('等等..');
+    expect(convert('等等...', 4)).toBe('等等……');
+  });
+
+  it('引号按是否有未配对的左引号决定左右，单引号用于引号中的引号', () => {
+    expect(convert('他说"你好"')).toBe('他说“你好”');
+    expect(convert('他说"她说\'走\'"')).toBe('他说“她说‘走’”');
+    expect(convert('他说"你好"', 0, { ...DEFAULT_PUNCTUATION_SETTINGS, quoteStyle: 'corner' })).toBe('他说「你好」');
+    expect(convert('他说"你好"', 0, { ...DEFAULT_PUNCTUATION_SETTINGS, quoteStyle: 'none' })).toBe('他说"你好"');
+  });
+
+  it('英文句子和英文单词里的撇号保持原样', () => {
+    expect(convert('他说 I think so, really.')).toBe('他说 I think so, really.');
+    expect(convert('It\'s fine')).toBe('It\'s fine');
+    // 中文之后的一两个英文单词仍按中文处理
+    expect(convert('我用iPhone,你呢?')).toBe('我用iPhone，你呢？');
+  });
+
+  it('网址、邮箱、数字、行内代码和转义字符中的标点不转换', () => {
+    expect(convert('网址https://example.com/a?b=1,2')).toBe('网址https://example.com/a?b=1,2');
+    expect(convert('写信到writer@example.com')).toBe('写信到writer@example.com');
+    expect(convert('圆周率3.14')).toBe('圆周率3.14');
+    expect(convert('代码`a,b`')).toBe('代码`a,b`');
+    expect(convert('保留\\,')).toBe('保留\\,');
+  });
+
+  it('Markdown的引用和标题标记不转换', () => {
+    expect(convert('> 引用,', 0, DEFAULT_PUNCTUATION_SETTINGS, true)).toBe('> 引用，');
+    expect(convert('> 引用,')).toBe('》 引用，');
+  });
+
+  it('停用的规则和关闭的转换不处理', () => {
+    const settings = {
+      ...DEFAULT_PUNCTUATION_SETTINGS,
+      rules: DEFAULT_PUNCTUATION_SETTINGS.rules.map(rule => rule.from === ',' ? { ...rule, enabled: false } : rule)
+    };
+    expect(convert('你好,世界.', 0, settings)).toBe('你好,世界。');
+    expect(convert('你好,世界.', 0, { ...DEFAULT_PUNCTUATION_SETTINGS, enabled: false })).toBe('你好,世界.');
+  });
+
+  it('返回每处替换在原文中的位置', () => {
+    const result = convertPunctuation('嗯...好,', { start: 0, end: 6 }, DEFAULT_PUNCTUATION_SETTINGS, false);
+    expect(result.edits).toEqual([
+      { position: 1, length: 3, text: '……' },
+      { position: 5, length: 1, text: '，' }
+    ]);
+  });
+});
+
+describe('mapPosition', () => {
+  it('替换之后的位置按长度变化移动，被替换文字中的位置移到替换结果之后', () => {
+    const edits = [{ position: 1, length: 3, text: '……' }];
+    expect(mapPosition(edits, 1)).toBe(1);
+    expect(mapPosition(edits, 2)).toBe(3);
+    expect(mapPosition(edits, 6)).toBe(5);
+  });
+});
+
+describe('trackTypedRange', () => {
+  it('本地输入并入范围，其他人的修改只移动范围', () => {
+    let range = trackTypedRange(null, [{ type: 'insert', userId: 'me', position: 2, text: 'ab' }], true);
+    expect(range).toEqual({ start: 2, end: 4 });
+
+    range = trackTypedRange(range, [{ type: 'insert', userId: 'bob', position: 0, text: 'xx' }], false);
+    expect(range).toEqual({ start: 4, end: 6 });
+
+    range = trackTypedRange(range, [{ type: 'insert', userId: 'me', position: 6, text: 'c' }], true);
+    expect(range).toEqual({ start: 4, end: 7 });
+  });
+});
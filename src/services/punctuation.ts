@@ -0,0 +1,215 @@
+import { TextOperation, transformPosition } from './collaborationService';
+
+// 标点转换：把刚输入的半角标点换成中文标点
+// 只处理最近输入的一段文字，网址、数字、代码和英文句子里的标点保持原样
+
+// 引号的转换方式：弯引号“”‘’、直角引号「」『』或者不转换
+export type QuoteStyle = 'curly' | 'corner' | 'none';
+
+export interface PunctuationRule {
+  from: string; // 输入的字符，可以是多个字符，例如 ...
+  to: string;
+  enabled: boolean;
+}
+
+// 每部小说单独设置
+export interface PunctuationSettings {
+  enabled: boolean;
+  quoteStyle: QuoteStyle;
+  rules: PunctuationRule[];
+}
+
+// 和Markdown、代码冲突较多的符号默认不转换
+export const DEFAULT_PUNCTUATION_RULES: PunctuationRule[] = [
+  { from: ',', to: '，', enabled: true },
+  { from: '.', to: '。', enabled: true },
+  { from: '...', to: '……', enabled: true },
+  { from: '?', to: '？', enabled: true },
+  { from: '!', to: '！', enabled: true },
+  { from: ':', to: '：', enabled: true },
+  { from: ';', to: '；', enabled: true },
+  { from: '(', to: '（', enabled: true },
+  { from: ')', to: '）', enabled: true },
+  { from: '<', to: '《', enabled: true },
+  { from: '>', to: '》', enabled: true },
+  { from: '[', to: '【', enabled: true },
+  { from: ']', to: '】', enabled: true },
+  { from: '--', to: '——', enabled: true },
+  { from: '\\', to: '、', enabled: false },
+  { from: '^', to: '……', enabled: false },
+  { from: '~', to: '～', enabled: false },
+  { from: '_', to: '——', enabled: false },
+  { from: '`', to: '·', enabled: false }
+];
+
+export const DEFAULT_PUNCTUATION_SETTINGS: PunctuationSettings = {
+  enabled: true,
+  quoteStyle: 'curly',
+  rules: DEFAULT_PUNCTUATION_RULES
+};
+
+// 左右引号，双引号在外层，单引号用于引号中的引号
+const QUOTE_PAIRS: Record<Exclude<QuoteStyle, 'none'>, Record<string, [string, string]>> = {
+  curly: { '"': ['“', '”'], '\'': ['‘', '’'] },
+  corner: { '"': ['「', '」'], '\'': ['『', '』'] }
+};
+
+// 汉字、假名、谚文以及全角标点都说明这里是中文语境
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef\u2018-\u201d\u2026\u2014]/;
+const LATIN_WORD_PATTERN = /[A-Za-z]+(?:'[A-Za-z]+)*/g;
+const ALPHANUMERIC_PATTERN = /[A-Za-z0-9]/;
+const URL_PATTERN = /[a-z][a-z0-9+.-]*:\/\/|www\.|[\w.+-]+@[\w-]+\.\w/i;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// 一处替换，position 和 length 是原文中的位置
+export interface TextEdit {
+  position: number;
+  length: number;
+  text: string;
+}
+
+// 最近输入的范围随文本修改移动，本地输入的文字并入范围
+export function trackTypedRange(range: TextRange | null, operations: TextOperation[], typed: boolean): TextRange | null {
+  let result = range;
+  operations.forEach(op => {
+    if (result) {
+      result = { start: transformPosition(result.start, op), end: transformPosition(result.end, op) };
+    }
+    if (typed && op.type === 'insert' && op.text && op.position !== undefined) {
+      const end = op.position + op.text.length;
+      result = result
+        ? { start: Math.min(result.start, op.position), end: Math.max(result.end, end) }
+        : { start: op.position, end };
+    }
+  });
+  return result;
+}
+
+// 替换后原文中的位置对应到新文本中的位置，落在被替换的文字中时移到替换结果之后
+export function mapPosition(edits: TextEdit[], position: number): number {
+  let delta = 0;
+  for (const edit of edits) {
+    if (edit.position >= position) break;
+    if (edit.position + edit.length > position) return edit.position + edit.text.length + delta;
+    delta += edit.text.length - edit.length;
+  }
+  return position + delta;
+}
+
+// 从光标之前最近的中文字符开始，出现三个以上英文单词时视为英文句子，段落开头没有中文时有英文单词即可
+function isLatinSentence(before: string): boolean {
+  let lastCjk = before.length - 1;
+  while (lastCjk >= 0 && !CJK_PATTERN.test(before[lastCjk])) lastCjk--;
+
+  const words = before.slice(lastCjk + 1).match(LATIN_WORD_PATTERN) || [];
+  return lastCjk < 0 ? words.length > 0 : words.length >= 3;
+}
+
+function nextLetterIsLatin(after: string): boolean {
+  const letter = after.match(/[A-Za-z\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/);
+  return !!letter && /[A-Za-z]/.test(letter[0]);
+}
+
+// 网址、邮箱、行内代码、转义字符和数字中的标点不转换
+function isProtected(line: string, column: number, length: number, useMarkdown: boolean): boolean {
+  const before = line.slice(0, column);
+  const previous = line[column - 1] || '';
+  const next = line[column + length] || '';
+
+  if (previous === '\\') return true;
+  if ((before.match(/`/g) || []).length % 2 === 1) return true;
+  if (ALPHANUMERIC_PATTERN.test(previous) && ALPHANUMERIC_PATTERN.test(next)) return true;
+
+  // 标点在网址或邮箱开始之后，网址和中文之间可以没有空格
+  const tokenStart = before.search(/\S*$/);
+  const tokenEnd = line.slice(column).search(/\s|$/) + column;
+  const url = line.slice(tokenStart, tokenEnd).match(URL_PATTERN);
+  if (url && tokenStart + (url.index ?? 0) < column) return true;
+
+  // Markdown的引用和标题标记
+  return useMarkdown && /^\s*(?:>\s*)*$/.test(before) && (line[column] === '>' || line[column] === '#');
+}
+
+// 还没有配对的左引号
+function hasOpenQuote(before: string, [open, close]: [string, string]): boolean {
+  let depth = 0;
+  for (const char of before) {
+    if (char === open) depth++;
+    if (char === close && depth > 0) depth--;
+  }
+  return depth > 0;
+}
+
+// 转换 range 范围内输入的标点，返回新文本和每处替换
+export function convertPunctuation(
+  text: string,
+  range: TextRange,
+  settings: PunctuationSettings,
+  useMarkdown: boolean
+): { text: string; edits: TextEdit[] } {
+  const edits: TextEdit[] = [];
+  if (!settings.enabled) return { text, edits };
+
+  // 长的规则优先，... 不会被拆成三个句号
+  const rules = settings.rules
+    .filter(rule => rule.enabled && rule.from)
+    .sort((a, b) => b.from.length - a.from.length);
+  const quotes = settings.quoteStyle === 'none' ? null : QUOTE_PAIRS[settings.quoteStyle];
+  const longest = rules.reduce((max, rule) => Math.max(max, rule.from.length), 1);
+
+  const start = Math.max(0, range.start - longest + 1);
+  const end = Math.min(range.end, text.length);
+  // 当前行光标之前的文字，已经替换的标点按替换后的样子参与判断
+  let before = text.slice(text.lastIndexOf('\n', start - 1) + 1, start);
+  let output = text.slice(0, start);
+
+  // 多字符规则可以从范围之前开始，只要和范围有重叠
+  let i = start;
+  for (; i < end; i++) {
+    if (text[i] === '\n') {
+      before = '';
+      output += '\n';
+      continue;
+    }
+
+    const lineEnd = text.indexOf('\n', i);
+    const line = before + text.slice(i, lineEnd < 0 ? text.length : lineEnd);
+    const column = before.length;
+
+    let replacement: string | null = null;
+    let length = 1;
+    const pair = quotes?.[text[i]];
+    if (pair) {
+      if (i >= range.start && !isProtected(line, column, 1, useMarkdown)) {
+        if (hasOpenQuote(before, pair)) {
+          replacement = pair[1];
+        } else if (!isLatinSentence(before) && !(nextLetterIsLatin(line.slice(column + 1)) && !CJK_PATTERN.test(before))) {
+          replacement = pair[0];
+        }
+      }
+    } else {
+      const rule = rules.find(item => text.startsWith(item.from, i) && i + item.from.length > range.start);
+      if (rule && !isProtected(line, column, rule.from.length, useMarkdown) && !isLatinSentence(before)) {
+        replacement = rule.to;
+        length = rule.from.length;
+      }
+    }
+
+    const original = text.slice(i, i + length);
+    if (replacement !== null && replacement !== original) {
+      edits.push({ position: i, length, text: replacement });
+      before += replacement;
+      output += replacement;
+      i += length - 1;
+    } else {
+      before += text[i];
+      output += text[i];
+    }
+  }
+
+  return { text: edits.length ? output + text.slice(i) : text, edits };
+}
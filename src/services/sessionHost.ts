@@ -0,0 +1,506 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CollaborationUser, OperationRecord, applyOperations, transformOperations } from './collaborationService';
+import { CrdtDocument, CrdtDocumentState, CrdtOperation, DocumentMode } from '../shared/crdtDocument';
+import type { CollaborationMessage, JoinRequest, JoinResult } from './transport';
+import type { TextOperation } from '../types/TextOperation';
+import { SessionRole, UserStatus, canEdit } from '../types/Collaboration';
+
+// 会话状态的存储位置，localStorage 可以直接使用
+export type SessionStateStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// 保存在内存中的会话状态，用于测试和不需要跨标签页的场景
+export class MemoryStorage implements SessionStateStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+// 存储键，与之前的 localStorage 协作服务保持一致，已有会话的数据可以继续使用
+const STORAGE_PREFIX = 'smalltown_writer_';
+const CONTENT_KEY = (sessionId: string) => `${STORAGE_PREFIX}content_${sessionId}`;
+const USERS_KEY = (sessionId: string) => `${STORAGE_PREFIX}users_${sessionId}`;
+const REVISION_KEY = (sessionId: string) => `${STORAGE_PREFIX}revision_${sessionId}`;
+const OPERATIONS_KEY = (sessionId: string) => `${STORAGE_PREFIX}operations_${sessionId}`;
+const MODE_KEY = (sessionId: string) => `${STORAGE_PREFIX}mode_${sessionId}`;
+const CRDT_KEY = (sessionId: string) => `${STORAGE_PREFIX}crdt_${sessionId}`;
+const ROLES_KEY = (sessionId: string) => `${STORAGE_PREFIX}roles_${sessionId}`;
+
+const MAX_USERS_PER_SESSION = 8;
+const MAX_OPERATION_HISTORY = 200; // 每个会话保留的操作记录条数
+const AWAY_TIMEOUT = 30 * 1000; // 30秒无活动变为"离开"
+const OFFLINE_TIMEOUT = 5 * 60 * 1000; // 5分钟无活动视为离线并移除
+const HOST_SITE_ID = 'server'; // 代替客户端生成CRDT操作时使用的站点ID，与服务端一致
+const EDIT_MESSAGE_TYPES = ['operation', 'crdt_operation', 'content']; // 需要编辑权限的消息
+
+const USER_COLORS = [
+  '#F44336', '#E91E63', '#9C27B0', '#673AB7',
+  '#3F51B5', '#2196F3', '#03A9F4', '#00BCD4',
+  '#009688', '#4CAF50', '#8BC34A', '#CDDC39',
+  '#FFEB3B', '#FFC107', '#FF9800', '#FF5722'
+];
+
+// 消息的投递范围：all 为会话所有成员（包括发送者），sender 只回复发送者
+export interface HostDelivery {
+  target: 'all' | 'sender';
+  message: CollaborationMessage;
+}
+
+// 没有协作服务器时在本地扮演服务端
+// 会话状态保存在共享的存储里，按与 src/server 相同的规则加入会话、为操作定序和回复同步请求
+// 同一会话的状态可以被多个标签页的主机实例同时读写，每次处理消息都重新读取最新状态
+export class LocalSessionHost {
+  private storage: SessionStateStorage;
+  private sessionId: string;
+
+  constructor(storage: SessionStateStorage, sessionId: string) {
+    this.storage = storage;
+    this.sessionId = sessionId;
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  // 加入会话，成功时广播加入消息并把完整快照回复给加入者
+  join(request: JoinRequest): { result: JoinResult; deliveries: HostDelivery[] } {
+    const users = this.getUsers();
+
+    if (users.length >= MAX_USERS_PER_SESSION && !users.some(u => u.id === request.userId)) {
+      return { result: { success: false, error: `会话人数已达到上限（最多${MAX_USERS_PER_SESSION}人）` }, deliveries: [] };
+    }
+
+    const isDuplicateName = users.some(u =>
+      u.name.toLowerCase() === request.userName.toLowerCase() && u.id !== request.userId
+    );
+    if (isDuplicateName) {
+      return { result: { success: false, error: '用户名已被使用，请使用其他用户名' }, deliveries: [] };
+    }
+
+    // 新会话使用首个加入者选择的文档模型，已有内容的旧会话按OT处理
+    if (!this.storage.getItem(MODE_KEY(this.sessionId))) {
+      const isNewSession = this.storage.getItem(CONTENT_KEY(this.sessionId)) === null;
+      this.storage.setItem(MODE_KEY(this.sessionId), isNewSession ? request.mode : 'ot');
+    }
+
+    // 本地会话不校验令牌：没有所有者在线时加入者成为所有者，其余成员默认为编辑者
+    const hasOwner = users.some(u => u.id !== request.userId && u.role === 'owner');
+    const role = this.getRoles()[request.userId] || (hasOwner ? 'editor' : 'owner');
+
+    const user: CollaborationUser = {
+      id: request.userId,
+      name: request.userName,
+      color: USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+      status: UserStatus.ONLINE,
+      role,
+      lastActive: Date.now()
+    };
+    const updatedUsers = [...users.filter(u => u.id !== request.userId), user];
+    this.saveUsers(updatedUsers);
+
+    return {
+      result: { success: true, role },
+      deliveries: [
+        this.broadcast({ type: 'join', payload: { user } }),
+        this.reply({ type: 'sync', payload: { users: updatedUsers, ...this.getSnapshot() } })
+      ]
+    };
+  }
+
+  // 成员离开会话
+  leave(userId: string): HostDelivery[] {
+    const users = this.getUsers();
+    if (!users.some(u => u.id === userId)) return [];
+
+    const remaining = users.filter(u => u.id !== userId);
+    this.saveUsers(remaining);
+    return [
+      this.broadcast({ type: 'leave', payload: { userId } }),
+      this.broadcast({ type: 'sync', payload: { users: remaining } })
+    ];
+  }
+
+  // 处理已加入的成员发来的消息
+  handle(userId: string, message: CollaborationMessage): HostDelivery[] {
+    const payload = message.payload || {};
+    const role = this.getUsers().find(u => u.id === userId)?.role ?? 'editor';
+
+    try {
+      // 评论者和只读成员的编辑直接拒绝，并回复完整内容让客户端撤销本地的修改
+      if (EDIT_MESSAGE_TYPES.includes(message.type) && !canEdit(role)) {
+        const clientOperationId = typeof payload.clientOperationId === 'string' ? payload.clientOperationId : undefined;
+        return [
+          this.errorReply('forbidden', '当前角色没有编辑权限', clientOperationId),
+          this.resyncReply(clientOperationId)
+        ];
+      }
+
+      switch (message.type) {
+        case 'operation':
+          return this.commitOperations(userId, payload);
+
+        case 'crdt_operation':
+          return this.commitCrdtOperations(userId, payload);
+
+        case 'content':
+          return this.replaceContent(userId, message);
+
+        case 'request_sync':
+          return [this.syncReply(typeof payload.sinceRevision === 'number' ? payload.sinceRevision : undefined)];
+
+        case 'request_users':
+          return [this.reply({ type: 'sync', payload: { users: this.getUsers() } })];
+
+        case 'set_role':
+          return this.setRole(userId, role, payload);
+
+        case 'leave':
+          return this.leave(userId);
+
+        case 'cursor':
+          this.updateUser(userId, { cursorPosition: { position: payload.position, line: payload.line, column: payload.column } });
+          return [this.broadcast(message)];
+
+        case 'selection':
+          this.updateUser(userId, { selection: { start: payload.start, end: payload.end } });
+          return [this.broadcast(message)];
+
+        case 'status':
+          // 主动离线等同于离开会话
+          if (payload.status === UserStatus.OFFLINE) {
+            return [this.broadcast(message), ...this.leave(userId)];
+          }
+          return [this.broadcast(message), ...this.updateStatus(userId, this.validateUserStatus(payload.status))];
+
+        case 'activity':
+          return [this.broadcast(message), ...this.updateStatus(userId, UserStatus.ONLINE)];
+
+        case 'heartbeat':
+          // 心跳只刷新活跃时间，"离开"的用户恢复为在线
+          if (this.getUsers().find(u => u.id === userId)?.status === UserStatus.AWAY) {
+            return this.updateStatus(userId, UserStatus.ONLINE);
+          }
+          this.updateUser(userId, {});
+          return [];
+
+        default:
+          return [this.broadcast(message)];
+      }
+    } catch (error) {
+      console.error('处理协作消息错误:', error);
+      return [];
+    }
+  }
+
+  // 检查成员活动状态：长时间无活动的变为"离开"，超过离线时间的移除
+  checkActivity(now: number = Date.now()): HostDelivery[] {
+    const users = this.getUsers();
+    const deliveries: HostDelivery[] = [];
+    let changed = false;
+
+    const remaining = users.filter(user => {
+      if (!user.lastActive || now - user.lastActive > OFFLINE_TIMEOUT) {
+        console.log(`用户 ${user.name} (${user.id}) 超时，从活跃列表移除`);
+        deliveries.push(this.broadcast({ type: 'leave', payload: { userId: user.id } }));
+        changed = true;
+        return false;
+      }
+      return true;
+    }).map(user => {
+      if (user.status === UserStatus.ONLINE && now - user.lastActive! > AWAY_TIMEOUT) {
+        changed = true;
+        return { ...user, status: UserStatus.AWAY };
+      }
+      return user;
+    });
+
+    if (!changed) return [];
+
+    this.saveUsers(remaining);
+    deliveries.push(this.broadcast({ type: 'sync', payload: { users: remaining } }));
+    return deliveries;
+  }
+
+  // 完整的文档快照，CRDT模式下附带文档状态供合并
+  getSnapshot(): { content: string; revision: number; mode: DocumentMode; crdt?: CrdtDocumentState } {
+    const mode = this.getMode();
+    const crdt = mode === 'crdt' ? this.getCrdtState() : null;
+    return {
+      content: this.storage.getItem(CONTENT_KEY(this.sessionId)) || '',
+      revision: this.getRevision(),
+      mode,
+      ...(crdt ? { crdt } : {})
+    };
+  }
+
+  // 将基于baseRevision生成的操作转换到最新版本后提交
+  // 已经提交过的消息只回复确认；基准版本之后的记录不完整时拒绝并要求整篇同步
+  private commitOperations(userId: string, payload: any): HostDelivery[] {
+    const clientOperationId: string | undefined = typeof payload.clientOperationId === 'string'
+      ? payload.clientOperationId
+      : undefined;
+    const replayed = payload.replayed === true;
+
+    // 模式不符时让客户端按快照里的模式重新同步
+    if (this.getMode() !== 'ot') {
+      console.warn('当前会话不是OT模式，要求重新同步');
+      return [this.resyncReply(clientOperationId)];
+    }
+
+    const records = this.getOperationRecords();
+    const committed = clientOperationId
+      ? records.find(record => record.clientOperationId === clientOperationId)
+      : undefined;
+    if (committed) {
+      return [this.reply({ type: 'operation', payload: this.recordPayload(committed) })];
+    }
+
+    const operations: TextOperation[] = Array.isArray(payload.operations) ? payload.operations : [];
+    const revision = this.getRevision();
+    const baseRevision = typeof payload.baseRevision === 'number' ? payload.baseRevision : revision;
+    const concurrent = records.filter(record => record.revision > baseRevision);
+
+    // 基准版本之后的记录不完整，说明历史已被裁剪，只能整篇重新同步
+    if (baseRevision > revision || concurrent.length !== revision - baseRevision) {
+      console.warn(`基准版本 ${baseRevision} 已过期，要求重新同步`);
+      return [this.resyncReply(clientOperationId)];
+    }
+
+    // 以加入会话的用户为准，避免冒用他人ID影响并发插入的先后
+    let transformed: TextOperation[] = operations.map(operation => ({ ...operation, userId }));
+    for (const record of concurrent) {
+      transformed = transformOperations(transformed, record.operations)[0];
+    }
+
+    const record = this.appendRecord(userId, transformed, clientOperationId, replayed);
+    return [this.broadcast({ type: 'operation', payload: this.recordPayload(record) })];
+  }
+
+  // 合并CRDT操作到共享文档，发送者收到自己的广播即视为确认
+  private commitCrdtOperations(userId: string, payload: any): HostDelivery[] {
+    const clientOperationId: string | undefined = typeof payload.clientOperationId === 'string'
+      ? payload.clientOperationId
+      : undefined;
+
+    if (this.getMode() !== 'crdt' || !Array.isArray(payload.operations)) {
+      console.warn('当前会话不是CRDT模式或操作格式错误，要求重新同步');
+      return [this.resyncReply(clientOperationId)];
+    }
+
+    const operations = payload.operations as CrdtOperation[];
+    const doc = new CrdtDocument(HOST_SITE_ID, this.getCrdtState() || undefined);
+    doc.applyRemote(operations);
+    const revision = this.saveCrdtDocument(doc);
+
+    return [this.broadcast({
+      type: 'crdt_operation',
+      payload: {
+        userId,
+        operations,
+        revision,
+        ...(clientOperationId ? { clientOperationId } : {}),
+        ...(payload.replayed === true ? { replayed: true } : {})
+      }
+    })];
+  }
+
+  // 整篇替换内容：OT模式记为一个版本，CRDT模式转换成CRDT操作，保证各副本仍然可以合并
+  private replaceContent(userId: string, message: CollaborationMessage): HostDelivery[] {
+    const content = message.payload?.content;
+    if (content === undefined) return [this.broadcast(message)];
+
+    if (this.getMode() === 'crdt') {
+      const doc = new CrdtDocument(HOST_SITE_ID, this.getCrdtState() || undefined);
+      const operations = doc.applyLocal([{ type: 'sync', userId, content }]);
+      const revision = this.saveCrdtDocument(doc);
+      return [this.broadcast({
+        type: 'crdt_operation',
+        payload: { userId: HOST_SITE_ID, operations, revision }
+      })];
+    }
+
+    const record = this.appendRecord(userId, [{ type: 'sync', userId, content }]);
+    return [this.broadcast({
+      type: 'content',
+      payload: { ...message.payload, revision: record.revision }
+    })];
+  }
+
+  // 所有者调整其他成员的角色，所有者身份不能转让
+  private setRole(userId: string, role: SessionRole, payload: any): HostDelivery[] {
+    if (role !== 'owner') {
+      return [this.errorReply('forbidden', '只有会话所有者可以调整角色')];
+    }
+
+    const target = this.getUsers().find(u => u.id === payload.userId);
+    const newRole: SessionRole = payload.role;
+    if (!target || target.id === userId || !['editor', 'commenter', 'viewer'].includes(newRole)) {
+      return [this.errorReply('invalid_role', '无法调整该成员的角色')];
+    }
+
+    this.storage.setItem(ROLES_KEY(this.sessionId), JSON.stringify({ ...this.getRoles(), [target.id]: newRole }));
+    this.saveUsers(this.getUsers().map(user => user.id === target.id ? { ...user, role: newRole } : user));
+    return [this.broadcast({ type: 'role', payload: { userId: target.id, role: newRole, changedBy: userId } })];
+  }
+
+  // 同步请求的回复，指定版本且记录完整时只补发之后的操作
+  private syncReply(sinceRevision?: number): HostDelivery {
+    const revision = this.getRevision();
+    // CRDT模式没有操作记录，总是返回完整的文档状态
+    const missed = sinceRevision !== undefined && sinceRevision <= revision && this.getMode() === 'ot'
+      ? this.getOperationRecords().filter(record => record.revision > sinceRevision)
+      : null;
+    const complete = missed !== null && missed.length === revision - sinceRevision!;
+
+    return this.reply({
+      type: 'sync',
+      payload: complete
+        ? { users: this.getUsers(), operations: missed, revision }
+        : { users: this.getUsers(), ...this.getSnapshot() }
+    });
+  }
+
+  // 要求客户端整篇同步，被拒绝的消息告知客户端从队列中移除
+  private resyncReply(rejectedOperationId?: string): HostDelivery {
+    return this.reply({
+      type: 'sync',
+      payload: {
+        users: this.getUsers(),
+        ...this.getSnapshot(),
+        ...(rejectedOperationId ? { rejectedOperationId } : {})
+      }
+    });
+  }
+
+  // 只回复发送者的错误消息
+  private errorReply(code: string, error: string, rejectedOperationId?: string): HostDelivery {
+    return this.reply({
+      type: 'error',
+      payload: { code, error, ...(rejectedOperationId ? { rejectedOperationId } : {}) }
+    });
+  }
+
+  private appendRecord(userId: string, operations: TextOperation[], clientOperationId?: string, replayed: boolean = false): OperationRecord {
+    const content = this.storage.getItem(CONTENT_KEY(this.sessionId)) || '';
+    const record: OperationRecord = {
+      revision: this.getRevision() + 1,
+      userId,
+      operations,
+      timestamp: Date.now(),
+      ...(clientOperationId ? { clientOperationId } : {}),
+      ...(replayed ? { replayed } : {})
+    };
+
+    this.storage.setItem(CONTENT_KEY(this.sessionId), applyOperations(content, operations));
+    this.storage.setItem(REVISION_KEY(this.sessionId), record.revision.toString());
+    this.storage.setItem(
+      OPERATIONS_KEY(this.sessionId),
+      JSON.stringify([...this.getOperationRecords(), record].slice(-MAX_OPERATION_HISTORY))
+    );
+    return record;
+  }
+
+  private recordPayload(record: OperationRecord) {
+    return {
+      userId: record.userId,
+      operations: record.operations,
+      revision: record.revision,
+      ...(record.clientOperationId ? { clientOperationId: record.clientOperationId } : {}),
+      ...(record.replayed ? { replayed: true } : {})
+    };
+  }
+
+  // 保存CRDT文档，返回新的版本号
+  private saveCrdtDocument(doc: CrdtDocument): number {
+    const revision = this.getRevision() + 1;
+    this.storage.setItem(CRDT_KEY(this.sessionId), JSON.stringify(doc.getState()));
+    this.storage.setItem(CONTENT_KEY(this.sessionId), doc.getText());
+    this.storage.setItem(REVISION_KEY(this.sessionId), revision.toString());
+    return revision;
+  }
+
+  // 更新成员状态，状态有变化时广播用户列表
+  private updateStatus(userId: string, status: UserStatus): HostDelivery[] {
+    const user = this.getUsers().find(u => u.id === userId);
+    if (!user) return [];
+
+    const users = this.updateUser(userId, { status });
+    return user.status !== status ? [this.broadcast({ type: 'sync', payload: { users } })] : [];
+  }
+
+  // 更新成员信息并刷新活跃时间，返回更新后的用户列表
+  private updateUser(userId: string, changes: Partial<CollaborationUser>): CollaborationUser[] {
+    const users = this.getUsers().map(user =>
+      user.id === userId ? { ...user, ...changes, lastActive: Date.now() } : user
+    );
+    this.saveUsers(users);
+    return users;
+  }
+
+  // 验证用户状态是否有效，如果无效则返回默认值
+  private validateUserStatus(status: any): UserStatus {
+    const validStatuses: UserStatus[] = [UserStatus.ONLINE, UserStatus.AWAY, UserStatus.OFFLINE];
+    return validStatuses.includes(status) ? status : UserStatus.ONLINE;
+  }
+
+  private getMode(): DocumentMode {
+    return this.storage.getItem(MODE_KEY(this.sessionId)) === 'crdt' ? 'crdt' : 'ot';
+  }
+
+  private getRevision(): number {
+    return parseInt(this.storage.getItem(REVISION_KEY(this.sessionId)) || '0', 10);
+  }
+
+  private getUsers(): CollaborationUser[] {
+    return this.readJson<CollaborationUser[]>(USERS_KEY(this.sessionId)) || [];
+  }
+
+  private saveUsers(users: CollaborationUser[]): void {
+    this.storage.setItem(USERS_KEY(this.sessionId), JSON.stringify(users));
+  }
+
+  // 所有者调整过的成员角色
+  private getRoles(): Record<string, SessionRole> {
+    return this.readJson<Record<string, SessionRole>>(ROLES_KEY(this.sessionId)) || {};
+  }
+
+  private getOperationRecords(): OperationRecord[] {
+    return this.readJson<OperationRecord[]>(OPERATIONS_KEY(this.sessionId)) || [];
+  }
+
+  private getCrdtState(): CrdtDocumentState | null {
+    return this.readJson<CrdtDocumentState>(CRDT_KEY(this.sessionId));
+  }
+
+  private readJson<T>(key: string): T | null {
+    try {
+      const json = this.storage.getItem(key);
+      return json ? JSON.parse(json) : null;
+    } catch (error) {
+      console.error('解析会话数据错误:', error);
+      return null;
+    }
+  }
+
+  private broadcast(message: CollaborationMessage): HostDelivery {
+    return { target: 'all', message: this.stamp(message) };
+  }
+
+  private reply(message: CollaborationMessage): HostDelivery {
+    return { target: 'sender', message: this.stamp(message) };
+  }
+
+  // 为消息添加ID和时间戳
+  private stamp(message: CollaborationMessage): CollaborationMessage {
+    return { ...message, timestamp: Date.now(), messageId: uuidv4() };
+  }
+}
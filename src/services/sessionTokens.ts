@@ -0,0 +1,36 @@
+// 协作会话令牌的本地保存
+// 邀请令牌来自邀请链接或创建会话时服务器返回的所有者令牌；会话令牌在加入后由服务器签发，只对同一用户ID有效
+const INVITE_TOKEN_KEY = (sessionId: string) => `smalltown_writer_invite_${sessionId}`;
+const SESSION_TOKEN_KEY = (sessionId: string) => `smalltown_writer_session_token_${sessionId}`;
+
+export function saveInviteToken(sessionId: string, token: string): void {
+  try {
+    localStorage.setItem(INVITE_TOKEN_KEY(sessionId), token);
+  } catch (error) {
+    console.error('保存邀请令牌错误:', error);
+  }
+}
+
+export function getInviteToken(sessionId: string): string | null {
+  return localStorage.getItem(INVITE_TOKEN_KEY(sessionId));
+}
+
+export function saveSessionToken(sessionId: string, userId: string, token: string): void {
+  try {
+    localStorage.setItem(SESSION_TOKEN_KEY(sessionId), JSON.stringify({ userId, token }));
+  } catch (error) {
+    console.error('保存会话令牌错误:', error);
+  }
+}
+
+// 获取该用户的会话令牌，用户ID不同时返回null
+export function getSessionToken(sessionId: string, userId: string): string | null {
+  try {
+    const json = localStorage.getItem(SESSION_TOKEN_KEY(sessionId));
+    const saved = json ? JSON.parse(json) as { userId: string; token: string } : null;
+    return saved && saved.userId === userId ? saved.token : null;
+  } catch (error) {
+    console.error('读取会话令牌错误:', error);
+    return null;
+  }
+}
@@ -0,0 +1,278 @@
+import { io, Socket } from 'socket.io-client';
+import { v4 as uuidv4 } from 'uuid';
+import type { SessionRole } from '../types/Collaboration';
+import type {
+  CollaborationMessage,
+  JoinRequest,
+  JoinResult,
+  Transport,
+  TransportMessageHandler,
+  TransportStatusHandler
+} from './transport';
+
+const CONNECT_TIMEOUT = 5000;
+const MAX_CONNECT_RETRIES = 3;
+const MAX_RECONNECT_DELAY = 30000;
+
+// 通过 src/server 的Socket.IO服务器协作
+// 首次连接失败时重试几次；加入后断线会按指数退避一直重连，直到主动断开
+export class SocketIoTransport implements Transport {
+  private serverUrl: string;
+  private socket: Socket | null = null;
+  private connected: boolean = false;
+  private request: JoinRequest | null = null; // 当前加入的会话，断线后用于重新加入
+  private reconnecting: boolean = false;
+  private reconnectTimer: number | null = null;
+  private reconnectAttempts: number = 0; // 连续重连失败次数，用于计算退避时间
+  private messageHandler: TransportMessageHandler | null = null;
+  private statusHandler: TransportStatusHandler | null = null;
+
+  constructor(serverUrl: string) {
+    this.serverUrl = serverUrl;
+    console.log('初始化Socket.IO传输, 服务器URL:', serverUrl);
+
+    // 网络恢复时立即重连，不等退避计时
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  private handleOnline = () => {
+    if (this.request && this.reconnecting && !this.isConnected()) {
+      console.log('网络已恢复，立即重新连接');
+      this.reconnectAttempts = 0;
+      this.reconnectWithDelay(0);
+    }
+  };
+
+  public isConnected(): boolean {
+    return this.connected && !!this.socket?.connected;
+  }
+
+  public setMessageHandler(handler: TransportMessageHandler | null): void {
+    this.messageHandler = handler;
+  }
+
+  public setStatusHandler(handler: TransportStatusHandler | null): void {
+    this.statusHandler = handler;
+  }
+
+  public async connect(request: JoinRequest): Promise<JoinResult> {
+    if (this.socket || this.reconnecting) {
+      this.disconnect();
+    }
+
+    // 没有令牌时尝试创建会话，成为会话的所有者
+    let inviteToken: string | undefined;
+    if (!request.token) {
+      const created = await this.createSession(request);
+      if (!created.success) return created;
+      inviteToken = created.inviteToken;
+      request = { ...request, token: inviteToken };
+    }
+
+    let result: JoinResult = { success: false };
+    for (let attempt = 0; attempt <= MAX_CONNECT_RETRIES; attempt++) {
+      if (attempt > 0) {
+        console.log(`连接失败，还有${MAX_CONNECT_RETRIES - attempt + 1}次重试机会，1秒后重试...`);
+        await new Promise(resolve => window.setTimeout(resolve, 1000));
+      }
+
+      result = await this.join(request);
+      // 会话拒绝加入（人数已满、用户名重复）时重试也没有意义
+      if (result.success || result.error) break;
+    }
+
+    if (result.success) {
+      // 之后的自动重连使用绑定当前用户的会话令牌
+      this.request = { ...request, token: result.sessionToken || request.token };
+      return { ...result, ...(inviteToken ? { inviteToken } : {}) };
+    }
+
+    console.error('连接失败:', result.error || '无法连接到协作服务器');
+    return result;
+  }
+
+  // 通过REST接口创建会话，返回所有者令牌
+  private async createSession(request: JoinRequest): Promise<JoinResult> {
+    try {
+      const response = await fetch(`${this.serverUrl}/api/sessions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: request.sessionId, mode: request.mode })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.token) {
+        return { success: false, error: data.error || '创建会话失败' };
+      }
+      return { success: true, inviteToken: data.token };
+    } catch (error) {
+      console.error('创建会话错误:', error);
+      return { success: false, error: '无法连接到协作服务器' };
+    }
+  }
+
+  public async createInvite(sessionId: string, role: SessionRole, ownerToken: string | null): Promise<string | null> {
+    if (!ownerToken) {
+      throw new Error('只有会话所有者可以邀请成员');
+    }
+
+    const response = await fetch(`${this.serverUrl}/api/sessions/${encodeURIComponent(sessionId)}/invites`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${ownerToken}`
+      },
+      body: JSON.stringify({ role })
+    });
+    const data = await response.json();
+    if (!response.ok || !data.token) {
+      throw new Error(data.error || '创建邀请失败');
+    }
+    return data.token;
+  }
+
+  // 建立Socket.IO连接并加入会话，等待服务端确认
+  private join(request: JoinRequest): Promise<JoinResult> {
+    return new Promise(resolve => {
+      // 丢弃已断开的旧连接，避免旧socket上的事件干扰
+      this.closeSocket();
+
+      // 重连由本类处理
+      const socket = io(this.serverUrl, { reconnection: false });
+      this.socket = socket;
+      let settled = false;
+
+      const finish = (result: JoinResult) => {
+        if (settled) return;
+        settled = true;
+        window.clearTimeout(timeout);
+        if (!result.success) {
+          this.closeSocket();
+        }
+        resolve(result);
+      };
+
+      const timeout = window.setTimeout(() => {
+        console.error('连接超时');
+        finish({ success: false });
+      }, CONNECT_TIMEOUT);
+
+      socket.on('connect', () => {
+        console.log('Socket.IO连接成功');
+        socket.emit('join', {
+          sessionId: request.sessionId,
+          userId: request.userId,
+          userName: request.userName,
+          mode: request.mode,
+          token: request.token
+        });
+      });
+
+      socket.on('connection_ack', (data: { success: boolean; error?: string; role?: SessionRole; sessionToken?: string }) => {
+        if (data.success) {
+          console.log('服务器确认连接成功');
+          this.connected = true;
+          finish({ success: true, role: data.role, sessionToken: data.sessionToken });
+        } else {
+          console.error('服务器拒绝连接:', data.error);
+          finish({ success: false, error: data.error || '加入会话失败' });
+        }
+      });
+
+      socket.on('message', (message: CollaborationMessage) => {
+        this.messageHandler?.(message);
+      });
+
+      socket.on('connect_error', (error: Error) => {
+        console.error('Socket.IO连接错误:', error);
+        finish({ success: false });
+      });
+
+      socket.on('disconnect', () => {
+        console.log('Socket.IO断开连接');
+        const wasConnected = this.connected;
+        this.connected = false;
+        finish({ success: false });
+
+        if (wasConnected && this.request && !this.reconnecting) {
+          this.statusHandler?.(false);
+          this.reconnecting = true;
+          console.log('尝试自动重新连接...');
+          this.reconnectWithDelay();
+        }
+      });
+    });
+  }
+
+  // 断开连接后延迟重连，失败后按指数退避一直重试，直到主动断开
+  private reconnectWithDelay(delay?: number): void {
+    if (this.reconnectTimer) {
+      window.clearTimeout(this.reconnectTimer);
+    }
+
+    const reconnectDelay = delay ?? Math.min(2000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY);
+    this.reconnectTimer = window.setTimeout(async () => {
+      this.reconnectTimer = null;
+      const request = this.request;
+      if (!request || !this.reconnecting) return;
+
+      console.log(`执行重新连接（第${this.reconnectAttempts + 1}次）...`);
+      const result = await this.join(request);
+
+      // 等待期间可能已经主动断开
+      if (!this.reconnecting || this.request !== request) return;
+
+      if (result.success) {
+        console.log('重新连接成功');
+        this.request = { ...request, token: result.sessionToken || request.token };
+        this.reconnecting = false;
+        this.reconnectAttempts = 0;
+        this.statusHandler?.(true);
+        return;
+      }
+
+      this.reconnectAttempts++;
+      console.error(`重新连接失败，${Math.min(2000 * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY) / 1000}秒后再次尝试`);
+      this.reconnectWithDelay();
+    }, reconnectDelay);
+  }
+
+  public disconnect(): void {
+    this.request = null;
+    this.reconnecting = false;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.closeSocket();
+    this.connected = false;
+  }
+
+  private closeSocket(): void {
+    if (!this.socket) return;
+    this.socket.removeAllListeners();
+    this.socket.disconnect();
+    this.socket = null;
+  }
+
+  // request_sync 使用服务端的独立事件，其余消息按原样转发
+  public send(message: CollaborationMessage): void {
+    if (!this.isConnected()) return;
+
+    try {
+      if (message.type === 'request_sync') {
+        this.socket!.emit('request_sync', message.payload);
+        return;
+      }
+
+      this.socket!.emit('message', {
+        ...message,
+        timestamp: Date.now(),
+        messageId: uuidv4()
+      });
+    } catch (error) {
+      console.error('发送消息错误:', error);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// 文本比较，用于版本历史和协作同步时对照两段正文
+
+export type DiffType = 'equal' | 'insert' | 'delete';
+
+// 连续的相同、新增或删除片段
+export interface DiffPart<T> {
+  type: DiffType;
+  items: T[];
+}
+
+// 差异过大时不再逐项比较，避免保存每一步的搜索状态占用过多内存
+const MAX_TRACE_CELLS = 2e7;
+
+// Myers差分算法，返回把 a 变成 b 的最短编辑序列
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffPart<T>[] {
+  // 相同的开头和结尾不参与比较，正文修改通常只集中在少数几处
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equals(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equals(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  const oldItems = a.slice(prefix, a.length - suffix);
+  const newItems = b.slice(prefix, b.length - suffix);
+  const parts: DiffPart<T>[] = [];
+  const push = (type: DiffType, item: T) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.items.push(item);
+    } else {
+      parts.push({ type, items: [item] });
+    }
+  };
+
+  a.slice(0, prefix).forEach(item => push('equal', item));
+  backtrack(oldItems, newItems, equals).forEach(([type, item]) => push(type, item));
+  a.slice(a.length - suffix).forEach(item => push('equal', item));
+  return parts;
+}
+
+// 记录每一步的最远到达位置，再从终点倒推出编辑序列
+function backtrack<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): Array<[DiffType, T]> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    if (trace.length * v.length > MAX_TRACE_CELLS) {
+      // 整体视为删除旧内容、插入新内容
+      return [
+        ...a.map((item): [DiffType, T] => ['delete', item]),
+        ...b.map((item): [DiffType, T] => ['insert', item])
+      ];
+    }
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const result: Array<[DiffType, T]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push(['equal', a[--x]]);
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        result.push(['insert', b[--y]]);
+      } else {
+        result.push(['delete', a[--x]]);
+      }
+    }
+  }
+  return result.reverse();
+}
+
+
+// 文本片段及其差异类型
+export interface TextSegment {
+  type: DiffType;
+  text: string;
+}
+
+// 并排显示的一行，左边是旧文本，右边是新文本，没有对应行的一侧为null
+export interface SideBySideLine {
+  lineNumber: number;
+  type: DiffType;
+  segments: TextSegment[];
+}
+
+export interface SideBySideRow {
+  left: SideBySideLine | null;
+  right: SideBySideLine | null;
+}
+
+// 汉字、假名、谚文以及全角标点逐字比较，连续的字母数字作为一个词，空白连在一起
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}_]+|\s+|./gsu;
+
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) || [];
+}
+
+// 按字词比较，中文不会把整段当作一个词
+export function diffText(oldText: string, newText: string): TextSegment[] {
+  return diffSequences(tokenize(oldText), tokenize(newText)).map(part => ({
+    type: part.type,
+    text: part.items.join('')
+  }));
+}
+
+// 先按行比较，相邻的删除行和新增行配对成修改行，修改行内再按字词标出差异
+export function diffSideBySide(oldText: string, newText: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const parts = diffSequences(oldText.split('\n'), newText.split('\n'));
+
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index];
+
+    if (part.type === 'equal') {
+      part.items.forEach(text => rows.push({
+        left: { lineNumber: oldLine++, type: 'equal', segments: [{ type: 'equal', text }] },
+        right: { lineNumber: newLine++, type: 'equal', segments: [{ type: 'equal', text }] }
+      }));
+      continue;
+    }
+
+    const deleted = part.type === 'delete' ? part.items : [];
+    const next = parts[index + 1];
+    const inserted = part.type === 'insert' ? part.items : next && next.type === 'insert' ? next.items : [];
+    if (part.type === 'delete' && inserted.length > 0) index++;
+
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      const oldText = i < deleted.length ? deleted[i] : null;
+      const newText = i < inserted.length ? inserted[i] : null;
+      const segments = oldText !== null && newText !== null ? diffText(oldText, newText) : null;
+
+      rows.push({
+        left: oldText === null ? null : {
+          lineNumber: oldLine++,
+          type: 'delete',
+          segments: segments ? segments.filter(segment => segment.type !== 'insert') : [{ type: 'delete', text: oldText }]
+        },
+        right: newText === null ? null : {
+          lineNumber: newLine++,
+          type: 'insert',
+          segments: segments ? segments.filter(segment => segment.type !== 'delete') : [{ type: 'insert', text: newText }]
+        }
+      });
+    }
+  }
+  return rows;
+}
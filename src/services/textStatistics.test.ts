@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_STATISTICS, formatWordCount, getTextStatistics, sumStatistics } from './textStatistics';
+
+describe('getTextStatistics', () => {
+  it('每个汉字和中文标点算一个字', () => {
+    expect(getTextStatistics('今天天气很好。')).toEqual({
+      characters: 6, words: 0, punctuation: 1, paragraphs: 1, wordCount: 7
+    });
+    // 省略号是两个字符，各算一个字
+    expect(getTextStatistics('“走吧，”他说……').wordCount).toBe(9);
+  });
+
+  it('英文单词和连续的数字各算一个字，半角标点不计入', () => {
+    const statistics = getTextStatistics('Hello, world! It\'s 2024.');
+    expect(statistics.words).toBe(4);
+    expect(statistics.punctuation).toBe(0);
+    expect(statistics.wordCount).toBe(4);
+
+    // 带小数点和连字符的数字和单词算一个
+    expect(getTextStatistics('3.14 well-known café').words).toBe(3);
+  });
+
+  it('中英混排分别计数', () => {
+    const statistics = getTextStatistics('我买了3台iPhone 15，花了12000元。');
+    expect(statistics.characters).toBe(7);
+    expect(statistics.words).toBe(4);
+    expect(statistics.punctuation).toBe(2);
+    expect(statistics.wordCount).toBe(13);
+  });
+
+  it('假名、谚文和全角字母数字按字计数', () => {
+    expect(getTextStatistics('こんにちは').characters).toBe(5);
+    expect(getTextStatistics('안녕').characters).toBe(2);
+    expect(getTextStatistics('ＡＢ１２').characters).toBe(4);
+  });
+
+  it('Markdown标记和空白不计入字数，空行不算段落', () => {
+    const statistics = getTextStatistics('# 标题\n\n**加粗** 和 *斜体*\n   \n- 列表');
+    expect(statistics.wordCount).toBe(9);
+    expect(statistics.paragraphs).toBe(3);
+    expect(getTextStatistics('')).toEqual(EMPTY_STATISTICS);
+  });
+});
+
+describe('sumStatistics', () => {
+  it('逐项相加', () => {
+    const total = sumStatistics([getTextStatistics('第一章。'), getTextStatistics('Chapter two')]);
+    expect(total).toEqual({ characters: 3, words: 2, punctuation: 1, paragraphs: 2, wordCount: 6 });
+    expect(sumStatistics([])).toEqual(EMPTY_STATISTICS);
+  });
+});
+
+describe('formatWordCount', () => {
+  it('一万字以上以万为单位', () => {
+    expect(formatWordCount(9999)).toBe('9999字');
+    expect(formatWordCount(12345)).toBe('1.2万字');
+  });
+});
@@ -0,0 +1,42 @@
+// 字数统计：按中文平台的习惯，每个汉字和中文标点算一个字，英文单词和连续的数字各算一个字
+// 半角标点一般附在英文单词后面，也是Markdown的标记符号，不计入字数
+
+export interface TextStatistics {
+  characters: number; // 汉字、假名、谚文和全角字母数字
+  words: number; // 英文单词和数字
+  punctuation: number; // 中文标点和全角标点
+  paragraphs: number; // 非空行
+  wordCount: number; // 字数，以上三项之和
+}
+
+const CHARACTER_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff10-\uff19\uff21-\uff3a\uff41-\uff5a]/g;
+const WORD_PATTERN = /[A-Za-z0-9\u00c0-\u024f]+(?:['\u2019.-][A-Za-z0-9\u00c0-\u024f]+)*/g;
+const PUNCTUATION_PATTERN = /[\u3001-\u303f\u2010-\u2027\u2030-\u205e\uff01-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff65]/g;
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+export const EMPTY_STATISTICS: TextStatistics = { characters: 0, words: 0, punctuation: 0, paragraphs: 0, wordCount: 0 };
+
+export function getTextStatistics(text: string): TextStatistics {
+  const characters = countMatches(text, CHARACTER_PATTERN);
+  const words = countMatches(text, WORD_PATTERN);
+  const punctuation = countMatches(text, PUNCTUATION_PATTERN);
+  const paragraphs = text.split('\n').filter(line => line.trim() !== '').length;
+  return { characters, words, punctuation, paragraphs, wordCount: characters + words + punctuation };
+}
+
+// 合并多段文字的统计，例如全书由各章节相加
+export function sumStatistics(items: TextStatistics[]): TextStatistics {
+  return items.reduce((total, item) => ({
+    characters: total.characters + item.characters,
+    words: total.words + item.words,
+    punctuation: total.punctuation + item.punctuation,
+    paragraphs: total.paragraphs + item.paragraphs,
+    wordCount: total.wordCount + item.wordCount
+  }), EMPTY_STATISTICS);
+}
+
+// 字数较多时以万为单位显示
+export function formatWordCount(count: number): string {
+  return count >= 10000 ? `${(count / 10000).toFixed(1)}万字` : `${count}字`;
+}
@@ -0,0 +1,42 @@
+import type { CollaborationMessage, SessionRole } from '../types/Collaboration';
+import type { DocumentMode } from '../shared/crdtDocument';
+
+export type { CollaborationMessage };
+
+// 加入会话的请求
+export interface JoinRequest {
+  sessionId: string;
+  userId: string;
+  userName: string;
+  mode: DocumentMode; // 会话不存在时创建使用的文档模型
+  token?: string; // 邀请令牌或之前加入时签发的会话令牌
+}
+
+// 加入会话的结果
+export interface JoinResult {
+  success: boolean;
+  error?: string;
+  role?: SessionRole;
+  sessionToken?: string; // 绑定当前用户的令牌，之后重新加入时使用
+  inviteToken?: string; // 创建会话时获得的所有者令牌
+}
+
+export type TransportMessageHandler = (message: CollaborationMessage) => void;
+export type TransportStatusHandler = (connected: boolean) => void;
+
+// 协作传输层，负责把消息送到会话的其他成员并接收会话的消息
+// 加入成功后会话先回复一条带完整文档快照的 sync 消息，之后的消息按会话的处理顺序到达
+// request_sync 等请求和普通消息一样通过 send 发出，由传输层转换成对应的协议
+export interface Transport {
+  // 加入会话，连接失败或会话拒绝时返回失败原因
+  connect(request: JoinRequest): Promise<JoinResult>;
+  // 离开会话并停止重连
+  disconnect(): void;
+  isConnected(): boolean;
+  send(message: CollaborationMessage): void;
+  setMessageHandler(handler: TransportMessageHandler | null): void;
+  // 连接断开和自动重新加入成功时调用，首次加入由 connect 的结果表示
+  setStatusHandler(handler: TransportStatusHandler | null): void;
+  // 用所有者令牌签发邀请令牌；不需要令牌的传输方式返回null
+  createInvite(sessionId: string, role: SessionRole, ownerToken: string | null): Promise<string | null>;
+}
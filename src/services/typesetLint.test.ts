@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { LintIssue, applyLintFixes, lintFixEdits, lintText } from './typesetLint';
+import { applyOperations, editsToOperations } from './collaborationService';
+
+// 每个问题的规则和对应的原文
+function describeIssues(text: string) {
+  return lintText(text).map(issue => [issue.rule, text.slice(issue.start, issue.end)]);
+}
+
+const fixAll = (text: string) => applyLintFixes(text, lintText(text));
+
+describe('lintText', () => {
+  it('不规范的省略号和破折号，英文句子中的 ... 和 -- 不算', () => {
+    expect(describeIssues('他说…然后。。。忽然—门开了')).toEqual([
+      ['ellipsis', '…'],
+      ['ellipsis', '。。。'],
+      ['dash', '—']
+    ]);
+    expect(describeIssues('Wait... what -- really')).toEqual([]);
+    expect(fixAll('等等...忽然--门开了')).toBe('等等……忽然——门开了');
+  });
+
+  it('重复的标点只保留最后一个，省略号中的句号不算重复', () => {
+    expect(describeIssues('好，，走吧。。')).toEqual([['repeatedPunctuation', '，，'], ['repeatedPunctuation', '。。']]);
+    expect(fixAll('好，，走吧；：')).toBe('好，走吧：');
+  });
+
+  it('中文中的半角标点，数字和英文单词中间的不算', () => {
+    expect(fixAll('你好,世界.真的吗?')).toBe('你好，世界。真的吗？');
+    expect(describeIssues('圆周率3.14')).toEqual([]);
+  });
+
+  it('括号和引号不成对时报告，没有自动修复', () => {
+    const issues = lintText('“你好《三体』');
+    expect(issues.map(issue => issue.rule)).toEqual(['unpairedBracket', 'unpairedBracket', 'unpairedBracket']);
+    expect(issues.every(issue => issue.fix === undefined)).toBe(true);
+    // 引号按段落配对，英文单词中的撇号不算
+    expect(describeIssues('“第一段\n第二段”')).toEqual([['unpairedBracket', '“'], ['unpairedBracket', '”']]);
+    expect(describeIssues('他说“it’s fine”')).toEqual([]);
+  });
+
+  it('汉字和英文字母之间加空格', () => {
+    expect(fixAll('我用iPhone写作')).toBe('我用 iPhone 写作');
+  });
+
+  it('场景分隔线不检查标点', () => {
+    expect(lintText('第一幕\n***\n---\n第二幕')).toEqual([]);
+  });
+
+  it('问题位置按全文计算，ID由规则和位置组成', () => {
+    const [issue] = lintText('第一行\n第二行,');
+    expect(issue).toMatchObject({ id: 'halfWidthPunctuation:7', start: 7, end: 8, fix: '，' });
+  });
+});
+
+describe('applyLintFixes', () => {
+  it('只修复选中的问题', () => {
+    const text = '你好,世界.';
+    const selected = lintText(text).filter(issue => issue.start === 2);
+    expect(applyLintFixes(text, selected)).toBe('你好，世界.');
+  });
+
+  it('位置重叠的修复只应用一处', () => {
+    const issues: LintIssue[] = [
+      { id: 'a', rule: 'dash', start: 0, end: 3, message: '', fix: 'X' },
+      { id: 'b', rule: 'dash', start: 2, end: 4, message: '', fix: 'Y' },
+      { id: 'c', rule: 'dash', start: 5, end: 6, message: '', fix: 'Z' }
+    ];
+    expect(applyLintFixes('abcdefg', issues)).toBe('abYeZg');
+  });
+});
+
+describe('lintFixEdits', () => {
+  it('每处修复单独作为一对操作，结果和一次性修复相同', () => {
+    const text = '他说...我用iPhone,好。。';
+    const issues = lintText(text);
+    const edits = lintFixEdits(issues);
+    expect(edits).toEqual([
+      { position: 15, length: 2, text: '。' },
+      { position: 13, length: 1, text: '，' },
+      { position: 7, length: 0, text: ' ' },
+      { position: 2, length: 3, text: '……' }
+    ]);
+
+    // 插入空格没有删除操作
+    const operations = editsToOperations(edits, 'me');
+    expect(operations.map(operation => [operation.type, operation.position])).toEqual([
+      ['delete', 15], ['insert', 15], ['delete', 13], ['insert', 13], ['insert', 7], ['delete', 2], ['insert', 2]
+    ]);
+    expect(applyOperations(text, operations)).toBe(applyLintFixes(text, issues));
+  });
+});
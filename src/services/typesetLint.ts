@@ -0,0 +1,188 @@
+import { isSceneBreak } from './markdownParser';
+import type { TextEdit } from './punctuation';
+
+// 排版检查：找出投稿平台常见的排版问题，大部分问题可以直接修复
+// 按段落检查，引号和括号不跨段配对
+
+export type LintRule =
+  | 'halfWidthPunctuation'
+  | 'repeatedPunctuation'
+  | 'ellipsis'
+  | 'dash'
+  | 'unpairedBracket'
+  | 'cjkLatinSpacing';
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  halfWidthPunctuation: '中文中的半角标点',
+  repeatedPunctuation: '重复的标点',
+  ellipsis: '省略号不规范',
+  dash: '破折号不规范',
+  unpairedBracket: '括号或引号不成对',
+  cjkLatinSpacing: '中英文之间缺少空格'
+};
+
+export interface LintIssue {
+  id: string; // 同一段正文中规则和位置相同的问题ID相同
+  rule: LintRule;
+  start: number;
+  end: number;
+  message: string;
+  fix?: string; // 替换 [start, end) 的文字，没有时需要手动修改
+}
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]/;
+// 中文语境：汉字、假名和全角标点
+const CJK_CONTEXT_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef\u2018-\u201d\u2026\u2014]/;
+
+const HALF_WIDTH_PUNCTUATION: Record<string, string> = {
+  ',': '，',
+  '.': '。',
+  '?': '？',
+  '!': '！',
+  ':': '：',
+  ';': '；',
+  '(': '（',
+  ')': '）'
+};
+
+const BRACKET_PAIRS: Record<string, string> = {
+  '《': '》',
+  '（': '）',
+  '【': '】',
+  '“': '”',
+  '‘': '’',
+  '「': '」',
+  '『': '』',
+  '〈': '〉'
+};
+const CLOSING_BRACKETS = new Map(Object.entries(BRACKET_PAIRS).map(([open, close]) => [close, open]));
+
+const ELLIPSIS = '……';
+const DASH = '——';
+
+const isCjkContext = (char: string | undefined) => !!char && CJK_CONTEXT_PATTERN.test(char);
+
+function lintLine(line: string, offset: number): LintIssue[] {
+  const issues: LintIssue[] = [];
+  // 已经被其他问题覆盖的位置，省略号中的句号不再算作重复标点
+  const covered = new Set<number>();
+  const add = (rule: LintRule, start: number, end: number, message: string, fix?: string) => {
+    for (let i = start; i < end; i++) covered.add(i);
+    issues.push({ id: `${rule}:${offset + start}`, rule, start: offset + start, end: offset + end, message, fix });
+  };
+  const isCovered = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (covered.has(i)) return true;
+    }
+    return false;
+  };
+  const inCjkContext = (start: number, end: number) => isCjkContext(line[start - 1]) || isCjkContext(line[end]);
+
+  const sceneBreak = isSceneBreak(line);
+
+  if (!sceneBreak) {
+    // 省略号应为两个“…”，英文句子中的 ... 不算
+    for (const match of line.matchAll(/…+|\.{3,}|。{3,}|[·・]{3,}|⋯+/g)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (match[0] === ELLIPSIS || (match[0][0] === '.' && !inCjkContext(start, end))) continue;
+      add('ellipsis', start, end, `省略号“${match[0]}”应为“${ELLIPSIS}”`, ELLIPSIS);
+    }
+
+    // 破折号应为两个“—”
+    for (const match of line.matchAll(/[—―─]+|－{2,}|-{2,}/g)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (match[0] === DASH || (match[0][0] === '-' && !inCjkContext(start, end))) continue;
+      add('dash', start, end, `破折号“${match[0]}”应为“${DASH}”`, DASH);
+    }
+
+    // 连在一起的逗号、句号、顿号、分号、冒号只保留最后一个
+    for (const match of line.matchAll(/[，。、；：]{2,}/g)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (isCovered(start, end)) continue;
+      add('repeatedPunctuation', start, end, `重复的标点“${match[0]}”`, match[0][match[0].length - 1]);
+    }
+
+    // 前后是中文的半角标点，数字和英文单词中间的不算
+    for (const match of line.matchAll(/[,.?!:;()]/g)) {
+      const start = match.index!;
+      if (isCovered(start, start + 1) || !inCjkContext(start, start + 1)) continue;
+      if (/[A-Za-z0-9]/.test(line[start - 1] || '') && /[A-Za-z0-9]/.test(line[start + 1] || '')) continue;
+      const fix = HALF_WIDTH_PUNCTUATION[match[0]];
+      add('halfWidthPunctuation', start, start + 1, `半角标点“${match[0]}”应为“${fix}”`, fix);
+    }
+  }
+
+  // 括号和引号配对，内层没有闭合的括号在外层闭合时一起报告
+  const stack: { char: string; index: number }[] = [];
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (BRACKET_PAIRS[char]) {
+      stack.push({ char, index: i });
+      continue;
+    }
+
+    const open = CLOSING_BRACKETS.get(char);
+    if (!open) continue;
+    // 英文单词中的撇号
+    if (char === '’' && /[A-Za-z]/.test(line[i - 1] || '') && /[A-Za-z]/.test(line[i + 1] || '')) continue;
+
+    const depth = stack.map(item => item.char).lastIndexOf(open);
+    if (depth < 0) {
+      add('unpairedBracket', i, i + 1, `“${char}”没有对应的“${open}”`);
+      continue;
+    }
+    stack.splice(depth).slice(1).forEach(item => {
+      add('unpairedBracket', item.index, item.index + 1, `“${item.char}”没有对应的“${BRACKET_PAIRS[item.char]}”`);
+    });
+  }
+  stack.forEach(item => {
+    add('unpairedBracket', item.index, item.index + 1, `“${item.char}”没有对应的“${BRACKET_PAIRS[item.char]}”`);
+  });
+
+  // 汉字和英文字母之间加空格
+  for (let i = 1; i < line.length; i++) {
+    const previous = line[i - 1];
+    const char = line[i];
+    if ((CJK_PATTERN.test(previous) && /[A-Za-z]/.test(char)) || (/[A-Za-z]/.test(previous) && CJK_PATTERN.test(char))) {
+      add('cjkLatinSpacing', i, i, '中文和英文之间应有空格', ' ');
+    }
+  }
+
+  return issues;
+}
+
+export function lintText(text: string): LintIssue[] {
+  let offset = 0;
+  return text.split('\n').flatMap(line => {
+    const issues = lintLine(line, offset);
+    offset += line.length + 1;
+    return issues;
+  }).sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// 要应用的修复，按位置从后往前排列，位置重叠时只保留靠后的一处
+export function lintFixEdits(issues: LintIssue[]): TextEdit[] {
+  const fixable = issues
+    .filter(issue => issue.fix !== undefined)
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+
+  const edits: TextEdit[] = [];
+  let limit = Infinity;
+  fixable.forEach(issue => {
+    if (issue.end > limit) return;
+    edits.push({ position: issue.start, length: issue.end - issue.start, text: issue.fix! });
+    limit = issue.start;
+  });
+  return edits;
+}
+
+// 应用问题的修复，位置重叠时只修复靠后的一处
+export function applyLintFixes(text: string, issues: LintIssue[]): string {
+  return lintFixEdits(issues).reduce(
+    (result, edit) => result.slice(0, edit.position) + edit.text + result.slice(edit.position + edit.length),
+    text
+  );
+}
@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Novel, Volume } from '../store/novelStore';
+import { getChapters, getNovelText, getNovelWordCount } from './novelStructure';
+import { deleteSnapshots, getSnapshots, putSnapshot } from './novelDatabase';
+
+// 保存历史版本的原因
+export type SnapshotReason = 'interval' | 'session_end' | 'manual' | 'restore' | 'replace';
+
+// 小说某一时刻的完整卷章结构和正文
+export interface NovelSnapshot {
+  id: string;
+  novelId: string;
+  title: string;
+  createdAt: Date;
+  reason: SnapshotReason;
+  volumes: Volume[];
+  wordCount: number;
+}
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  interval: '定时保存',
+  session_end: '协作结束',
+  manual: '手动保存',
+  restore: '恢复前备份',
+  replace: '替换前备份'
+};
+
+export const SNAPSHOT_INTERVAL = 10 * 60 * 1000; // 定时保存的间隔
+const MAX_AUTO_SNAPSHOTS = 50; // 每部小说保留的自动版本数，手动保存的版本不会被清理
+
+const isAutomatic = (reason: SnapshotReason) => reason === 'interval' || reason === 'session_end';
+
+// 两个版本的卷章结构和正文是否相同
+function sameContent(a: Pick<Novel, 'volumes'>, b: Pick<Novel, 'volumes'>): boolean {
+  const titles = (novel: Pick<Novel, 'volumes'>) =>
+    JSON.stringify(novel.volumes.map(volume => [volume.title, volume.chapters.map(chapter => chapter.title)]));
+  return getNovelText(a) === getNovelText(b) && titles(a) === titles(b);
+}
+
+export function listSnapshots(novelId: string): Promise<NovelSnapshot[]> {
+  return getSnapshots(novelId);
+}
+
+// 保存小说当前的版本，自动保存时内容与最近一个版本相同则跳过并返回null
+export async function createSnapshot(novel: Novel, reason: SnapshotReason): Promise<NovelSnapshot | null> {
+  const snapshots = await getSnapshots(novel.id);
+  if (isAutomatic(reason) && snapshots.length > 0 && sameContent(snapshots[0], novel)) {
+    return null;
+  }
+  // 空白小说没有需要保存的内容
+  if (isAutomatic(reason) && getChapters(novel).every(chapter => chapter.content === '')) {
+    return null;
+  }
+
+  const snapshot: NovelSnapshot = {
+    id: uuidv4(),
+    novelId: novel.id,
+    title: novel.title,
+    createdAt: new Date(),
+    reason,
+    volumes: novel.volumes,
+    wordCount: getNovelWordCount(novel)
+  };
+  await putSnapshot(snapshot);
+
+  // 清理最早的自动版本
+  const automatic = [snapshot, ...snapshots].filter(item => isAutomatic(item.reason));
+  await deleteSnapshots(automatic.slice(MAX_AUTO_SNAPSHOTS).map(item => item.id));
+
+  return snapshot;
+}
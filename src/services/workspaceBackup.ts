@@ -0,0 +1,283 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Chapter, Character, Friend, Novel, Volume } from '../store/novelStore';
+import type { AppSettings, NovelSettings } from '../store/settingsStore';
+import type { NovelSnapshot } from './versionHistory';
+import { generateCollaborationId, migrateNovel } from './novelStructure';
+import { createZip } from './zipWriter';
+import { ZipArchive } from './zipReader';
+
+// 工作区备份：把小说、角色、好友、设置和历史版本打包成一个ZIP文件
+// manifest.json 记录备份格式的版本，每个存储单独一个JSON文件
+
+const BACKUP_FORMAT = 'smalltown-writer-backup';
+// 备份格式的版本，结构变化时增加，并在 readBackup 中把旧版本的数据转换为新结构
+const BACKUP_VERSION = 1;
+
+const FILES = {
+  manifest: 'manifest.json',
+  novels: 'novels.json',
+  characters: 'characters.json',
+  friends: 'friends.json',
+  settings: 'settings.json',
+  snapshots: 'snapshots.json'
+};
+
+export interface WorkspaceBackup {
+  version: number;
+  exportedAt: Date;
+  novels: Novel[];
+  characters: Character[];
+  friends: Friend[];
+  appSettings: AppSettings;
+  novelSettings: NovelSettings[];
+  snapshots: NovelSnapshot[];
+}
+
+// 合并时ID相同的小说怎么处理：保留本地、使用备份、或者作为副本导入
+export type ConflictResolution = 'keep' | 'overwrite' | 'copy';
+
+export interface BackupConflict {
+  local: Novel;
+  backup: Novel;
+}
+
+export function createBackup(data: Omit<WorkspaceBackup, 'version' | 'exportedAt'>): Blob {
+  const manifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: {
+      novels: data.novels.length,
+      characters: data.characters.length,
+      friends: data.friends.length,
+      snapshots: data.snapshots.length
+    }
+  };
+
+  return createZip([
+    { path: FILES.manifest, data: JSON.stringify(manifest, null, 2) },
+    { path: FILES.novels, data: JSON.stringify(data.novels) },
+    { path: FILES.characters, data: JSON.stringify(data.characters) },
+    { path: FILES.friends, data: JSON.stringify(data.friends) },
+    { path: FILES.settings, data: JSON.stringify({ appSettings: data.appSettings, novelSettings: data.novelSettings }) },
+    { path: FILES.snapshots, data: JSON.stringify(data.snapshots) }
+  ]);
+}
+
+// ---- 读取和校验 ----
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function checkArray(value: unknown, name: string, check: (item: any) => boolean): any[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`备份中的${name}数据格式错误`);
+  }
+  const invalid = value.findIndex(item => !isObject(item) || !check(item));
+  if (invalid >= 0) {
+    throw new Error(`备份中第 ${invalid + 1} 个${name}数据不完整`);
+  }
+  return value;
+}
+
+function isValidChapter(chapter: any): boolean {
+  return isObject(chapter) && isString(chapter.id) && isString(chapter.title) && isString(chapter.content);
+}
+
+function isValidVolumes(volumes: any): boolean {
+  return Array.isArray(volumes) && volumes.every(volume =>
+    isObject(volume) && isString(volume.id) && isString(volume.title)
+    && Array.isArray(volume.chapters) && volume.chapters.every(isValidChapter));
+}
+
+// 小说必须有ID和标题，卷章结构不完整时拒绝导入，只有旧版的整篇正文时按旧数据迁移
+function isValidNovel(novel: any): boolean {
+  return isString(novel.id) && isString(novel.title)
+    && (novel.volumes === undefined ? isString(novel.content) : isValidVolumes(novel.volumes));
+}
+
+function reviveChapter(chapter: Chapter): Chapter {
+  return { ...chapter, lastEdited: new Date(chapter.lastEdited || Date.now()) };
+}
+
+async function readJson(zip: ZipArchive, path: string): Promise<unknown> {
+  const text = await zip.readText(path);
+  if (text === null) {
+    throw new Error(`备份文件缺少 ${path}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`备份文件中的 ${path} 已损坏`);
+  }
+}
+
+export async function readBackup(file: Blob): Promise<WorkspaceBackup> {
+  let zip: ZipArchive;
+  try {
+    zip = new ZipArchive(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('不是有效的工作区备份文件');
+  }
+
+  const manifest = await readJson(zip, FILES.manifest);
+  if (!isObject(manifest) || manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('不是有效的工作区备份文件');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error('备份文件来自更新版本的应用，请先更新后再导入');
+  }
+
+  const data = {
+    novels: await readJson(zip, FILES.novels),
+    characters: await readJson(zip, FILES.characters),
+    friends: await readJson(zip, FILES.friends),
+    settings: await readJson(zip, FILES.settings),
+    // 历史版本可以缺少
+    snapshots: zip.has(FILES.snapshots) ? await readJson(zip, FILES.snapshots) : []
+  };
+
+  // 备份时正在协作的小说，导入后不处于协作状态
+  const novels = checkArray(data.novels, '小说', isValidNovel).map(novel => ({ ...migrateNovel(novel), collaborationActive: false }));
+  const novelIds = new Set(novels.map(novel => novel.id));
+  if (novelIds.size !== novels.length) {
+    throw new Error('备份中有重复的小说ID');
+  }
+
+  const characters = checkArray(data.characters, '角色', character =>
+    isString(character.id) && isString(character.name) && isString(character.novelId)) as Character[];
+  const friends = checkArray(data.friends, '好友', friend => isString(friend.id) && isString(friend.name)) as Friend[];
+
+  const settings = data.settings;
+  if (!isObject(settings) || !isObject(settings.appSettings)) {
+    throw new Error('备份中的设置数据格式错误');
+  }
+  const novelSettings = checkArray(settings.novelSettings ?? [], '小说设置', item => isString(item.id)) as NovelSettings[];
+
+  // 属于备份之外的小说或者结构不完整的历史版本直接丢弃
+  const snapshots = (Array.isArray(data.snapshots) ? data.snapshots : [])
+    .filter((snapshot: any) => isObject(snapshot) && isString(snapshot.id) && novelIds.has(snapshot.novelId)
+      && isValidVolumes(snapshot.volumes))
+    .map((snapshot: any): NovelSnapshot => ({
+      ...snapshot,
+      createdAt: new Date(snapshot.createdAt),
+      volumes: snapshot.volumes.map((volume: Volume) => ({ ...volume, chapters: volume.chapters.map(reviveChapter) }))
+    }));
+
+  return {
+    version: manifest.version,
+    exportedAt: new Date(isString(manifest.exportedAt) ? manifest.exportedAt : Date.now()),
+    novels,
+    characters,
+    friends,
+    appSettings: settings.appSettings as AppSettings,
+    novelSettings,
+    snapshots
+  };
+}
+
+// ---- 合并 ----
+
+export function findConflicts(localNovels: Novel[], backup: WorkspaceBackup): BackupConflict[] {
+  const local = new Map(localNovels.map(novel => [novel.id, novel]));
+  return backup.novels
+    .filter(novel => local.has(novel.id))
+    .map(novel => ({ local: local.get(novel.id)!, backup: novel }));
+}
+
+// 作为副本导入时，小说、卷、章节、协作会话和历史版本都换成新的ID
+// 章节ID在数据库中是全局唯一的，历史版本中的章节也要一起换，恢复版本时才不会覆盖原来的小说
+function copyNovel(novel: Novel, snapshots: NovelSnapshot[]): { novel: Novel; snapshots: NovelSnapshot[] } {
+  const id = uuidv4();
+  const ids = new Map<string, string>();
+  const newId = (oldId: string) => {
+    if (!ids.has(oldId)) ids.set(oldId, uuidv4());
+    return ids.get(oldId)!;
+  };
+  const copyVolumes = (volumes: Volume[]): Volume[] => volumes.map(volume => ({
+    ...volume,
+    id: newId(volume.id),
+    chapters: volume.chapters.map(chapter => ({
+      ...chapter,
+      id: newId(chapter.id),
+      collaborationId: generateCollaborationId()
+    }))
+  }));
+
+  const volumes = copyVolumes(novel.volumes);
+  return {
+    novel: {
+      ...novel,
+      id,
+      title: `${novel.title}（副本）`,
+      volumes,
+      currentChapterId: novel.currentChapterId ? ids.get(novel.currentChapterId) : undefined,
+      etherpadId: undefined,
+      collaborationActive: false
+    },
+    snapshots: snapshots.map(snapshot => ({
+      ...snapshot,
+      id: uuidv4(),
+      novelId: id,
+      volumes: copyVolumes(snapshot.volumes)
+    }))
+  };
+}
+
+export interface MergedWorkspace {
+  novels: Novel[];
+  characters: Character[];
+  friends: Friend[];
+  novelSettings: NovelSettings[];
+  snapshots: NovelSnapshot[]; // 需要写入数据库的历史版本
+}
+
+// 把备份合并到本地工作区，没有冲突的小说直接加入，冲突的小说按 resolutions 处理（默认保留本地）
+// 角色和小说设置跟随所属小说，好友按ID合并
+export function mergeBackup(
+  local: Omit<MergedWorkspace, 'snapshots'>,
+  backup: WorkspaceBackup,
+  resolutions: Record<string, ConflictResolution>
+): MergedWorkspace {
+  const localIds = new Set(local.novels.map(novel => novel.id));
+  let novels = [...local.novels];
+  let characters = [...local.characters];
+  let novelSettings = [...local.novelSettings];
+  const snapshots: NovelSnapshot[] = [];
+
+  backup.novels.forEach(novel => {
+    const resolution = localIds.has(novel.id) ? resolutions[novel.id] || 'keep' : 'overwrite';
+    if (resolution === 'keep') return;
+
+    const novelSnapshots = backup.snapshots.filter(snapshot => snapshot.novelId === novel.id);
+    const novelCharacters = backup.characters.filter(character => character.novelId === novel.id);
+    const settings = backup.novelSettings.find(item => item.id === novel.id);
+
+    if (resolution === 'copy') {
+      const copy = copyNovel(novel, novelSnapshots);
+      novels.push(copy.novel);
+      characters.push(...novelCharacters.map(character => ({ ...character, id: uuidv4(), novelId: copy.novel.id })));
+      if (settings) novelSettings.push({ ...settings, id: copy.novel.id });
+      snapshots.push(...copy.snapshots);
+      return;
+    }
+
+    // 使用备份：替换同ID的小说，它的角色和设置也换成备份中的
+    novels = localIds.has(novel.id)
+      ? novels.map(item => item.id === novel.id ? novel : item)
+      : [...novels, novel];
+    characters = [...characters.filter(character => character.novelId !== novel.id), ...novelCharacters];
+    novelSettings = [...novelSettings.filter(item => item.id !== novel.id), ...(settings ? [settings] : [])];
+    snapshots.push(...novelSnapshots);
+  });
+
+  const friendIds = new Set(local.friends.map(friend => friend.id));
+  return {
+    novels,
+    characters,
+    friends: [...local.friends, ...backup.friends.filter(friend => !friendIds.has(friend.id))],
+    novelSettings,
+    snapshots
+  };
+}
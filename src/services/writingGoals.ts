@@ -0,0 +1,39 @@
+// 每日写作目标：按本地日期记录每部小说当天新增的字数
+// days 的键是 YYYY-MM-DD，值是小说ID到字数的映射，删除文字会减少当天的字数
+
+export type DailyWordCounts = Record<string, Record<string, number>>;
+
+export function dateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 往前或往后数若干天，按本地日期计算，不受夏令时影响
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// 某一天的字数，不指定小说时为所有小说之和，删除多于新增时按0计算
+export function getDayWords(days: DailyWordCounts, key: string, novelId?: string): number {
+  const record = days[key];
+  if (!record) return 0;
+  const total = novelId ? record[novelId] || 0 : Object.values(record).reduce((sum, count) => sum + count, 0);
+  return Math.max(0, total);
+}
+
+// 连续完成目标的天数，今天还没完成时从昨天开始算；没有设置目标时有写作就算完成
+export function getStreak(days: DailyWordCounts, goal: number, today: Date = new Date()): number {
+  const reached = (date: Date) => {
+    const words = getDayWords(days, dateKey(date));
+    return goal > 0 ? words >= goal : words > 0;
+  };
+
+  let date = reached(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (reached(date)) {
+    streak++;
+    date = addDays(date, -1);
+  }
+  return streak;
+}
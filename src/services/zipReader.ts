@@ -0,0 +1,72 @@
+// 读取ZIP文件，用于导入DOCX和EPUB
+// 只支持不压缩（stored）和deflate两种方式，压缩的数据交给浏览器的 DecompressionStream 解压
+
+const decoder = new TextDecoder();
+
+export class ZipArchive {
+  private entries = new Map<string, { method: number; offset: number; compressedSize: number }>();
+
+  constructor(private data: Uint8Array) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    // 从末尾向前查找中央目录结束记录，记录后面可能有最长65535字节的注释
+    let end = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 65535); i--) {
+      if (view.getUint32(i, true) === 0x06054b50) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('不是有效的ZIP文件');
+    }
+
+    const count = view.getUint16(end + 10, true);
+    let position = view.getUint32(end + 16, true);
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(position, true) !== 0x02014b50) {
+        throw new Error('ZIP文件目录已损坏');
+      }
+      const method = view.getUint16(position + 10, true);
+      const compressedSize = view.getUint32(position + 20, true);
+      const nameLength = view.getUint16(position + 28, true);
+      const extraLength = view.getUint16(position + 30, true);
+      const commentLength = view.getUint16(position + 32, true);
+      const offset = view.getUint32(position + 42, true);
+      const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+
+      this.entries.set(name, { method, offset, compressedSize });
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  has(path: string): boolean {
+    return this.entries.has(path);
+  }
+
+  async readBytes(path: string): Promise<Uint8Array | null> {
+    const entry = this.entries.get(path);
+    if (!entry) return null;
+
+    // 本地文件头的扩展字段长度可能和中央目录里的不同，需要重新读取
+    const view = new DataView(this.data.buffer, this.data.byteOffset, this.data.byteLength);
+    const nameLength = view.getUint16(entry.offset + 26, true);
+    const extraLength = view.getUint16(entry.offset + 28, true);
+    const start = entry.offset + 30 + nameLength + extraLength;
+    const compressed = this.data.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) {
+      return compressed;
+    }
+    if (entry.method === 8) {
+      const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    throw new Error(`不支持的ZIP压缩方式: ${entry.method}`);
+  }
+
+  async readText(path: string): Promise<string | null> {
+    const bytes = await this.readBytes(path);
+    return bytes ? decoder.decode(bytes) : null;
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { applyOperations } from '../services/collaborationService';
+import { CrdtDocument, CrdtOperation, MAX_DELETE_IDS, stateToOperations } from './crdtDocument';
+
+// 把远端操作应用到副本上，并检查返回的位置变化能把编辑器里的旧文本改成新文本
+function receive(doc: CrdtDocument, operations: CrdtOperation[]): void {
+  const before = doc.getText();
+  const changes = doc.applyRemote(operations);
+  expect(applyOperations(before, changes)).toBe(doc.getText());
+}
+
+// 固定种子的伪随机数，失败时可以复现
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+describe('CrdtDocument', () => {
+  it('同一位置的并发插入在各副本上顺序一致', () => {
+    const alice = CrdtDocument.fromText('alice', '开头结尾');
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    const fromAlice = alice.insert(2, '甲');
+    const fromBob = bob.insert(2, '乙');
+    receive(alice, fromBob);
+    receive(bob, fromAlice);
+
+    expect(alice.getText()).toBe(bob.getText());
+    expect(alice.getText()).toMatch(/^开头(甲乙|乙甲)结尾$/);
+  });
+
+  it('并发删除同一段文字只删除一次', () => {
+    const alice = CrdtDocument.fromText('alice', 'abcdef');
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    const fromAlice = alice.delete(1, 3);
+    const fromBob = bob.delete(2, 3);
+    receive(alice, fromBob);
+    receive(bob, fromAlice);
+
+    expect(alice.getText()).toBe('af');
+    expect(bob.getText()).toBe('af');
+  });
+
+  it('插入点所在的文字被并发删除后，插入的文字仍然保留', () => {
+    const alice = CrdtDocument.fromText('alice', '今天天气很好');
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    const fromAlice = alice.delete(2, 2);
+    const fromBob = bob.insert(3, '的');
+    receive(alice, fromBob);
+    receive(bob, fromAlice);
+
+    expect(alice.getText()).toBe('今天的很好');
+    expect(bob.getText()).toBe('今天的很好');
+  });
+
+  it('依赖未到达的操作暂存，重复的操作被忽略', () => {
+    const alice = CrdtDocument.fromText('alice', 'ab');
+    const bob = new CrdtDocument('bob');
+
+    const inserted = alice.insert(2, 'cd');
+    const deleted = alice.delete(0, 3);
+    receive(bob, deleted);
+    expect(bob.getPendingCount()).toBe(1);
+
+    receive(bob, [...inserted, ...stateToOperations(alice.getState())]);
+    receive(bob, inserted);
+    expect(bob.getPendingCount()).toBe(0);
+    expect(bob.getText()).toBe('d');
+  });
+
+  it('合并离线期间各自编辑的完整状态', () => {
+    const alice = CrdtDocument.fromText('alice', '第一章');
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    alice.insert(3, '：出发');
+    alice.delete(0, 1);
+    bob.insert(0, '【草稿】');
+    bob.delete(bob.getText().length - 1, 1);
+
+    const aliceState = alice.getState();
+    receive(alice, stateToOperations(bob.getState()));
+    receive(bob, stateToOperations(aliceState));
+
+    expect(alice.getText()).toBe(bob.getText());
+    expect(alice.getText()).toBe('【草稿】一：出发');
+  });
+
+  it('多个副本随机并发编辑、乱序收到操作后内容一致', () => {
+    const next = random(42);
+    const initial = CrdtDocument.fromText('origin', '这是一段用来测试并发编辑的文字，'.repeat(40));
+    const sites = ['alice', 'bob', 'carol'].map(site => new CrdtDocument(site, initial.getState()));
+    const sent: CrdtOperation[][] = sites.map(() => []);
+
+    for (let round = 0; round < 200; round++) {
+      const index = Math.floor(next() * sites.length);
+      const doc = sites[index];
+      const length = doc.getText().length;
+      const position = Math.floor(next() * (length + 1));
+      const operations = next() < 0.6
+        ? doc.insert(position, `${doc.getSite()}${round}`)
+        : doc.delete(position, 1 + Math.floor(next() * 20));
+      sent[index].push(...operations);
+    }
+
+    // 每个副本按不同顺序收到其他副本的操作
+    sites.forEach((doc, index) => {
+      const incoming = sent.filter((_, from) => from !== index).flat();
+      if (index % 2 === 1) incoming.reverse();
+      receive(doc, incoming);
+      expect(doc.getPendingCount()).toBe(0);
+    });
+
+    const text = sites[0].getText();
+    sites.forEach(doc => expect(doc.getText()).toBe(text));
+    expect(new CrdtDocument('copy', sites[0].getState()).getText()).toBe(text);
+  });
+
+  it('删除长文档中的大段文字时逐段报告位置', () => {
+    const text = '一二三四五六七八九十'.repeat(500);
+    const alice = CrdtDocument.fromText('alice', text);
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    bob.insert(2500, '插入');
+    const deleted = alice.delete(1000, 3000);
+    receive(bob, deleted);
+
+    expect(bob.getText()).toBe(text.slice(0, 1000) + '插入' + text.slice(4000));
+  });
+
+  it('超过上限的删除拆成多个操作', () => {
+    const alice = CrdtDocument.fromText('alice', 'a'.repeat(MAX_DELETE_IDS + 10));
+    const bob = new CrdtDocument('bob', alice.getState());
+
+    const deleted = alice.delete(5, MAX_DELETE_IDS + 1);
+    expect(deleted).toHaveLength(2);
+    receive(bob, deleted);
+    expect(bob.getText()).toBe('a'.repeat(9));
+  });
+});
@@ -0,0 +1,434 @@
+import type { TextOperation } from './operationTransform';
+
+// 序列CRDT文本文档，前端和协作服务器共用同一份实现
+
+// 协作会话的文档模型：ot 为服务端定序的操作转换，crdt 为可离线合并的序列CRDT
+export type DocumentMode = 'ot' | 'crdt';
+
+// 字符标识，由站点ID和该站点的Lamport时钟组成，全局唯一
+export interface CharId {
+  site: string;
+  clock: number;
+}
+
+// 文档中的单个字符，删除后保留为墓碑，供并发操作定位
+interface CrdtChar {
+  id: CharId;
+  origin: CharId | null; // 插入时左侧字符的标识，null表示文档开头
+  value: string;
+  deleted: boolean;
+  block: CrdtBlock; // 字符当前所在的块
+}
+
+// 文档按顺序分成若干块，每块记录未删除的字符数
+// 按可见位置定位时整块跳过，定位一个字符只需扫描块列表和所在的一块，不必遍历整篇文档
+interface CrdtBlock {
+  chars: CrdtChar[];
+  visible: number;
+}
+
+// 块中的插入点，offset 可以等于块的长度，表示该块末尾
+interface BlockPosition {
+  block: number;
+  offset: number;
+}
+
+// 一个删除操作最多包含的字符数，协作服务器据此校验消息，大段删除拆成多个操作发送
+export const MAX_DELETE_IDS = 10000;
+
+const BLOCK_SIZE = 256; // 块的长度超过两倍时按此长度拆分
+
+// 插入一段连续文本，第i个字符的标识为 { site, clock: clock + i }，左侧为前一个字符
+export interface CrdtInsertOperation {
+  type: 'insert';
+  id: CharId;
+  origin: CharId | null;
+  text: string;
+}
+
+// 删除若干字符
+export interface CrdtDeleteOperation {
+  type: 'delete';
+  ids: CharId[];
+}
+
+export type CrdtOperation = CrdtInsertOperation | CrdtDeleteOperation;
+
+// 文档中同一站点连续插入、删除状态相同的一段字符
+export interface CrdtRun {
+  id: CharId; // 首字符标识，之后的字符时钟依次加一
+  origin: CharId | null; // 首字符的左侧字符
+  text: string;
+  deleted: boolean;
+}
+
+// 可序列化的文档状态，按文档顺序保存所有字符段（包括墓碑），用于同步和持久化
+export interface CrdtDocumentState {
+  runs: CrdtRun[];
+  clock: number;
+}
+
+const charKey = (id: CharId): string => `${id.clock}@${id.site}`;
+
+// 同一位置的并发插入按标识排序：时钟大的在前，时钟相同按站点ID
+function compareIds(a: CharId, b: CharId): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+}
+
+// 把文档状态拆成插入和删除操作，用于合并另一个副本
+export function stateToOperations(state: CrdtDocumentState): CrdtOperation[] {
+  const operations: CrdtOperation[] = [];
+  const deleted: CharId[] = [];
+
+  for (const run of state.runs) {
+    operations.push({ type: 'insert', id: run.id, origin: run.origin, text: run.text });
+    if (run.deleted) {
+      for (let i = 0; i < run.text.length; i++) {
+        deleted.push({ site: run.id.site, clock: run.id.clock + i });
+      }
+    }
+  }
+
+  if (deleted.length > 0) {
+    operations.push({ type: 'delete', ids: deleted });
+  }
+  return operations;
+}
+
+// 基于RGA的序列CRDT文本文档
+// 每个字符带有唯一标识和插入时的左侧字符，任意顺序收到相同的操作集合后，各副本内容一致
+export class CrdtDocument {
+  private site: string;
+  private clock = 0;
+  private blocks: CrdtBlock[] = [];
+  private index = new Map<string, CrdtChar>();
+  private pending: CrdtOperation[] = []; // 依赖的字符尚未到达的操作
+
+  constructor(site: string, state?: CrdtDocumentState) {
+    this.site = site;
+    if (state) {
+      // 状态已经按文档顺序排列，直接展开为字符
+      const chars: CrdtChar[] = [];
+      for (const run of state.runs) {
+        let origin = run.origin;
+        for (let i = 0; i < run.text.length; i++) {
+          const id = { site: run.id.site, clock: run.id.clock + i };
+          const char = { id, origin, value: run.text[i], deleted: run.deleted } as CrdtChar;
+          chars.push(char);
+          this.index.set(charKey(id), char);
+          origin = id;
+        }
+      }
+      this.insertChars({ block: 0, offset: 0 }, chars);
+      this.clock = state.clock;
+    }
+  }
+
+  // 用已有文本创建文档，整段文本作为本站点的一次插入
+  static fromText(site: string, text: string): CrdtDocument {
+    const doc = new CrdtDocument(site);
+    doc.insert(0, text);
+    return doc;
+  }
+
+  getSite(): string {
+    return this.site;
+  }
+
+  getText(): string {
+    let text = '';
+    for (const block of this.blocks) {
+      for (const char of block.chars) {
+        if (!char.deleted) text += char.value;
+      }
+    }
+    return text;
+  }
+
+  // 导出文档状态，相邻且可以接续的字符合并为一段
+  getState(): CrdtDocumentState {
+    const runs: CrdtRun[] = [];
+    let run: CrdtRun | null = null;
+
+    for (const block of this.blocks) {
+      for (const char of block.chars) {
+        const continues = run !== null &&
+          char.deleted === run.deleted &&
+          char.id.site === run.id.site &&
+          char.id.clock === run.id.clock + run.text.length &&
+          !!char.origin &&
+          char.origin.site === run.id.site &&
+          char.origin.clock === char.id.clock - 1;
+
+        if (continues) {
+          run!.text += char.value;
+        } else {
+          run = { id: char.id, origin: char.origin, text: char.value, deleted: char.deleted };
+          runs.push(run);
+        }
+      }
+    }
+
+    return { runs, clock: this.clock };
+  }
+
+  // 等待依赖的操作数量
+  getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  // 在可见位置插入文本，返回需要广播的操作
+  insert(position: number, text: string): CrdtOperation[] {
+    if (!text) return [];
+
+    const operation: CrdtInsertOperation = {
+      type: 'insert',
+      id: { site: this.site, clock: this.clock + 1 },
+      origin: this.originAt(position),
+      text
+    };
+    this.integrateInsert(operation);
+    return [operation];
+  }
+
+  // 删除可见位置开始的若干字符，返回需要广播的操作
+  delete(position: number, length: number): CrdtOperation[] {
+    const ids: CharId[] = [];
+    let visible = 0;
+
+    for (const block of this.blocks) {
+      if (visible >= position + length) break;
+      // 整块都在删除范围之前
+      if (visible + block.visible <= position) {
+        visible += block.visible;
+        continue;
+      }
+
+      for (const char of block.chars) {
+        if (char.deleted) continue;
+        if (visible >= position + length) break;
+        if (visible >= position) {
+          char.deleted = true;
+          block.visible--;
+          ids.push(char.id);
+        }
+        visible++;
+      }
+    }
+
+    const operations: CrdtOperation[] = [];
+    for (let start = 0; start < ids.length; start += MAX_DELETE_IDS) {
+      operations.push({ type: 'delete', ids: ids.slice(start, start + MAX_DELETE_IDS) });
+    }
+    return operations;
+  }
+
+  // 把基于位置的本地编辑转换为CRDT操作
+  applyLocal(operations: TextOperation[]): CrdtOperation[] {
+    const result: CrdtOperation[] = [];
+
+    for (const operation of operations) {
+      if (operation.type === 'insert' && operation.text && operation.position !== undefined) {
+        result.push(...this.insert(operation.position, operation.text));
+      } else if (operation.type === 'delete' && operation.length && operation.position !== undefined) {
+        result.push(...this.delete(operation.position, operation.length));
+      } else if (operation.type === 'sync' && operation.content !== undefined) {
+        result.push(...this.delete(0, this.getText().length));
+        result.push(...this.insert(0, operation.content));
+      }
+    }
+
+    return result;
+  }
+
+  // 应用其他副本的操作，返回本地可见文本的变化，用于更新编辑器
+  // 重复收到的操作会被忽略，依赖未到达的操作暂存到依赖到达后再应用
+  applyRemote(operations: CrdtOperation[]): TextOperation[] {
+    const changes: TextOperation[] = [];
+    let queue = [...this.pending, ...operations];
+    this.pending = [];
+
+    // 每轮至少应用一个操作才继续，剩下的留到之后
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const waiting: CrdtOperation[] = [];
+
+      for (const operation of queue) {
+        if (!this.isReady(operation)) {
+          waiting.push(operation);
+          continue;
+        }
+        progressed = true;
+        changes.push(...(operation.type === 'insert'
+          ? this.integrateInsert(operation)
+          : this.integrateDelete(operation)));
+      }
+
+      queue = waiting;
+    }
+
+    this.pending = queue;
+    return changes;
+  }
+
+  // 合并另一个副本的完整状态
+  merge(state: CrdtDocumentState): TextOperation[] {
+    return this.applyRemote(stateToOperations(state));
+  }
+
+  // 操作依赖的字符是否都已存在
+  private isReady(operation: CrdtOperation): boolean {
+    if (operation.type === 'insert') {
+      return !operation.origin || this.index.has(charKey(operation.origin));
+    }
+    return operation.ids.every(id => this.index.has(charKey(id)));
+  }
+
+  private integrateInsert(operation: CrdtInsertOperation): TextOperation[] {
+    // 合并状态时的字符段可能包含已有的字符，后面的字符以前面的为左侧，已有的部分一定是开头一段
+    let skipped = 0;
+    while (skipped < operation.text.length &&
+           this.index.has(charKey({ site: operation.id.site, clock: operation.id.clock + skipped }))) {
+      skipped++;
+    }
+    if (skipped === operation.text.length) return [];
+    if (skipped > 0) {
+      operation = {
+        type: 'insert',
+        id: { site: operation.id.site, clock: operation.id.clock + skipped },
+        origin: { site: operation.id.site, clock: operation.id.clock + skipped - 1 },
+        text: operation.text.slice(skipped)
+      };
+    }
+
+    let at: BlockPosition = { block: 0, offset: 0 };
+    if (operation.origin) {
+      const origin = this.locate(this.index.get(charKey(operation.origin))!);
+      at = { block: origin.block, offset: origin.offset + 1 };
+    }
+
+    // 跳过同一左侧字符后标识更大的并发插入（及其后续插入）
+    while (at.block < this.blocks.length) {
+      const chars = this.blocks[at.block].chars;
+      if (at.offset < chars.length) {
+        if (compareIds(chars[at.offset].id, operation.id) <= 0) break;
+        at.offset++;
+      } else if (at.block + 1 < this.blocks.length) {
+        at = { block: at.block + 1, offset: 0 };
+      } else {
+        break;
+      }
+    }
+
+    const inserted: CrdtChar[] = [];
+    let origin = operation.origin;
+    for (let i = 0; i < operation.text.length; i++) {
+      const id = { site: operation.id.site, clock: operation.id.clock + i };
+      const char = { id, origin, value: operation.text[i], deleted: false } as CrdtChar;
+      inserted.push(char);
+      this.index.set(charKey(id), char);
+      origin = id;
+    }
+    const position = this.visibleBefore(at);
+    this.insertChars(at, inserted);
+    this.clock = Math.max(this.clock, operation.id.clock + operation.text.length - 1);
+
+    return [{
+      type: 'insert',
+      userId: operation.id.site,
+      position,
+      text: operation.text
+    }];
+  }
+
+  private integrateDelete(operation: CrdtDeleteOperation): TextOperation[] {
+    const changes: TextOperation[] = [];
+
+    for (const id of operation.ids) {
+      const char = this.index.get(charKey(id))!;
+      if (char.deleted) continue;
+
+      const position = this.visibleBefore(this.locate(char));
+      char.deleted = true;
+      char.block.visible--;
+
+      // 相邻字符的删除合并为一个操作
+      const last = changes[changes.length - 1];
+      if (last && last.position === position) {
+        last.length! += 1;
+      } else {
+        changes.push({ type: 'delete', userId: this.site, position, length: 1 });
+      }
+    }
+
+    return changes;
+  }
+
+  // 插入位置左侧的字符：第 position 个可见字符，超出文档长度时为最后一个字符（可能是墓碑）
+  private originAt(position: number): CharId | null {
+    if (position <= 0) return null;
+
+    let remaining = position;
+    for (const block of this.blocks) {
+      if (remaining > block.visible) {
+        remaining -= block.visible;
+        continue;
+      }
+      for (const char of block.chars) {
+        if (!char.deleted && --remaining === 0) return char.id;
+      }
+    }
+
+    const last = this.blocks[this.blocks.length - 1];
+    return last ? last.chars[last.chars.length - 1].id : null;
+  }
+
+  // 字符所在的块和块内下标
+  private locate(char: CrdtChar): BlockPosition {
+    return { block: this.blocks.indexOf(char.block), offset: char.block.chars.indexOf(char) };
+  }
+
+  // 插入点之前的可见字符数
+  private visibleBefore(at: BlockPosition): number {
+    let visible = 0;
+    for (let i = 0; i < at.block; i++) {
+      visible += this.blocks[i].visible;
+    }
+    const chars = this.blocks[at.block]?.chars ?? [];
+    for (let i = 0; i < at.offset; i++) {
+      if (!chars[i].deleted) visible++;
+    }
+    return visible;
+  }
+
+  // 在插入点放入一组字符，块过长时拆分
+  private insertChars(at: BlockPosition, chars: CrdtChar[]): void {
+    if (chars.length === 0) return;
+    if (this.blocks.length === 0) {
+      this.blocks.push({ chars: [], visible: 0 });
+    }
+
+    const block = this.blocks[at.block];
+    // 整篇导入时字符很多，不用展开参数的 splice
+    block.chars = block.chars.slice(0, at.offset).concat(chars, block.chars.slice(at.offset));
+    for (const char of chars) {
+      char.block = block;
+      if (!char.deleted) block.visible++;
+    }
+
+    if (block.chars.length > BLOCK_SIZE * 2) {
+      const pieces: CrdtBlock[] = [];
+      for (let start = 0; start < block.chars.length; start += BLOCK_SIZE) {
+        const piece: CrdtBlock = { chars: block.chars.slice(start, start + BLOCK_SIZE), visible: 0 };
+        for (const char of piece.chars) {
+          char.block = piece;
+          if (!char.deleted) piece.visible++;
+        }
+        pieces.push(piece);
+      }
+      this.blocks.splice(at.block, 1, ...pieces);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { TextOperation, transformOperations, transformPair } from './operationTransform';
+import { applyOperations } from '../services/collaborationService';
+
+const insert = (userId: string, position: number, text: string): TextOperation => ({ type: 'insert', userId, position, text });
+const remove = (userId: string, position: number, length: number): TextOperation => ({ type: 'delete', userId, position, length });
+
+// 两组并发操作按不同顺序应用后内容相同
+function expectConvergence(base: string, a: TextOperation[], b: TextOperation[]): string {
+  const [aPrime, bPrime] = transformOperations(a, b);
+  const left = applyOperations(applyOperations(base, a), bPrime);
+  const right = applyOperations(applyOperations(base, b), aPrime);
+  expect(left).toBe(right);
+  return left;
+}
+
+describe('transformPair', () => {
+  it('同一位置的插入按用户ID决定先后', () => {
+    const a = insert('alice', 2, 'A');
+    const b = insert('bob', 2, 'B');
+
+    expect(transformPair(a, b)).toEqual([a]);
+    expect(transformPair(b, a)).toEqual([{ ...b, position: 3 }]);
+    expect(expectConvergence('0123', [a], [b])).toBe('01AB23');
+    expect(expectConvergence('0123', [b], [a])).toBe('01AB23');
+  });
+
+  it('用户ID按码元比较，不受语言设置影响', () => {
+    // localeCompare 会把小写的 a 排在 B 前面
+    const a = insert('alice', 0, 'a');
+    const b = insert('Bob', 0, 'B');
+    expect(expectConvergence('', [a], [b])).toBe('Ba');
+  });
+
+  it('同一用户在同一位置的两个插入按文字决定先后', () => {
+    const a = insert('alice', 1, 'X');
+    const b = insert('alice', 1, 'Y');
+
+    expect(transformPair(a, b)).toEqual([a]);
+    expect(transformPair(b, a)).toEqual([{ ...b, position: 2 }]);
+    expect(expectConvergence('01', [a], [b])).toBe('0XY1');
+    expect(expectConvergence('01', [a], [{ ...a }])).toBe('0XX1');
+  });
+
+  it('转发的操作按 fromUserId 比较', () => {
+    const a = { ...insert('server', 1, 'A'), fromUserId: 'zed' };
+    const b = insert('bob', 1, 'B');
+    expect(expectConvergence('xy', [a], [b])).toBe('xBAy');
+  });
+
+  it('删除区间部分重叠时只删除剩下的部分', () => {
+    const a = remove('alice', 1, 4); // 删除 "1234"
+    const b = remove('bob', 3, 4); // 删除 "3456"
+
+    expect(transformPair(a, b)).toEqual([{ ...a, position: 1, length: 2 }]);
+    expect(transformPair(b, a)).toEqual([{ ...b, position: 1, length: 2 }]);
+    expect(expectConvergence('0123456789', [a], [b])).toBe('0789');
+  });
+
+  it('删除区间被完全覆盖时不再删除', () => {
+    const a = remove('alice', 3, 2);
+    const b = remove('bob', 1, 6);
+
+    expect(transformPair(a, b)).toEqual([]);
+    expect(transformPair(b, a)).toEqual([{ ...b, position: 1, length: 4 }]);
+    expect(expectConvergence('0123456789', [a], [b])).toBe('0789');
+  });
+
+  it('相同的删除只执行一次', () => {
+    const a = remove('alice', 2, 3);
+    const b = remove('bob', 2, 3);
+    expect(transformPair(a, b)).toEqual([]);
+    expect(expectConvergence('0123456', [a], [b])).toBe('0156');
+  });
+
+  it('删除区间被并发插入拆成两段，插入的文字保留', () => {
+    const a = remove('alice', 1, 5); // 删除 "12345"
+    const b = insert('bob', 3, 'XY');
+
+    expect(transformPair(a, b)).toEqual([
+      { ...a, position: 1, length: 2 },
+      { ...a, position: 3, length: 3 }
+    ]);
+    expect(transformPair(b, a)).toEqual([{ ...b, position: 1 }]);
+    expect(expectConvergence('0123456', [a], [b])).toBe('0XY6');
+  });
+
+  it('插入点在删除区间的边界上', () => {
+    expect(expectConvergence('0123456', [remove('alice', 2, 3)], [insert('bob', 2, 'X')])).toBe('01X56');
+    expect(expectConvergence('0123456', [remove('alice', 2, 3)], [insert('bob', 5, 'X')])).toBe('01X56');
+  });
+
+  it('全量同步之后的增量操作被丢弃', () => {
+    const sync: TextOperation = { type: 'sync', userId: 'server', content: 'new' };
+    expect(transformPair(insert('alice', 0, 'A'), sync)).toEqual([]);
+    expect(transformPair(sync, insert('alice', 0, 'A'))).toEqual([sync]);
+  });
+});
+
+describe('transformOperations', () => {
+  it('多个操作组成的批次互相转换后收敛', () => {
+    const base = '今天天气很好，我们去公园。';
+    const a = [remove('alice', 2, 2), insert('alice', 2, '阳光'), insert('alice', 9, '一起')];
+    const b = [insert('bob', 0, '周日'), remove('bob', 3, 4), insert('bob', 5, '明天')];
+    expectConvergence(base, a, b);
+  });
+
+  it('一方为空时原样返回', () => {
+    const a = [insert('alice', 0, 'A')];
+    expect(transformOperations(a, [])).toEqual([a, []]);
+    expect(transformOperations([], a)).toEqual([[], a]);
+  });
+
+  it('随机生成的并发批次都能收敛', () => {
+    // 固定种子的伪随机数，失败时可以复现
+    let seed = 20240601;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+    const randomBatch = (userId: string, base: string): TextOperation[] => {
+      let text = base;
+      return Array.from({ length: 1 + random(3) }, () => {
+        const op = text.length > 0 && random(2) === 0
+          ? remove(userId, random(text.length), 1 + random(3))
+          : insert(userId, random(text.length + 1), 'xyz'.slice(0, 1 + random(3)));
+        if (op.type === 'delete') op.length = Math.min(op.length!, text.length - op.position!);
+        text = applyOperations(text, [op]);
+        return op;
+      });
+    };
+
+    for (let i = 0; i < 500; i++) {
+      const base = 'abcdefghij'.slice(0, random(11));
+      expectConvergence(base, randomBatch('alice', base), randomBatch('bob', base));
+    }
+  });
+});
@@ -0,0 +1,129 @@
+// 文本操作和操作转换，前端和协作服务器共用同一份实现，保证各端转换结果一致
+
+// 文本操作类型定义
+export interface TextOperation {
+  type: 'insert' | 'delete' | 'sync' | 'retry';
+  userId: string;
+  position?: number;
+  text?: string;
+  length?: number;
+  content?: string;
+  timestamp?: number;
+  fromUserId?: string; // 标识操作来源的用户ID
+}
+
+// 判断操作是否为空操作（插入空文本或删除零长度）
+const isNoop = (operation: TextOperation): boolean => {
+  if (operation.type === 'insert') return !operation.text;
+  if (operation.type === 'delete') return !operation.length;
+  return false;
+};
+
+// 同一位置的两个插入操作，按用户ID决定先后，保证各端结果一致
+// 按UTF-16码元比较，不能用 localeCompare，它的结果取决于运行环境的语言设置
+// 同一用户的两个插入再按文字比较，文字也相同时先后不影响结果
+const insertGoesFirst = (op: TextOperation, other: TextOperation): boolean => {
+  const opUser = op.fromUserId || op.userId;
+  const otherUser = other.fromUserId || other.userId;
+  if (opUser !== otherUser) return opUser < otherUser;
+  return (op.text || '') < (other.text || '');
+};
+
+// 将单个操作转换到另一个已应用操作之后
+// 返回值是数组：删除区间被对方的插入拆开时会变成两个删除操作
+export const transformPair = (op: TextOperation, against: TextOperation): TextOperation[] => {
+  // 全量同步会覆盖内容，之前的增量操作失去意义
+  if (against.type === 'sync') {
+    return op.type === 'sync' ? [op] : [];
+  }
+  if (op.type === 'sync' || op.type === 'retry' || against.type === 'retry') {
+    return [op];
+  }
+  if (isNoop(op)) return [];
+  if (isNoop(against)) return [op];
+
+  const pos = op.position ?? 0;
+  const otherPos = against.position ?? 0;
+
+  if (op.type === 'insert' && against.type === 'insert') {
+    const otherLength = (against.text || '').length;
+    if (otherPos < pos || (otherPos === pos && !insertGoesFirst(op, against))) {
+      return [{ ...op, position: pos + otherLength }];
+    }
+    return [op];
+  }
+
+  if (op.type === 'insert' && against.type === 'delete') {
+    const otherLength = against.length || 0;
+    if (pos <= otherPos) {
+      return [op];
+    }
+    if (pos >= otherPos + otherLength) {
+      return [{ ...op, position: pos - otherLength }];
+    }
+    // 插入点落在被删除区间内，插入内容保留在删除起点
+    return [{ ...op, position: otherPos }];
+  }
+
+  if (op.type === 'delete' && against.type === 'insert') {
+    const length = op.length || 0;
+    const otherLength = (against.text || '').length;
+    if (otherPos <= pos) {
+      return [{ ...op, position: pos + otherLength }];
+    }
+    if (otherPos >= pos + length) {
+      return [op];
+    }
+    // 删除区间跨越了对方的插入点，拆成两段删除，避开对方新插入的文本
+    const before = otherPos - pos;
+    return [
+      { ...op, position: pos, length: before },
+      { ...op, position: pos + otherLength, length: length - before }
+    ];
+  }
+
+  // 两个删除操作：去掉重叠部分
+  const length = op.length || 0;
+  const otherLength = against.length || 0;
+  const end = pos + length;
+  const otherEnd = otherPos + otherLength;
+
+  if (end <= otherPos) {
+    return [op];
+  }
+  if (pos >= otherEnd) {
+    return [{ ...op, position: pos - otherLength }];
+  }
+
+  const overlap = Math.min(end, otherEnd) - Math.max(pos, otherPos);
+  const remaining = length - overlap;
+  if (remaining <= 0) {
+    return [];
+  }
+  return [{ ...op, position: Math.min(pos, otherPos), length: remaining }];
+};
+
+// 同时转换两组并发操作
+// 返回 [a', b']，满足 apply(apply(s, a), b') === apply(apply(s, b), a')
+export const transformOperations = (
+  a: TextOperation[],
+  b: TextOperation[]
+): [TextOperation[], TextOperation[]] => {
+  if (a.length === 0 || b.length === 0) {
+    return [a, b];
+  }
+
+  if (a.length === 1 && b.length === 1) {
+    return [transformPair(a[0], b[0]), transformPair(b[0], a[0])];
+  }
+
+  if (a.length > 1) {
+    const [headPrime, bPrime] = transformOperations([a[0]], b);
+    const [restPrime, bDoublePrime] = transformOperations(a.slice(1), bPrime);
+    return [[...headPrime, ...restPrime], bDoublePrime];
+  }
+
+  const [aPrime, headPrime] = transformOperations(a, [b[0]]);
+  const [aDoublePrime, restPrime] = transformOperations(aPrime, b.slice(1));
+  return [aDoublePrime, [...headPrime, ...restPrime]];
+};
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '../services/sessionHost';
+import { createChapter, createVolume } from '../services/novelStructure';
+import type { Workspace } from '../services/novelDatabase';
+import type { Novel } from './novelStore';
+
+// 数据库里已有的两部小说和一个角色，加载在测试里手动完成
+let finishLoading: (workspace: Workspace) => void;
+const saveWorkspaceChanges = vi.fn(async (_previous: Workspace, _next: Workspace) => {});
+
+vi.mock('../services/novelDatabase', () => ({
+  importLegacyWorkspace: vi.fn(async () => true),
+  loadWorkspace: () => new Promise<Workspace>(resolve => { finishLoading = resolve; }),
+  saveWorkspaceChanges
+}));
+
+const storedNovel = (id: string, title: string): Novel => ({
+  id,
+  title,
+  createdAt: new Date(0),
+  lastEdited: new Date(0),
+  volumes: [createVolume('正文', [createChapter('第一章', '旧内容')])]
+});
+
+describe('novelStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('加载完成前的新建、修改和删除在加载的数据上重放', async () => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    const { useNovelStore } = await import('./novelStore');
+    const store = useNovelStore.getState();
+
+    const created = store.addNovel('新小说');
+    store.updateNovel('kept', { title: '改过的标题' });
+    store.deleteNovel('removed');
+    store.addCharacter({ name: '新角色', description: '', novelId: created.id });
+    store.deleteCharacter('old-character');
+    expect(useNovelStore.getState().workspaceLoaded).toBe(false);
+
+    const loaded: Workspace = {
+      novels: [storedNovel('kept', '旧标题'), storedNovel('removed', '要删除的小说')],
+      characters: [{ id: 'old-character', name: '旧角色', description: '', novelId: 'kept' }]
+    };
+    finishLoading(loaded);
+    await vi.waitFor(() => expect(useNovelStore.getState().workspaceLoaded).toBe(true));
+
+    const state = useNovelStore.getState();
+    expect(state.novels.map(novel => novel.title)).toEqual(['改过的标题', '新小说']);
+    expect(state.novels[1].id).toBe(created.id);
+    expect(state.currentNovel?.id).toBe(created.id);
+    expect(state.characters.map(character => character.name)).toEqual(['新角色']);
+
+    // 加载完成前的修改写回数据库
+    expect(saveWorkspaceChanges).toHaveBeenCalledWith(loaded, expect.objectContaining({ novels: state.novels }));
+  });
+});
@@ -1,18 +1,60 @@
-import { create } from 'zustand';
+import { StateCreator, create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_VOLUME_TITLE,
+  countWords,
+  createChapter,
+  createVolume,
+  getChapters,
+  migrateNovel,
+  moveChapter,
+  moveVolume
+} from '../services/novelStructure';
+import {
+  Workspace,
+  importLegacyWorkspace,
+  loadWorkspace,
+  saveWorkspaceChanges
+} from '../services/novelDatabase';
+
+export type ChapterStatus = 'draft' | 'revising' | 'final';
+
+// 章节，每章单独编辑和协作
+export interface Chapter {
+  id: string;
+  title: string;
+  content: string;
+  status: ChapterStatus;
+  wordCount: number;
+  lastEdited: Date;
+  collaborationId: string; // 协作会话ID
+}
+
+// 卷，包含按顺序排列的章节
+export interface Volume {
+  id: string;
+  title: string;
+  chapters: Chapter[];
+}
 
 export interface Novel {
   id: string;
   title: string;
+  author?: string;
+  tags?: string[];
   coverImage?: string;
   createdAt: Date;
   lastEdited: Date;
-  content: string;
+  volumes: Volume[];
+  currentChapterId?: string; // 正在编辑的章节
   etherpadId?: string;
   collaborationActive?: boolean;
 }
 
+// 新建小说时可以直接带上的内容，导入文件时使用
+export type NovelDetails = Partial<Pick<Novel, 'volumes' | 'author' | 'tags' | 'coverImage'>>;
+
 export interface Character {
   id: string;
   name: string;
@@ -33,14 +75,27 @@ interface NovelState {
   characters: Character[];
   friends: Friend[];
   currentNovel: Novel | null;
+  workspaceLoaded: boolean; // 是否已经从IndexedDB加载了小说和角色
   
   // 小说操作
-  addNovel: (title: string, content?: string, etherpadId?: string) => Novel;
+  addNovel: (title: string, content?: string, etherpadId?: string, details?: NovelDetails) => Novel;
   updateNovel: (id: string, updates: Partial<Novel>) => void;
   deleteNovel: (id: string) => void;
   selectNovel: (id: string) => void;
   deselectNovel: () => void;
   setCollaborationActive: (id: string, active: boolean) => void;
+  replaceWorkspace: (workspace: Workspace & { friends: Friend[] }) => void;
+  
+  // 卷和章节操作
+  addVolume: (novelId: string, title: string) => Volume;
+  updateVolume: (novelId: string, volumeId: string, updates: Partial<Omit<Volume, 'id' | 'chapters'>>) => void;
+  deleteVolume: (novelId: string, volumeId: string) => void;
+  addChapter: (novelId: string, volumeId: string, title: string) => Chapter;
+  updateChapter: (novelId: string, chapterId: string, updates: Partial<Omit<Chapter, 'id' | 'wordCount'>>) => void;
+  deleteChapter: (novelId: string, chapterId: string) => void;
+  selectChapter: (novelId: string, chapterId: string) => void;
+  moveChapter: (novelId: string, chapterId: string, targetVolumeId: string, targetIndex: number) => void;
+  moveVolume: (novelId: string, volumeId: string, targetIndex: number) => void;
   
   // 角色操作
   addCharacter: (character: Omit<Character, 'id'>) => void;
@@ -64,39 +119,100 @@ const dateReviver = (key: string, value: any) => {
   return value;
 };
 
-// 初始化空数组，实际使用时会从localStorage加载
-const getInitialNovels = (): Novel[] => {
+const PERSIST_KEY = 'smalltown-writer-storage';
+const LEGACY_NOVELS_KEY = 'novels';
+const LEGACY_PENDING_KEY = 'smalltown-writer-legacy-workspace'; // 等待导入IndexedDB的旧数据
+
+// 读取旧版本保存在localStorage中的小说和角色
+// 必须在创建store之前读取，persist加载时会把存储键改写为只包含好友
+const readLegacyWorkspace = (): Workspace | null => {
   try {
-    const storedNovels = localStorage.getItem('novels');
-    if (storedNovels) {
-      // 转换日期字符串为Date对象
-      const parsedNovels = JSON.parse(storedNovels);
-      return parsedNovels.map((novel: any) => ({
-        ...novel,
-        createdAt: new Date(novel.createdAt),
-        lastEdited: new Date(novel.lastEdited)
-      }));
+    const pending = localStorage.getItem(LEGACY_PENDING_KEY);
+    let legacy: { novels: any[]; characters: Character[] };
+
+    if (pending) {
+      legacy = JSON.parse(pending);
+    } else {
+      // 'novels' 键在每次修改时写入，比persist存储键中的小说更新
+      const storedNovels = localStorage.getItem(LEGACY_NOVELS_KEY);
+      const persisted = JSON.parse(localStorage.getItem(PERSIST_KEY) || 'null')?.state;
+      legacy = {
+        novels: storedNovels ? JSON.parse(storedNovels) : persisted?.novels || [],
+        characters: persisted?.characters || []
+      };
+      if (legacy.novels.length === 0 && legacy.characters.length === 0) return null;
+
+      // 先转存到单独的键，导入失败时下次加载还能重试
+      localStorage.setItem(LEGACY_PENDING_KEY, JSON.stringify(legacy));
+      localStorage.removeItem(LEGACY_NOVELS_KEY);
     }
+
+    // 转换日期字符串为Date对象，旧格式的小说迁移为卷和章节
+    return { novels: legacy.novels.map(migrateNovel), characters: legacy.characters };
   } catch (error) {
-    console.error('加载小说数据出错:', error);
+    console.error('读取旧版本小说数据出错:', error);
+    return null;
   }
-  return [];
 };
 
+const legacyWorkspace = readLegacyWorkspace();
+
+// 更新一部小说的卷和章节，同步更新currentNovel
+const updateNovelIn = (
+  state: NovelState,
+  novelId: string,
+  update: (novel: Novel) => Novel
+): Pick<NovelState, 'novels' | 'currentNovel'> => {
+  const updatedNovels = state.novels.map(novel => novel.id === novelId ? update(novel) : novel);
+  const updatedCurrentNovel = state.currentNovel && state.currentNovel.id === novelId
+    ? updatedNovels.find(novel => novel.id === novelId) || null
+    : state.currentNovel;
+
+  return { novels: updatedNovels, currentNovel: updatedCurrentNovel };
+};
+
+// 修改某一章，其余章节不变
+const mapChapter = (novel: Novel, chapterId: string, update: (chapter: Chapter) => Chapter): Novel => ({
+  ...novel,
+  volumes: novel.volumes.map(volume => ({
+    ...volume,
+    chapters: volume.chapters.map(chapter => chapter.id === chapterId ? update(chapter) : chapter)
+  }))
+});
+
+// 工作区加载完成前的修改，加载完成后按顺序重放到加载的数据上
+type StateChange = Partial<NovelState> | ((state: NovelState) => Partial<NovelState>);
+const pendingChanges: StateChange[] = [];
+
+// 加载完成前store里只有空的工作区，这期间的修改同时记录下来，不会被加载的数据覆盖
+const recordPendingChanges = (
+  creator: StateCreator<NovelState, [['zustand/persist', unknown]]>
+): StateCreator<NovelState, [['zustand/persist', unknown]]> => (set, get, api) => creator((partial, replace) => {
+  if (!get().workspaceLoaded) pendingChanges.push(partial);
+  set(partial, replace);
+}, get, api);
+
 export const useNovelStore = create<NovelState>()(
   persist(
-    (set, get) => ({
-      novels: getInitialNovels(),
+    recordPendingChanges((set, get) => ({
+      novels: [],
       characters: [],
       friends: [],
       currentNovel: null,
+      workspaceLoaded: false,
       
       // 小说操作
-      addNovel: (title, content = '', etherpadId) => {
+      addNovel: (title, content = '', etherpadId, details = {}) => {
+        const { volumes: importedVolumes, ...metadata } = details;
+        const volumes = importedVolumes && importedVolumes.length > 0
+          ? importedVolumes
+          : [createVolume(DEFAULT_VOLUME_TITLE, [createChapter('第一章', content, etherpadId)])];
         const newNovel: Novel = {
           id: uuidv4(),
           title,
-          content,
+          ...metadata,
+          volumes,
+          currentChapterId: getChapters({ volumes })[0]?.id,
           createdAt: new Date(),
           lastEdited: new Date(),
           etherpadId
@@ -104,8 +220,6 @@ export const useNovelStore = create<NovelState>()(
         
         set(state => {
           const updatedNovels = [...state.novels, newNovel];
-          // 保存到localStorage
-          localStorage.setItem('novels', JSON.stringify(updatedNovels));
           return { novels: updatedNovels, currentNovel: newNovel };
         });
         
@@ -123,9 +237,6 @@ export const useNovelStore = create<NovelState>()(
             ? { ...state.currentNovel, ...updates, lastEdited: new Date() }
             : state.currentNovel;
           
-          // 保存到localStorage
-          localStorage.setItem('novels', JSON.stringify(updatedNovels));
-          
           return { 
             novels: updatedNovels,
             currentNovel: updatedCurrentNovel
@@ -136,8 +247,6 @@ export const useNovelStore = create<NovelState>()(
       deleteNovel: (id) => {
         set(state => {
           const updatedNovels = state.novels.filter(novel => novel.id !== id);
-          // 保存到localStorage
-          localStorage.setItem('novels', JSON.stringify(updatedNovels));
           // 如果删除的是当前选中的小说，取消选中
           return { 
             novels: updatedNovels,
@@ -157,6 +266,16 @@ export const useNovelStore = create<NovelState>()(
         set({ currentNovel: null });
       },
       
+      // 用备份中的数据替换整个工作区，当前打开的小说不在备份中时关闭
+      replaceWorkspace: ({ novels, characters, friends }) => {
+        set(state => ({
+          novels,
+          characters,
+          friends,
+          currentNovel: state.currentNovel ? novels.find(novel => novel.id === state.currentNovel!.id) || null : null
+        }));
+      },
+      
       // 添加设置协作状态的方法
       setCollaborationActive: (id, active) => {
         set(state => {
@@ -169,9 +288,6 @@ export const useNovelStore = create<NovelState>()(
             ? { ...state.currentNovel, collaborationActive: active }
             : state.currentNovel;
           
-          // 保存到localStorage
-          localStorage.setItem('novels', JSON.stringify(updatedNovels));
-          
           return { 
             novels: updatedNovels,
             currentNovel: updatedCurrentNovel
@@ -179,10 +295,114 @@ export const useNovelStore = create<NovelState>()(
         });
       },
       
+      // 卷和章节操作
+      addVolume: (novelId, title) => {
+        const volume = createVolume(title);
+        set(state => updateNovelIn(state, novelId, novel => ({
+          ...novel,
+          volumes: [...novel.volumes, volume],
+          lastEdited: new Date()
+        })));
+        return volume;
+      },
+      
+      updateVolume: (novelId, volumeId, updates) => {
+        set(state => updateNovelIn(state, novelId, novel => ({
+          ...novel,
+          volumes: novel.volumes.map(volume => volume.id === volumeId ? { ...volume, ...updates } : volume),
+          lastEdited: new Date()
+        })));
+      },
+      
+      // 删除卷及其中的章节，至少保留一卷一章
+      deleteVolume: (novelId, volumeId) => {
+        set(state => updateNovelIn(state, novelId, novel => {
+          const volumes = novel.volumes.filter(volume => volume.id !== volumeId);
+          if (volumes.length === 0 || getChapters({ ...novel, volumes }).length === 0) return novel;
+          
+          const removed = novel.volumes.find(volume => volume.id === volumeId);
+          const currentRemoved = removed?.chapters.some(chapter => chapter.id === novel.currentChapterId);
+          return {
+            ...novel,
+            volumes,
+            currentChapterId: currentRemoved ? getChapters({ ...novel, volumes })[0].id : novel.currentChapterId,
+            lastEdited: new Date()
+          };
+        }));
+      },
+      
+      addChapter: (novelId, volumeId, title) => {
+        const chapter = createChapter(title);
+        set(state => updateNovelIn(state, novelId, novel => ({
+          ...novel,
+          volumes: novel.volumes.map(volume =>
+            volume.id === volumeId ? { ...volume, chapters: [...volume.chapters, chapter] } : volume
+          ),
+          lastEdited: new Date()
+        })));
+        return chapter;
+      },
+      
+      updateChapter: (novelId, chapterId, updates) => {
+        set(state => updateNovelIn(state, novelId, novel => ({
+          ...mapChapter(novel, chapterId, chapter => ({
+            ...chapter,
+            ...updates,
+            ...(updates.content !== undefined ? { wordCount: countWords(updates.content) } : {}),
+            lastEdited: new Date()
+          })),
+          lastEdited: new Date()
+        })));
+      },
+      
+      // 删除章节，最后一章不能删除
+      deleteChapter: (novelId, chapterId) => {
+        set(state => updateNovelIn(state, novelId, novel => {
+          const chapters = getChapters(novel);
+          if (chapters.length <= 1) return novel;
+          
+          const index = chapters.findIndex(chapter => chapter.id === chapterId);
+          const nextCurrent = novel.currentChapterId === chapterId
+            ? (chapters[index + 1] || chapters[index - 1]).id
+            : novel.currentChapterId;
+          return {
+            ...novel,
+            volumes: novel.volumes.map(volume => ({
+              ...volume,
+              chapters: volume.chapters.filter(chapter => chapter.id !== chapterId)
+            })),
+            currentChapterId: nextCurrent,
+            lastEdited: new Date()
+          };
+        }));
+      },
+      
+      selectChapter: (novelId, chapterId) => {
+        set(state => updateNovelIn(state, novelId, novel => ({ ...novel, currentChapterId: chapterId })));
+      },
+      
+      moveChapter: (novelId, chapterId, targetVolumeId, targetIndex) => {
+        set(state => updateNovelIn(state, novelId, novel => ({
+          ...novel,
+          volumes: moveChapter(novel.volumes, chapterId, targetVolumeId, targetIndex),
+          lastEdited: new Date()
+        })));
+      },
+      
+      moveVolume: (novelId, volumeId, targetIndex) => {
+        set(state => updateNovelIn(state, novelId, novel => ({
+          ...novel,
+          volumes: moveVolume(novel.volumes, volumeId, targetIndex),
+          lastEdited: new Date()
+        })));
+      },
+      
       // 角色操作
-      addCharacter: (characterData) => set((state) => ({
-        characters: [...state.characters, { ...characterData, id: generateId() }]
-      })),
+      // 在修改之外生成ID，加载完成后重放时ID不变
+      addCharacter: (characterData) => {
+        const character = { ...characterData, id: generateId() };
+        set((state) => ({ characters: [...state.characters, character] }));
+      },
       
       updateCharacter: (id, characterData) => set((state) => ({
         characters: state.characters.map(character => 
@@ -208,16 +428,63 @@ export const useNovelStore = create<NovelState>()(
       deleteFriend: (id) => set((state) => ({
         friends: state.friends.filter(friend => friend.id !== id)
       })),
-    }),
+    })),
     {
-      name: 'smalltown-writer-storage',
+      name: PERSIST_KEY,
       storage: createJSONStorage(() => localStorage),
+      // 版本2：小说和角色改为保存在IndexedDB，这里只保存好友
+      // 旧版本的小说和角色已经在创建store之前由 readLegacyWorkspace 读取
+      version: 2,
+      migrate: (persistedState: any) => ({
+        friends: persistedState?.friends || []
+      }),
       partialize: (state) => ({
-        novels: state.novels,
-        characters: state.characters,
         friends: state.friends,
         // 不需要持久化currentNovel
       }),
     }
   )
-); 
\ No newline at end of file
+);
+
+// 在加载的小说和角色上重放加载完成前的修改，这期间的新建、修改和删除都不会丢失
+// 好友保存在localStorage，创建store时已经加载，不需要重放
+const replayPendingChanges = (loaded: Workspace): Pick<NovelState, 'novels' | 'characters' | 'currentNovel'> => {
+  let state: NovelState = { ...useNovelStore.getState(), ...loaded, currentNovel: null };
+  pendingChanges.splice(0).forEach(change => {
+    state = { ...state, ...(typeof change === 'function' ? change(state) : change) };
+  });
+  return { novels: state.novels, characters: state.characters, currentNovel: state.currentNovel };
+};
+
+// 从IndexedDB加载小说和角色，之后store的每次变化都写回数据库
+const initializeWorkspace = async () => {
+  let loaded: Workspace;
+  try {
+    if (legacyWorkspace) {
+      await importLegacyWorkspace(legacyWorkspace);
+      localStorage.removeItem(LEGACY_PENDING_KEY);
+    }
+    loaded = await loadWorkspace();
+  } catch (error) {
+    // 数据库不可用时只在内存中编辑，旧数据保留在localStorage中等待下次导入
+    console.error('打开小说数据库出错，本次修改不会保存:', error);
+    useNovelStore.setState({ ...replayPendingChanges(legacyWorkspace || { novels: [], characters: [] }), workspaceLoaded: true });
+    return;
+  }
+
+  const replayed = replayPendingChanges(loaded);
+  useNovelStore.setState({ ...replayed, workspaceLoaded: true });
+
+  // 按顺序写入，避免较早的修改覆盖较新的修改；先写入加载完成前的修改
+  let saving = saveWorkspaceChanges(loaded, replayed)
+    .catch(error => console.error('保存小说数据出错:', error));
+  useNovelStore.subscribe((state, previousState) => {
+    const previous = { novels: previousState.novels, characters: previousState.characters };
+    const next = { novels: state.novels, characters: state.characters };
+    saving = saving
+      .then(() => saveWorkspaceChanges(previous, next))
+      .catch(error => console.error('保存小说数据出错:', error));
+  });
+};
+
+initializeWorkspace(); 
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { DocumentMode } from '../shared/crdtDocument';
+import type { PunctuationSettings } from '../services/punctuation';
 
 // 字体选项
 export type FontFamily = 'MiSans' | 'Roboto' | 'Quicksand' | 'system-ui' | 'LXGWNeoXiHei';
@@ -12,8 +14,25 @@ export interface NovelSettings {
   useMarkdown: boolean;
   fontSize?: number;
   fontFamily?: FontFamily;
+  punctuation?: PunctuationSettings; // 标点转换规则，没有时使用默认规则
+  dailyGoal?: number; // 每日字数目标，没有或为0时不设目标
 }
 
+// 导出Word稿件的格式
+export interface ManuscriptFormat {
+  fontFamily: string;
+  fontSize: number; // 单位：磅
+  lineSpacing: number; // 行距倍数
+  firstLineIndent: boolean; // 段落首行缩进两个全角字符
+}
+
+export const DEFAULT_MANUSCRIPT_FORMAT: ManuscriptFormat = {
+  fontFamily: '宋体',
+  fontSize: 12,
+  lineSpacing: 1.5,
+  firstLineIndent: true
+};
+
 // 全局设置
 export interface AppSettings {
   theme: 'light' | 'dark';
@@ -26,6 +45,9 @@ export interface AppSettings {
   defaultFontSize?: number;
   fontFamily: FontFamily;
   defaultFontFamily: FontFamily;
+  collaborationDocumentMode?: DocumentMode; // 新建协作会话使用的文档模型
+  manuscriptFormat?: ManuscriptFormat; // 导出Word稿件的格式
+  dailyGoal?: number; // 所有小说合计的每日字数目标
 }
 
 // 设置存储的状态
@@ -44,6 +66,9 @@ interface SettingsState {
   
   // 更新特定小说的设置
   updateNovelSettings: (novelId: string, settings: Partial<Omit<NovelSettings, 'id'>>) => void;
+  
+  // 从备份恢复全部设置
+  replaceSettings: (appSettings: AppSettings, novelSettings: NovelSettings[]) => void;
 }
 
 // 默认设置
@@ -58,6 +83,8 @@ const DEFAULT_APP_SETTINGS: AppSettings = {
   defaultFontSize: 16,
   fontFamily: 'system-ui',
   defaultFontFamily: 'system-ui',
+  collaborationDocumentMode: 'ot',
+  manuscriptFormat: DEFAULT_MANUSCRIPT_FORMAT,
 };
 
 // 使用Zustand创建设置存储
@@ -138,6 +165,14 @@ export const useSettingsStore = create<SettingsState>()(
             };
           }
         });
+      },
+      
+      // 从备份恢复全部设置，缺少的全局设置项使用默认值
+      replaceSettings: (appSettings, novelSettings) => {
+        set({
+          appSettings: { ...DEFAULT_APP_SETTINGS, ...appSettings },
+          novelSettings
+        });
       }
     }),
     {
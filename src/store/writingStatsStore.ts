@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DailyWordCounts, dateKey } from '../services/writingGoals';
+
+// 写作统计的存储状态
+interface WritingStatsState {
+  // 每天每部小说新增的字数
+  days: DailyWordCounts;
+
+  // 记录本人输入产生的字数变化，可以为负数
+  addWords: (novelId: string, count: number) => void;
+}
+
+export const useWritingStatsStore = create<WritingStatsState>()(
+  persist(
+    (set) => ({
+      days: {},
+
+      addWords: (novelId, count) => {
+        if (count === 0) return;
+        const key = dateKey(new Date());
+        set((state) => {
+          const record = state.days[key] || {};
+          return {
+            days: {
+              ...state.days,
+              [key]: { ...record, [novelId]: (record[novelId] || 0) + count }
+            }
+          };
+        });
+      }
+    }),
+    {
+      name: 'smalltown-writer-writing-stats'
+    }
+  )
+);
@@ -0,0 +1,22 @@
+// 协作用户的在线状态
+export enum UserStatus {
+  ONLINE = 'online',
+  AWAY = 'away',
+  OFFLINE = 'offline'
+}
+
+// 协作消息，服务端和各种传输方式共用同一格式
+export interface CollaborationMessage {
+  type: string;
+  payload: any;
+  timestamp?: number;
+  messageId?: string;
+}
+
+// 协作会话中的角色：所有者、编辑者、评论者、只读
+export type SessionRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+// 只有所有者和编辑者可以修改文档，评论者和只读成员只能查看
+export function canEdit(role: SessionRole): boolean {
+  return role === 'owner' || role === 'editor';
+}
@@ -1,11 +1,2 @@
-// 文本操作类型定义
-export interface TextOperation {
-  type: 'insert' | 'delete' | 'sync' | 'retry';
-  userId: string;
-  position?: number;
-  text?: string;
-  length?: number;
-  content?: string;
-  timestamp?: number;
-  fromUserId?: string; // 标识操作来源的用户ID
-} 
\ No newline at end of file
+// 文本操作类型定义，和协作服务器共用
+export type { TextOperation } from '../shared/operationTransform';
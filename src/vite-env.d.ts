@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_WEBSOCKET_URL?: string;
+  readonly VITE_COLLABORATION_TRANSPORT?: 'broadcast' | 'socketio';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}